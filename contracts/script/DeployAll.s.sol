@@ -3,20 +3,46 @@ pragma solidity 0.8.33;
 
 import {Script, console} from "forge-std/Script.sol";
 import {IPoolManager} from "v4-core/interfaces/IPoolManager.sol";
+import {IHooks} from "v4-core/interfaces/IHooks.sol";
 import {Hooks} from "v4-core/libraries/Hooks.sol";
+import {TickMath} from "v4-core/libraries/TickMath.sol";
+import {PoolKey} from "v4-core/types/PoolKey.sol";
+import {Currency} from "v4-core/types/Currency.sol";
 import {EnstableHook} from "../src/core/EnstableHook.sol";
 import {IdentityVault} from "../src/core/IdentityVault.sol";
 import {HookMiner} from "../src/libraries/HookMiner.sol";
 import {MockERC20} from "../test/mocks/MockERC20.sol";
+import {HelperConfig} from "./HelperConfig.s.sol";
+import {LocalEnsRegistry, LocalTextResolver, LocalEnsRegistrar, LocalUniversalResolver} from "./local/LocalEns.sol";
 import {stdJson} from "forge-std/StdJson.sol"; // Para guardar el log
 
 contract DeployAll is Script {
     using stdJson for string;
 
+    // ENS local de anvil (script/local/LocalEns.sol); en testnet queda vacío y se usa el de Sepolia
+    struct LocalEnsDeployment {
+        address registry;
+        address registrar;
+        address universalResolver;
+    }
+
+    // Pool EETH/EUSD que espera el registro del frontend (src/config/pools.ts)
+    uint24 constant POOL_FEE = 3000;
+    int24 constant POOL_TICK_SPACING = 60;
+    // ~2000 EUSD por EETH: 1.0001^76012
+    int24 constant INITIAL_TICK = 76012;
+
     function run() external {
-        address agent = vm.envAddress("AGENT_ADDRESS");
-        address poolManager = vm.envAddress("UNICHAIN_POOL_MANAGER");
+        // PoolManager y agente según la red (en anvil se despliega un PoolManager nuevo)
+        HelperConfig helperConfig = new HelperConfig();
+        (address poolManager,, address agent) = helperConfig.activeNetworkConfig();
+        // El .env (que forge carga solo) es de testnet: en anvil no debe pisar el PoolManager local
+        if (block.chainid != helperConfig.ANVIL_CHAIN_ID()) {
+            agent = vm.envOr("AGENT_ADDRESS", agent);
+            poolManager = vm.envOr("UNICHAIN_POOL_MANAGER", poolManager);
+        }
         address create2Factory = 0x4e59b44847b379578588920cA78FbF26c0B4956C;
+        uint256 startBlock = block.number;
 
         vm.startBroadcast();
 
@@ -40,27 +66,85 @@ contract DeployAll is Script {
         vault.allowToken(address(eusd));
         vault.allowToken(address(eeth));
 
+        _initializePool(IPoolManager(poolManager), address(eeth), address(eusd), address(hook));
+
+        // Después del vault: no mueve el nonce que predijo predictedVault
+        LocalEnsDeployment memory ens;
+        if (block.chainid == helperConfig.ANVIL_CHAIN_ID()) ens = _deployLocalEns();
+
         vm.stopBroadcast();
 
         // --- REGISTRO AUTOMÁTICO EN ARCHIVO ---
-        _saveDeployment(address(eusd), address(eeth), address(hook), address(vault));
+        _saveDeployment(poolManager, address(eusd), address(eeth), address(hook), address(vault), agent, startBlock, ens);
         _printFinalSummary(address(eusd), address(eeth), address(hook), address(vault), agent);
     }
 
-    function _saveDeployment(address eusd, address eeth, address hook, address vault) internal {
+    /**
+     * @dev Inicializa la pool EETH/EUSD con el precio inicial expresado como EUSD por EETH.
+     */
+    function _initializePool(IPoolManager poolManager, address eeth, address eusd, address hook) internal {
+        bool eethIsToken0 = eeth < eusd;
+        PoolKey memory key = PoolKey({
+            currency0: Currency.wrap(eethIsToken0 ? eeth : eusd),
+            currency1: Currency.wrap(eethIsToken0 ? eusd : eeth),
+            fee: POOL_FEE,
+            tickSpacing: POOL_TICK_SPACING,
+            hooks: IHooks(hook)
+        });
+        // El precio de v4 es token1/token0: si EUSD es token0 el tick se invierte
+        poolManager.initialize(key, TickMath.getSqrtPriceAtTick(eethIsToken0 ? INITIAL_TICK : -INITIAL_TICK));
+    }
+
+    /**
+     * @dev Registry, resolver, registrar de `.eth` y UniversalResolver locales: sin ellos el modo
+     * anvil seguiría leyendo nombres, text records y storage proofs de Sepolia.
+     */
+    function _deployLocalEns() internal returns (LocalEnsDeployment memory) {
+        LocalEnsRegistry registry = new LocalEnsRegistry();
+        LocalTextResolver textResolver = new LocalTextResolver(registry);
+        LocalEnsRegistrar registrar = new LocalEnsRegistrar(registry, textResolver);
+        LocalUniversalResolver universalResolver = new LocalUniversalResolver(registry, registrar);
+        registry.setSubnodeRecord(bytes32(0), keccak256("eth"), address(registrar), address(textResolver), 0);
+        return LocalEnsDeployment({
+            registry: address(registry), registrar: address(registrar), universalResolver: address(universalResolver)
+        });
+    }
+
+    /**
+     * @dev Manifiesto por red (deployments/<chainId>.json) que lee el frontend (src/config/networks.ts).
+     */
+    function _saveDeployment(
+        address poolManager,
+        address eusd,
+        address eeth,
+        address hook,
+        address vault,
+        address agent,
+        uint256 startBlock,
+        LocalEnsDeployment memory ens
+    ) internal {
         string memory obj = "log";
-        vm.serializeAddress(obj, "token0", eusd);
-        vm.serializeAddress(obj, "token1", eeth);
+        vm.serializeUint(obj, "chainId", block.chainid);
+        vm.serializeAddress(obj, "poolManager", poolManager);
         vm.serializeAddress(obj, "hook", hook);
-        string memory finalJson = vm.serializeAddress(obj, "vault", vault);
+        vm.serializeAddress(obj, "vault", vault);
+        vm.serializeAddress(obj, "eusd", eusd);
+        vm.serializeAddress(obj, "eeth", eeth);
+        vm.serializeAddress(obj, "agent", agent);
+        string memory finalJson = vm.serializeUint(obj, "startBlock", startBlock);
+        if (ens.registry != address(0)) {
+            vm.serializeAddress(obj, "ensRegistry", ens.registry);
+            vm.serializeAddress(obj, "ensRegistrar", ens.registrar);
+            finalJson = vm.serializeAddress(obj, "ensUniversalResolver", ens.universalResolver);
+        }
 
-        // Guarda un archivo JSON en la raíz para tu frontend
-        vm.writeFile("deployments.json", finalJson);
-        console.log("\n[INFO]: Direcciones guardadas en deployments.json");
+        string memory path = string.concat("deployments/", vm.toString(block.chainid), ".json");
+        vm.writeJson(finalJson, path);
+        console.log("\n[INFO]: Direcciones guardadas en", path);
     }
 
-    function _printFinalSummary(address t0, address t1, address h, address v, address a) internal pure {
-        console.log("--- DEPLOYMENT COMPLETE (UNICHAN SEPOLIA) ---");
+    function _printFinalSummary(address t0, address t1, address h, address v, address a) internal view {
+        console.log("--- DEPLOYMENT COMPLETE (chain %s) ---", block.chainid);
         console.log("Token EUSD (Mock): ", t0);
         console.log("Token EETH (Mock): ", t1);
         console.log("Hook Address:      ", h);
@@ -25,12 +25,19 @@ contract HelperConfig is Script {
 
     address public constant UNICHAIN_POOL_MANAGER = 0x00B036B58a818B1BC34d502D3fE730Db729e62AC;
     uint256 public constant UNICHAIN_SEPOLIA_CHAIN_ID = 1301;
+    uint256 public constant ANVIL_CHAIN_ID = 31337;
+
+    // Default anvil accounts #0 (deployer / PoolManager owner) and #1 (agent)
+    address public constant ANVIL_DEPLOYER = 0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266;
+    address public constant ANVIL_AGENT = 0x70997970C51812dc3A010C7d01b50e0d17dc79C8;
 
     // --- Functions ---
 
     constructor() {
         if (block.chainid == UNICHAIN_SEPOLIA_CHAIN_ID) {
             activeNetworkConfig = getUnichainSepoliaConfig();
+        } else if (block.chainid == ANVIL_CHAIN_ID) {
+            activeNetworkConfig = getOrCreateAnvilEthConfig();
         } else {
             // By default, we use the Unichain configuration.
             // This forces tests to run on a Fork to locate the PoolManager.
@@ -50,9 +57,19 @@ contract HelperConfig is Script {
     }
 
     /**
-     * @notice Maintains compatibility with existing scripts but redirects to Unichain config.
+     * @notice Returns the configuration for a local anvil node, deploying a fresh PoolManager.
+     * @dev PoolManager is pinned to solc 0.8.26, so it is deployed from its artifact
+     * (compiled through script/local/PoolManagerArtifact.sol) instead of being imported.
      */
-    function getOrCreateAnvilEthConfig() public pure returns (NetworkConfig memory) {
-        return getUnichainSepoliaConfig();
+    function getOrCreateAnvilEthConfig() public returns (NetworkConfig memory) {
+        if (activeNetworkConfig.poolManager != address(0)) {
+            return activeNetworkConfig;
+        }
+
+        vm.startBroadcast(ANVIL_DEPLOYER);
+        address poolManager = vm.deployCode("PoolManager.sol:PoolManager", abi.encode(ANVIL_DEPLOYER));
+        vm.stopBroadcast();
+
+        return NetworkConfig({poolManager: poolManager, hook: address(0), agentWallet: ANVIL_AGENT});
     }
 }
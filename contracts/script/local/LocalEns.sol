@@ -0,0 +1,206 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.33;
+
+/**
+ * @title LocalEns
+ * @notice Minimal ENS for the local anvil network, so the dApp and the agent read names, text
+ * records and storage proofs from the local node instead of Sepolia.
+ * @dev Only what the frontend uses: a registry with the ENSRegistry storage layout, a text resolver,
+ * a first-come registrar for `<label>.eth` that also sets the primary name, and the two
+ * UniversalResolver calls viem makes (resolveWithGateways, reverseWithGateways) plus findResolver.
+ * Local chain only: anyone can take any free name.
+ */
+
+// --- Registry ---
+contract LocalEnsRegistry {
+    struct Record {
+        address owner;
+        address resolver;
+        uint64 ttl;
+    }
+
+    // Slot 0, como ENSRegistry.records: EnsProof prueba records[node].resolver en el slot siguiente
+    mapping(bytes32 node => Record) internal s_records;
+
+    error LocalEnsRegistry__Unauthorized(bytes32 node);
+
+    constructor() {
+        s_records[bytes32(0)].owner = msg.sender;
+    }
+
+    function setSubnodeRecord(bytes32 node, bytes32 label, address newOwner, address newResolver, uint64 newTtl)
+        external
+        returns (bytes32 subnode)
+    {
+        if (s_records[node].owner != msg.sender) revert LocalEnsRegistry__Unauthorized(node);
+        subnode = keccak256(abi.encodePacked(node, label));
+        s_records[subnode] = Record({owner: newOwner, resolver: newResolver, ttl: newTtl});
+    }
+
+    function setResolver(bytes32 node, address newResolver) external {
+        if (s_records[node].owner != msg.sender) revert LocalEnsRegistry__Unauthorized(node);
+        s_records[node].resolver = newResolver;
+    }
+
+    function owner(bytes32 node) external view returns (address) {
+        return s_records[node].owner;
+    }
+
+    function resolver(bytes32 node) external view returns (address) {
+        return s_records[node].resolver;
+    }
+}
+
+// --- Text resolver ---
+contract LocalTextResolver {
+    // Slot 0: layout "plain" de EnsProof (texts[node][key])
+    mapping(bytes32 node => mapping(string key => string value)) internal s_texts;
+    LocalEnsRegistry private immutable i_registry;
+
+    event TextChanged(bytes32 indexed node, string indexed indexedKey, string key, string value);
+
+    error LocalTextResolver__Unauthorized(bytes32 node);
+
+    constructor(LocalEnsRegistry registry) {
+        i_registry = registry;
+    }
+
+    function setText(bytes32 node, string calldata key, string calldata value) external {
+        if (i_registry.owner(node) != msg.sender) revert LocalTextResolver__Unauthorized(node);
+        s_texts[node][key] = value;
+        emit TextChanged(node, key, key, value);
+    }
+
+    /**
+     * @notice Same as PublicResolver.multicall: delegatecall keeps msg.sender for the owner check.
+     */
+    function multicall(bytes[] calldata data) external returns (bytes[] memory results) {
+        results = new bytes[](data.length);
+        for (uint256 i = 0; i < data.length; i++) {
+            (bool ok, bytes memory result) = address(this).delegatecall(data[i]);
+            if (!ok) {
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+            results[i] = result;
+        }
+    }
+
+    function text(bytes32 node, string calldata key) external view returns (string memory) {
+        return s_texts[node][key];
+    }
+}
+
+// --- Registrar ---
+contract LocalEnsRegistrar {
+    // namehash("eth")
+    bytes32 public constant ETH_NODE = 0x93cdeb708b7545dc668eb9280176169d1c33cfd8ed6f04690a0bcc88a93fc4ae;
+
+    LocalEnsRegistry private immutable i_registry;
+    LocalTextResolver private immutable i_resolver;
+    mapping(address account => string name) private s_primaryNames;
+
+    event NameRegistered(string name, bytes32 indexed node, address indexed owner);
+
+    error LocalEnsRegistrar__InvalidLabel(string label);
+    error LocalEnsRegistrar__NameTaken(string label);
+
+    constructor(LocalEnsRegistry registry, LocalTextResolver textResolver) {
+        i_registry = registry;
+        i_resolver = textResolver;
+    }
+
+    /**
+     * @notice Registers `<label>.eth` to the caller with the local resolver and makes it their primary name.
+     * @dev Only [a-z0-9-], so the name is already normalized and its namehash matches viem's.
+     */
+    function register(string calldata label) external returns (bytes32 node) {
+        bytes memory raw = bytes(label);
+        if (raw.length == 0) revert LocalEnsRegistrar__InvalidLabel(label);
+        for (uint256 i = 0; i < raw.length; i++) {
+            bytes1 c = raw[i];
+            bool valid = (c >= "a" && c <= "z") || (c >= "0" && c <= "9") || c == "-";
+            if (!valid) revert LocalEnsRegistrar__InvalidLabel(label);
+        }
+
+        bytes32 labelhash = keccak256(raw);
+        node = keccak256(abi.encodePacked(ETH_NODE, labelhash));
+        address current = i_registry.owner(node);
+        if (current != address(0) && current != msg.sender) revert LocalEnsRegistrar__NameTaken(label);
+
+        i_registry.setSubnodeRecord(ETH_NODE, labelhash, msg.sender, address(i_resolver), 0);
+        string memory name = string.concat(label, ".eth");
+        s_primaryNames[msg.sender] = name;
+        emit NameRegistered(name, node, msg.sender);
+    }
+
+    function primaryName(address account) external view returns (string memory) {
+        return s_primaryNames[account];
+    }
+
+    function textResolver() external view returns (address) {
+        return address(i_resolver);
+    }
+}
+
+// --- Universal resolver ---
+contract LocalUniversalResolver {
+    LocalEnsRegistry private immutable i_registry;
+    LocalEnsRegistrar private immutable i_registrar;
+
+    // Mismos nombres que el UniversalResolver: viem los trata como "sin resultado"
+    error ResolverNotFound(bytes name);
+    error ResolverError(bytes errorData);
+
+    constructor(LocalEnsRegistry registry, LocalEnsRegistrar registrar) {
+        i_registry = registry;
+        i_registrar = registrar;
+    }
+
+    /**
+     * @notice Resolver of the exact name (no wildcard lookup on parent names).
+     * @param name DNS-encoded name.
+     */
+    function findResolver(bytes calldata name) public view returns (address resolver, bytes32 node, uint256 offset) {
+        node = _namehash(name, 0);
+        resolver = i_registry.resolver(node);
+        offset = 0;
+    }
+
+    function resolveWithGateways(bytes calldata name, bytes calldata data, string[] calldata)
+        external
+        view
+        returns (bytes memory result, address resolver)
+    {
+        (resolver,,) = findResolver(name);
+        if (resolver == address(0)) revert ResolverNotFound(name);
+        bool ok;
+        (ok, result) = resolver.staticcall(data);
+        if (!ok) revert ResolverError(result);
+    }
+
+    /**
+     * @notice Primary name of an address, from the registrar (only the ETH coin type).
+     * @dev An empty name means "no primary name", which viem returns as null.
+     */
+    function reverseWithGateways(bytes calldata lookupAddress, uint256 coinType, string[] calldata)
+        external
+        view
+        returns (string memory name, address resolver, address reverseResolver)
+    {
+        if (coinType != 60 || lookupAddress.length != 20) return ("", address(0), address(0));
+        name = i_registrar.primaryName(address(bytes20(lookupAddress)));
+        if (bytes(name).length == 0) return ("", address(0), address(0));
+        resolver = i_registrar.textResolver();
+        reverseResolver = address(i_registrar);
+    }
+
+    // namehash de un nombre en DNS wire format: [longitud][label]... terminado en 0
+    function _namehash(bytes calldata name, uint256 offset) internal pure returns (bytes32) {
+        uint256 length = uint8(name[offset]);
+        if (length == 0) return bytes32(0);
+        bytes32 labelhash = keccak256(name[offset + 1:offset + 1 + length]);
+        return keccak256(abi.encodePacked(_namehash(name, offset + 1 + length), labelhash));
+    }
+}
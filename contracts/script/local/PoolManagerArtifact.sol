@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+/**
+ * @notice Forces Foundry to compile the v4 PoolManager so HelperConfig can deploy it on anvil
+ * with vm.deployCode("PoolManager.sol:PoolManager"). The rest of the project uses 0.8.33.
+ */
+import {PoolManager} from "v4-core/PoolManager.sol";
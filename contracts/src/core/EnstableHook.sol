@@ -123,6 +123,10 @@ contract EnstableHook is IHooks, IEnstableHook {
         // Prevents the Agent from setting ranges dangerously far from current price
         _validatePriceRange(_key, _signal.recommendedLower, _signal.recommendedUpper);
 
+        // The whole position moves: the vault removes it and re-mints the same liquidity
+        uint128 liquidity = i_vault.getPosition(_user).liquidity;
+        if (liquidity == 0) revert EnstableHook__NoPositionToRebalance();
+
         // 4. AUTO-RECOVERY
         // If in emergency mode but risk dropped significantly, resume operations
         if (s_emergencyMode && _signal.riskLevel < 50) {
@@ -134,9 +138,7 @@ contract EnstableHook is IHooks, IEnstableHook {
         emit AgentSignalProcessed(_user, PoolId.unwrap(_key.toId()), _signal.recommendedLower, _signal.recommendedUpper);
 
         // 5. EXECUTION
-        i_vault.executeAgentAction(
-            _key, _signal.recommendedLower, _signal.recommendedUpper, uint128(_signal.volatility), _user
-        );
+        i_vault.executeAgentAction(_key, _signal.recommendedLower, _signal.recommendedUpper, liquidity, _user);
     }
 
     /**
@@ -25,8 +25,13 @@ interface IEnstableHook is IHooks {
     error EnstableHook__CircuitBreakerActive();
     error EnstableHook__InvalidBounds();
     error EnstableHook__InvalidRangeProposed();
+    error EnstableHook__NoPositionToRebalance();
 
     // Type declarations
+    /**
+     * @dev `volatility` is the agent's annualized price volatility in basis points (6500 = 65%).
+     * It is informational: the liquidity moved on a rebalance is read from the vault.
+     */
     struct AgentSignal {
         uint256 currentPrice;
         uint256 volatility;
@@ -19,6 +19,7 @@ import {PoolId, PoolIdLibrary} from "v4-core/types/PoolId.sol";
 import {Currency, CurrencyLibrary} from "v4-core/types/Currency.sol";
 import {IHooks} from "v4-core/interfaces/IHooks.sol";
 import {IEnstableHook} from "../src/interfaces/IEnstableHook.sol";
+import {IIdentityVault} from "../src/interfaces/IIdentityVault.sol";
 import {MockERC20} from "./mocks/MockERC20.sol";
 import {StateLibrary} from "v4-core/libraries/StateLibrary.sol";
 
@@ -35,6 +36,7 @@ contract EnstableHookTest is Test {
     address agent = 0x70997970C51812dc3A010C7d01b50e0d17dc79C8;
     address user = makeAddr("user");
     bytes32 mockEnsNode = keccak256("user.eth");
+    uint128 constant USER_LIQUIDITY = 100e18;
 
     PoolKey mockKey;
     MockERC20 token0;
@@ -90,6 +92,7 @@ contract EnstableHookTest is Test {
      * @dev Follows AAA pattern: Arrange (setup in setUp), Act (process signal), Assert.
      */
     function testProcessValidSignal_HappyPath() public {
+        _deposit(mockKey);
         IEnstableHook.AgentSignal memory signal = _createSignal(40, -120, 120);
 
         vm.prank(agent);
@@ -111,6 +114,7 @@ contract EnstableHookTest is Test {
         int24 tickLower = -600;
         int24 tickUpper = 600;
 
+        _deposit(mockKey);
         IEnstableHook.AgentSignal memory signal = _createSignal(20, tickLower, tickUpper);
         uint256 vaultBalance0Before = token0.balanceOf(address(vault));
 
@@ -131,6 +135,34 @@ contract EnstableHookTest is Test {
         assertTrue(liquidity > 0, "Pool position should have active liquidity");
     }
 
+    /**
+     * @notice Checks that a rebalance moves the user's whole position, whatever the signal's volatility.
+     */
+    function test_SignalKeepsTheVaultLiquidity() public {
+        _deposit(mockKey);
+        IEnstableHook.AgentSignal memory signal = _createSignal(20, -600, 600);
+        signal.volatility = 1e18;
+
+        vm.prank(agent);
+        hook.processAgentSignal(mockKey, user, signal);
+
+        IIdentityVault.PackedPosition memory pos = vault.getPosition(user);
+        assertEq(pos.tickLower, -600);
+        assertEq(pos.tickUpper, 600);
+        assertEq(pos.liquidity, USER_LIQUIDITY, "Liquidity should not follow the volatility field");
+    }
+
+    /**
+     * @notice Ensures a signal for a user without liquidity in the vault is rejected.
+     */
+    function test_RevertsWithoutVaultPosition() public {
+        IEnstableHook.AgentSignal memory signal = _createSignal(20, -120, 120);
+
+        vm.prank(agent);
+        vm.expectRevert(IEnstableHook.EnstableHook__NoPositionToRebalance.selector);
+        hook.processAgentSignal(mockKey, user, signal);
+    }
+
     /**
      * @notice Verifies the circuit breaker functionality blocks swaps during high risk.
      */
@@ -166,6 +198,7 @@ contract EnstableHookTest is Test {
      * @notice Verifies that a valid low-risk signal can deactivate the emergency mode.
      */
     function testEmergencyRecovery() public {
+        _deposit(mockKey);
         _activateEmergency();
         assertTrue(hook.s_emergencyMode());
 
@@ -205,11 +238,14 @@ contract EnstableHookTest is Test {
 
         // Vault Configuration
         vault.allowToken(address(tokenUsdc));
-        vm.deal(address(vault), 1000 ether);
         tokenUsdc.mint(address(vault), 1000 ether);
+        vm.deal(user, 1000 ether);
+        vm.prank(user);
+        vault.deposit{value: 1000 ether}(nativeKey, 1e18, -60, 60);
+        // The deposit refunds the unused ETH to the user: fund the wider range of the rebalance
+        vm.deal(address(vault), 1000 ether);
 
         IEnstableHook.AgentSignal memory signal = _createSignal(20, -600, 600);
-        signal.volatility = 1e18;
 
         vm.prank(agent);
         hook.processAgentSignal(nativeKey, user, signal);
@@ -235,6 +271,7 @@ contract EnstableHookTest is Test {
      * @notice Ensures that sending the exact same signal twice skips intensive logic to save gas.
      */
     function test_IgnoreDuplicateSignal() public {
+        _deposit(mockKey);
         IEnstableHook.AgentSignal memory signal = _createSignal(20, -120, 120);
 
         vm.startPrank(agent);
@@ -250,6 +287,15 @@ contract EnstableHookTest is Test {
 
     // --- Internal Helpers ---
 
+    /**
+     * @dev Opens a USER_LIQUIDITY position for the user in [-60, 60], paid from the vault's balance.
+     * @param key The pool to deposit into.
+     */
+    function _deposit(PoolKey memory key) internal {
+        vm.prank(user);
+        vault.deposit(key, USER_LIQUIDITY, -60, 60);
+    }
+
     /**
      * @dev Creates a mock AgentSignal struct.
      * @param risk The risk level to set.
@@ -264,7 +310,7 @@ contract EnstableHookTest is Test {
     {
         return IEnstableHook.AgentSignal({
             currentPrice: 1e18,
-            volatility: 10,
+            volatility: 6500, // 65% annualized, in basis points
             recommendedLower: lower,
             recommendedUpper: upper,
             riskLevel: risk,
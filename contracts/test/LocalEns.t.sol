@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.33;
+
+/**
+ * @title LocalEnsTest
+ * @notice Tests for the local ENS that DeployAll puts on anvil (script/local/LocalEns.sol).
+ * @dev Checks the calls viem makes through the UniversalResolver and the storage layout the
+ * frontend's storage proofs rely on.
+ */
+
+// --- Imports ---
+import {Test} from "forge-std/Test.sol";
+import {
+    LocalEnsRegistry,
+    LocalTextResolver,
+    LocalEnsRegistrar,
+    LocalUniversalResolver
+} from "../script/local/LocalEns.sol";
+
+contract LocalEnsTest is Test {
+    // --- State Variables ---
+    LocalEnsRegistry registry;
+    LocalTextResolver textResolver;
+    LocalEnsRegistrar registrar;
+    LocalUniversalResolver universalResolver;
+
+    address ALICE = makeAddr("alice");
+    address BOB = makeAddr("bob");
+
+    // namehash("alice.eth") y "alice.eth" en DNS wire format
+    bytes32 constant ALICE_NODE = 0x787192fc5378cc32aa956ddfdedbf26b24e8d78e40109add0eea2c1a012c3dec;
+    bytes constant ALICE_DNS = hex"05616c6963650365746800";
+
+    // --- Functions ---
+
+    function setUp() public {
+        registry = new LocalEnsRegistry();
+        textResolver = new LocalTextResolver(registry);
+        registrar = new LocalEnsRegistrar(registry, textResolver);
+        universalResolver = new LocalUniversalResolver(registry, registrar);
+        registry.setSubnodeRecord(bytes32(0), keccak256("eth"), address(registrar), address(textResolver), 0);
+    }
+
+    function test_Register_SetsOwnerResolverAndPrimaryName() public {
+        vm.prank(ALICE);
+        bytes32 node = registrar.register("alice");
+
+        assertEq(node, ALICE_NODE);
+        assertEq(registry.owner(node), ALICE);
+        assertEq(registry.resolver(node), address(textResolver));
+        assertEq(registrar.primaryName(ALICE), "alice.eth");
+    }
+
+    function test_Register_RevertsOnTakenOrInvalidLabel() public {
+        vm.prank(ALICE);
+        registrar.register("alice");
+
+        vm.prank(BOB);
+        vm.expectRevert(abi.encodeWithSelector(LocalEnsRegistrar.LocalEnsRegistrar__NameTaken.selector, "alice"));
+        registrar.register("alice");
+
+        vm.prank(BOB);
+        vm.expectRevert(abi.encodeWithSelector(LocalEnsRegistrar.LocalEnsRegistrar__InvalidLabel.selector, "Bob"));
+        registrar.register("Bob");
+    }
+
+    function test_Multicall_OnlyTheOwnerWritesRecords() public {
+        vm.prank(ALICE);
+        registrar.register("alice");
+
+        bytes[] memory calls = new bytes[](2);
+        calls[0] = abi.encodeCall(LocalTextResolver.setText, (ALICE_NODE, "strategy_risk", "2"));
+        calls[1] = abi.encodeCall(LocalTextResolver.setText, (ALICE_NODE, "strategy_max_width", "5"));
+
+        vm.prank(BOB);
+        vm.expectRevert(
+            abi.encodeWithSelector(LocalTextResolver.LocalTextResolver__Unauthorized.selector, ALICE_NODE)
+        );
+        textResolver.multicall(calls);
+
+        vm.prank(ALICE);
+        textResolver.multicall(calls);
+        assertEq(textResolver.text(ALICE_NODE, "strategy_risk"), "2");
+        assertEq(textResolver.text(ALICE_NODE, "strategy_max_width"), "5");
+    }
+
+    function test_UniversalResolver_ResolvesTextAndPrimaryName() public {
+        vm.startPrank(ALICE);
+        registrar.register("alice");
+        textResolver.setText(ALICE_NODE, "strategy_risk", "2");
+        vm.stopPrank();
+
+        (address resolver, bytes32 node,) = universalResolver.findResolver(ALICE_DNS);
+        assertEq(resolver, address(textResolver));
+        assertEq(node, ALICE_NODE);
+
+        (bytes memory result,) = universalResolver.resolveWithGateways(
+            ALICE_DNS, abi.encodeCall(LocalTextResolver.text, (ALICE_NODE, "strategy_risk")), new string[](0)
+        );
+        assertEq(abi.decode(result, (string)), "2");
+
+        (string memory name,,) = universalResolver.reverseWithGateways(abi.encodePacked(ALICE), 60, new string[](0));
+        assertEq(name, "alice.eth");
+        (name,,) = universalResolver.reverseWithGateways(abi.encodePacked(BOB), 60, new string[](0));
+        assertEq(name, "");
+    }
+
+    function test_Storage_MatchesTheLayoutOfTheProofs() public {
+        vm.startPrank(ALICE);
+        registrar.register("alice");
+        textResolver.setText(ALICE_NODE, "strategy_risk", "2");
+        vm.stopPrank();
+
+        // records[node].resolver: segundo slot del struct en el mapping del slot 0
+        bytes32 resolverSlot = bytes32(uint256(keccak256(abi.encode(ALICE_NODE, uint256(0)))) + 1);
+        assertEq(address(uint160(uint256(vm.load(address(registry), resolverSlot)))), address(textResolver));
+
+        // texts[node][key] en el slot 0; string corto: datos y 2 * longitud en la misma palabra
+        bytes32 textSlot = keccak256(abi.encodePacked("strategy_risk", keccak256(abi.encode(ALICE_NODE, uint256(0)))));
+        assertEq(vm.load(address(textResolver), textSlot), bytes32(abi.encodePacked(bytes1("2"), bytes30(0), uint8(2))));
+    }
+}
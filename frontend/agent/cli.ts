@@ -0,0 +1,60 @@
+/**
+ * CLI DEL AGENTE HEADLESS.
+ *
+ *   bun run agent start      [--config agent.config.json] [--json]  # daemon hasta SIGINT/SIGTERM
+ *   bun run agent run-once   [--config agent.config.json] [--json]  # una iteración por usuario
+ *   bun run agent status     [--config agent.config.json] [--json]  # estado del daemon
+ */
+import { DEFAULT_CONFIG_PATH, type DaemonConfig, loadDaemonConfig } from "./config";
+import { formatDaemonStatus, isDaemonRunning, readDaemonStatus } from "./status";
+
+const USAGE = `Usage: bun run agent <start|run-once|status> [--config <path>] [--json]
+
+  start      Run the agent for every configured user until SIGINT/SIGTERM
+  run-once   Run a single iteration per user and exit (non-zero if any failed)
+  status     Show the state written by the running (or last) daemon
+
+  --config   Config file (default: ${DEFAULT_CONFIG_PATH})
+  --json     Print events (start/run-once) or the status as JSON`;
+
+const args = process.argv.slice(2);
+const command = args[0];
+const configFlag = args.indexOf("--config");
+const configPath = configFlag !== -1 && args[configFlag + 1] ? (args[configFlag + 1] as string) : DEFAULT_CONFIG_PATH;
+const json = args.includes("--json");
+
+/**
+ * La red y la fuente de precio se resuelven al cargar src/config, así que se fijan en el
+ * entorno antes del import dinámico del daemon.
+ */
+const loadDaemon = async (config: DaemonConfig) => {
+  if (config.network) process.env.NEXT_PUBLIC_NETWORK = config.network;
+  if (config.priceSource) process.env.NEXT_PUBLIC_PRICE_SOURCE = config.priceSource;
+  return import("./daemon");
+};
+
+const main = async (): Promise<number> => {
+  if (command === "status") {
+    const { stateDir } = await loadDaemonConfig(configPath);
+    const status = await readDaemonStatus(stateDir);
+    console.log(json ? JSON.stringify({ ...status, running: isDaemonRunning(status) }, null, 2) : formatDaemonStatus(status));
+    return isDaemonRunning(status) ? 0 : 1;
+  }
+
+  if (command === "start" || command === "run-once") {
+    const config = await loadDaemonConfig(configPath);
+    const { runDaemon } = await loadDaemon(config);
+    return runDaemon(config, { mode: command === "start" ? "daemon" : "once", json });
+  }
+
+  console.error(USAGE);
+  return command === undefined || command === "--help" || command === "-h" ? 0 : 2;
+};
+
+main().then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,102 @@
+import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { isAddress } from "viem";
+
+/**
+ * CONFIGURACIÓN DEL DAEMON (agent.config.json). Este módulo no importa nada de src/:
+ * la red activa se fija en el entorno antes de cargar la lógica (ver cli.ts).
+ */
+// Direcciones fijas a vigilar además de las descubiertas. La estrategia siempre sale de
+// los records strategy_*: la prueba ENS de cada señal tiene que coincidir con ellos
+export type DaemonUserConfig = {
+  address: `0x${string}`;
+  // Si falta se usa el nombre primario (reverse record) en la red de ENS
+  ensName?: string;
+};
+
+// Firmante del agente (ver agent/signers.ts). "dev-key" lee AGENT_PRIVATE_KEY y solo vale en anvil
+export type DaemonSignerConfig =
+  | { type: "keystore"; path: string; passwordEnv?: string; passwordFile?: string }
+  | { type: "remote"; url: string; address?: `0x${string}` }
+  | { type: "dev-key" };
+
+export type DaemonConfig = {
+  network?: "unichain-sepolia" | "anvil";
+  priceSource?: "pool" | "cex" | "median" | "replay";
+  // Archivo local de klines para priceSource "replay"
+  replayFile?: string;
+  intervalMs: number;
+  stateDir: string;
+  signer: DaemonSignerConfig;
+  // Vigilar también a todo el que haya emitido UserDeposit en el Vault
+  discover: boolean;
+  discoveryIntervalMs?: number;
+  // Iteraciones en paralelo contra el RPC y separación mínima entre señales del agente
+  concurrency?: number;
+  minSignalGapMs?: number;
+  // Firmar aunque el Vault desplegado no exponga userNodes (identidad sin verificar)
+  allowUnverifiedNode?: boolean;
+  users: DaemonUserConfig[];
+};
+
+export const DEFAULT_CONFIG_PATH = "agent.config.json";
+
+const DEFAULTS = { intervalMs: 30_000, stateDir: ".agent", discover: true };
+
+const configError = (path: string, message: string) => new Error(`${path}: ${message}`);
+
+/**
+ * Lee y valida el archivo. Las rutas (stateDir, replayFile, keystore) son relativas al archivo.
+ */
+export const loadDaemonConfig = async (path: string): Promise<DaemonConfig> => {
+  let raw: Partial<DaemonConfig>;
+  try {
+    raw = JSON.parse(await readFile(path, "utf8"));
+  } catch (err) {
+    throw configError(path, err instanceof SyntaxError ? `invalid JSON (${err.message})` : "file not found");
+  }
+
+  const users = raw.users ?? [];
+  if (!Array.isArray(users)) throw configError(path, "`users` must be a list of depositor addresses");
+  if (raw.discover === false && users.length === 0) {
+    throw configError(path, "`users` must list at least one depositor address when `discover` is false");
+  }
+  for (const user of users) {
+    if (!isAddress(user.address)) throw configError(path, `invalid user address ${user.address}`);
+  }
+  const signer = raw.signer;
+  if (!signer || !["keystore", "remote", "dev-key"].includes(signer.type)) {
+    throw configError(path, "`signer.type` must be \"keystore\", \"remote\" or \"dev-key\"");
+  }
+  if (signer.type === "keystore" && !signer.path) throw configError(path, "`signer.path` is required for a keystore");
+  if (signer.type === "remote" && !signer.url) throw configError(path, "`signer.url` is required for a remote signer");
+  if (signer.type === "remote" && signer.address && !isAddress(signer.address)) {
+    throw configError(path, `invalid signer address ${signer.address}`);
+  }
+  if (raw.priceSource === "replay" && !raw.replayFile) {
+    throw configError(path, "`replayFile` is required with priceSource \"replay\"");
+  }
+  if (raw.intervalMs !== undefined && (!Number.isFinite(raw.intervalMs) || raw.intervalMs < 1000)) {
+    throw configError(path, "`intervalMs` must be at least 1000");
+  }
+  if (raw.concurrency !== undefined && (!Number.isInteger(raw.concurrency) || raw.concurrency < 1)) {
+    throw configError(path, "`concurrency` must be a positive integer");
+  }
+
+  const base = dirname(resolve(path));
+  return {
+    ...DEFAULTS,
+    ...raw,
+    users,
+    stateDir: resolve(base, raw.stateDir ?? DEFAULTS.stateDir),
+    replayFile: raw.replayFile ? resolve(base, raw.replayFile) : undefined,
+    signer:
+      signer.type === "keystore"
+        ? {
+            ...signer,
+            path: resolve(base, signer.path),
+            passwordFile: signer.passwordFile ? resolve(base, signer.passwordFile) : undefined,
+          }
+        : signer,
+  };
+};
@@ -0,0 +1,159 @@
+import { readFile } from "node:fs/promises";
+import { type Address, createPublicClient, http } from "viem";
+import { ACTIVE_ENS, ACTIVE_NETWORK, activeChain, ensChain } from "../src/config/networks";
+import type { PoolConfig } from "../src/config/pools";
+import type { AgentEvent } from "../src/logic/AgentEvents";
+import { formatContractError } from "../src/logic/ContractErrors";
+import { createDepositorScheduler } from "../src/logic/DepositorScheduler";
+import {
+  type PriceSource,
+  createReplayPriceSource,
+  getConfiguredPriceSource,
+  parseKlines,
+} from "../src/logic/PriceSource";
+import type { DaemonConfig } from "./config";
+import { loadAgentSigner } from "./signers";
+import {
+  type DaemonStatus,
+  HEARTBEAT_INTERVAL,
+  RECENT_EVENTS,
+  isDaemonRunning,
+  readDaemonStatus,
+  writeDaemonStatus,
+} from "./status";
+
+/**
+ * DAEMON HEADLESS: la misma lógica del agente (createAgent) fuera del navegador, para
+ * un operador que vigila a todos los depositantes del Vault 24/7 (DepositorScheduler).
+ */
+export type DaemonOptions = {
+  mode: "daemon" | "once";
+  // Eventos como JSON lines (para jq / un colector de logs) en vez de texto
+  json: boolean;
+};
+
+const client = createPublicClient({ chain: activeChain, transport: http(ACTIVE_NETWORK.rpcUrl) });
+const ensClient = createPublicClient({ chain: ensChain, transport: http(ACTIVE_ENS.rpcUrl) });
+
+const printEvent = (event: AgentEvent, user: Address | null, json: boolean) => {
+  if (json) {
+    console.log(JSON.stringify({ ...event, user }, (_key, value) => (typeof value === "bigint" ? value.toString() : value)));
+    return;
+  }
+  const line = `${new Date(event.timestamp).toISOString()} ${event.level.toUpperCase().padEnd(7)} ${event.kind.padEnd(11)} ${(user ?? "-").slice(0, 10).padEnd(10)} ${event.message}${
+    event.txHash ? ` (${event.txHash})` : ""
+  }`;
+  (event.level === "error" ? console.error : console.log)(line);
+};
+
+/**
+ * Fuente de precio por pool, compartida por sus depositantes.
+ */
+const buildPriceSource = async (config: DaemonConfig, pool: PoolConfig): Promise<PriceSource> => {
+  if (config.priceSource === "replay" && config.replayFile) {
+    return createReplayPriceSource(parseKlines(JSON.parse(await readFile(config.replayFile, "utf8"))));
+  }
+  return getConfiguredPriceSource(client, pool, config.priceSource);
+};
+
+/**
+ * Arranca el scheduler. En modo "once" hace un ciclo (descubrimiento + una iteración por
+ * depositante) y resuelve con el código de salida; en modo "daemon" corre hasta SIGINT/SIGTERM.
+ */
+export const runDaemon = async (config: DaemonConfig, { mode, json }: DaemonOptions): Promise<number> => {
+  const previous = await readDaemonStatus(config.stateDir);
+  if (mode === "daemon" && previous && isDaemonRunning(previous)) {
+    throw new Error(`An agent daemon is already running (pid ${previous.pid}); both would race for the agent nonce.`);
+  }
+
+  // Un único firmante para todos los usuarios: es la cuenta en la que confía el hook
+  const signer = await loadAgentSigner(config.signer, ACTIVE_NETWORK.chain.id);
+  const recentEvents: DaemonStatus["recentEvents"] = [];
+  const startedAt = Date.now();
+  let stoppedAt: number | null = null;
+
+  const scheduler = createDepositorScheduler({
+    client,
+    ensClient,
+    signer,
+    onEvent: (event, user) => {
+      printEvent(event, user, json);
+      recentEvents.push({ ...event, user: user ?? "" });
+      if (recentEvents.length > RECENT_EVENTS) recentEvents.shift();
+      saveStatus();
+    },
+    priceSourceFor: (pool) => buildPriceSource(config, pool),
+    users: config.users,
+    discover: config.discover,
+    intervalMs: config.intervalMs,
+    discoveryIntervalMs: config.discoveryIntervalMs,
+    concurrency: config.concurrency,
+    minSignalGapMs: config.minSignalGapMs,
+    allowUnverifiedNode: config.allowUnverifiedNode,
+  });
+
+  const status = (): DaemonStatus => ({
+    pid: process.pid,
+    mode,
+    network: ACTIVE_NETWORK.label,
+    chainId: ACTIVE_NETWORK.chain.id,
+    signer: `${signer.kind} ${signer.account.address}`,
+    startedAt,
+    updatedAt: Date.now(),
+    stoppedAt,
+    pendingSignals: scheduler.pendingSignals(),
+    users: scheduler.getDepositors(),
+    recentEvents,
+  });
+
+  // Escrituras serializadas: un evento no pisa a otro a medio escribir
+  let writing = Promise.resolve();
+  const saveStatus = () => {
+    writing = writing.then(() => writeDaemonStatus(config.stateDir, status())).catch((err) => {
+      console.error(`Could not write agent status: ${formatContractError(err)}`);
+    });
+    return writing;
+  };
+
+  console.error(
+    `Agent ${mode} on ${ACTIVE_NETWORK.label} (${ACTIVE_NETWORK.chain.id}), ${signer.kind} signer ${signer.account.address}, ${
+      config.discover ? "discovering depositors" : `${config.users.length} configured user(s)`
+    }.`,
+  );
+
+  if (mode === "once") {
+    const ok = await scheduler.runOnce();
+    stoppedAt = Date.now();
+    await saveStatus();
+    return ok ? 0 : 1;
+  }
+
+  if (!(await scheduler.start())) {
+    stoppedAt = Date.now();
+    await saveStatus();
+    return 1;
+  }
+  await saveStatus();
+  const heartbeat = setInterval(saveStatus, HEARTBEAT_INTERVAL);
+
+  // Parada ordenada: se espera al ciclo en curso (y a la señal que esté en vuelo)
+  return new Promise<number>((resolve) => {
+    let stopping = false;
+    const shutdown = async (signal: NodeJS.Signals) => {
+      if (stopping) {
+        console.error(`Received ${signal} again, exiting without waiting.`);
+        process.exit(1);
+      }
+      stopping = true;
+      console.error(`Received ${signal}, stopping the scheduler...`);
+      clearInterval(heartbeat);
+      await scheduler.stop();
+      stoppedAt = Date.now();
+      await saveStatus();
+      console.error("Agent daemon stopped.");
+      resolve(0);
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+  });
+};
@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type Hex, parseTransaction, recoverMessageAddress, recoverTransactionAddress } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createKeystoreSigner, createRemoteSigner } from "./signers";
+
+// Vectores de Web3 Secret Storage v3 (password "testpassword")
+const VECTOR_KEY = "0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d";
+const VECTOR_ADDRESS = privateKeyToAccount(VECTOR_KEY).address;
+
+const PBKDF2_KEYSTORE = {
+  crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "6087dab2f9fdbbfaddc31a909735c1e6" },
+    ciphertext: "5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46",
+    kdf: "pbkdf2",
+    kdfparams: {
+      c: 262144,
+      dklen: 32,
+      prf: "hmac-sha256",
+      salt: "ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd",
+    },
+    mac: "517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2",
+  },
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  version: 3,
+};
+
+const SCRYPT_KEYSTORE = {
+  // geth antiguo: "Crypto" con mayúscula
+  Crypto: {
+    cipher: "aes-128-ctr",
+    cipherparams: { iv: "83dbcc02d8ccb40e466191a123791e0e" },
+    ciphertext: "d172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c",
+    kdf: "scrypt",
+    kdfparams: {
+      dklen: 32,
+      n: 262144,
+      p: 8,
+      r: 1,
+      salt: "ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19",
+    },
+    mac: "2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097",
+  },
+  id: "3198bc9c-6672-5ab3-d995-4942343ae5b6",
+  version: 3,
+};
+
+describe("createKeystoreSigner", () => {
+  let dir: string;
+  const writeKeystore = async (name: string, keystore: object) => {
+    const path = join(dir, name);
+    await writeFile(path, JSON.stringify(keystore));
+    return path;
+  };
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "agent-signers-"));
+  });
+  afterAll(() => rm(dir, { recursive: true, force: true }));
+
+  test("decrypts the pbkdf2 vector", async () => {
+    const signer = await createKeystoreSigner(await writeKeystore("pbkdf2.json", PBKDF2_KEYSTORE), "testpassword");
+    expect(signer.kind).toBe("keystore");
+    expect(signer.account.address).toBe(VECTOR_ADDRESS);
+  });
+
+  test("decrypts the scrypt vector", async () => {
+    const signer = await createKeystoreSigner(await writeKeystore("scrypt.json", SCRYPT_KEYSTORE), "testpassword");
+    expect(signer.account.address).toBe(VECTOR_ADDRESS);
+  });
+
+  test("rejects a wrong password and a mismatched address", async () => {
+    const path = await writeKeystore("pbkdf2-wrong.json", PBKDF2_KEYSTORE);
+    await expect(createKeystoreSigner(path, "wrong")).rejects.toThrow("Wrong password");
+
+    const mislabeled = await writeKeystore("mislabeled.json", {
+      ...PBKDF2_KEYSTORE,
+      address: "0000000000000000000000000000000000000001",
+    });
+    await expect(createKeystoreSigner(mislabeled, "testpassword")).rejects.toThrow("not to its declared address");
+  });
+});
+
+describe("createRemoteSigner", () => {
+  // Doble local del firmante remoto: guarda la clave y firma por JSON-RPC, como Web3Signer
+  const agent = privateKeyToAccount(generatePrivateKey());
+  const calls: string[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+  let url: string;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        const { id, method, params } = (await req.json()) as { id: number; method: string; params: unknown[] };
+        calls.push(method);
+        const reply = (result: unknown) => Response.json({ jsonrpc: "2.0", id, result });
+        switch (method) {
+          case "eth_accounts":
+            return reply([agent.address.toLowerCase()]);
+          case "personal_sign":
+            return reply(await agent.signMessage({ message: { raw: params[0] as Hex } }));
+          case "eth_signTransaction": {
+            const tx = params[0] as { to: Hex; value: Hex; nonce: Hex; gas: Hex; gasPrice: Hex; chainId: Hex };
+            const raw = await agent.signTransaction({
+              to: tx.to,
+              value: BigInt(tx.value),
+              nonce: Number(tx.nonce),
+              gas: BigInt(tx.gas),
+              gasPrice: BigInt(tx.gasPrice),
+              chainId: Number(tx.chainId),
+            });
+            // Formato de Clef/geth
+            return reply({ raw, tx: {} });
+          }
+          default:
+            return Response.json({ jsonrpc: "2.0", id, error: { code: -32601, message: `${method} not found` } });
+        }
+      },
+    });
+    url = `http://127.0.0.1:${server.port}`;
+  });
+  afterAll(() => server.stop(true));
+
+  test("signs transactions and messages through the remote service", async () => {
+    const signer = await createRemoteSigner(url, agent.address);
+    expect(signer.kind).toBe("remote");
+    expect(signer.account.address).toBe(agent.address);
+
+    const raw = await signer.account.signTransaction({
+      to: "0x000000000000000000000000000000000000dEaD",
+      value: 1n,
+      nonce: 7,
+      gas: 21_000n,
+      gasPrice: 1_000_000_000n,
+      chainId: 1301,
+    });
+    expect(parseTransaction(raw).chainId).toBe(1301);
+    expect(await recoverTransactionAddress({ serializedTransaction: raw as never })).toBe(agent.address);
+
+    const signature = await signer.account.signMessage({ message: "enstable" });
+    expect(await recoverMessageAddress({ message: "enstable", signature })).toBe(agent.address);
+    expect(calls).toContain("eth_signTransaction");
+  });
+
+  test("refuses a service that does not manage the agent account", async () => {
+    await expect(createRemoteSigner(url, "0x000000000000000000000000000000000000dEaD")).rejects.toThrow(
+      "does not manage the agent account",
+    );
+  });
+});
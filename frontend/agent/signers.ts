@@ -0,0 +1,182 @@
+import { createDecipheriv, pbkdf2, scrypt } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { promisify } from "node:util";
+import { scryptAsync } from "@noble/hashes/scrypt";
+import {
+  type Address,
+  type Hex,
+  type TransactionRequest,
+  bytesToHex,
+  concat,
+  createClient,
+  formatTransactionRequest,
+  getAddress,
+  http,
+  isAddressEqual,
+  keccak256,
+  serializeTypedData,
+  toHex,
+} from "viem";
+import { privateKeyToAccount, toAccount } from "viem/accounts";
+import { localAnvil } from "../src/config/chain";
+import type { AgentSigner } from "../src/logic/AgentSigner";
+import type { DaemonSignerConfig } from "./config";
+
+/**
+ * BACKENDS DEL FIRMANTE DEL AGENTE (solo daemon). Fuera de src/ a propósito: next.config.ts
+ * hace fallar el build del cliente si algún módulo de agent/ acaba en el bundle.
+ */
+
+type SignedTransaction = Hex | { raw: Hex };
+
+/**
+ * Conecta con un firmante remoto. Si no se pasa `address` se usa la primera cuenta de
+ * eth_accounts; si se pasa, el firmante tiene que gestionarla.
+ */
+export const createRemoteSigner = async (url: string, address?: Address): Promise<AgentSigner> => {
+  const client = createClient({ transport: http(url) });
+
+  const accounts = (await client.request({ method: "eth_accounts" })) as Address[];
+  const agent = address ? getAddress(address) : accounts[0];
+  if (!agent) throw new Error(`The remote signer at ${url} exposes no accounts.`);
+  if (!accounts.some((account) => isAddressEqual(account, agent))) {
+    throw new Error(`The remote signer at ${url} does not manage the agent account ${agent}.`);
+  }
+
+  const account = toAccount({
+    address: agent,
+    signMessage: ({ message }) =>
+      client.request({
+        method: "personal_sign",
+        params: [typeof message === "string" ? toHex(message) : typeof message.raw === "string" ? message.raw : toHex(message.raw), agent],
+      }) as Promise<Hex>,
+    signTypedData: (typedData) =>
+      client.request({ method: "eth_signTypedData_v4", params: [agent, serializeTypedData(typedData)] }) as Promise<Hex>,
+    signTransaction: async (transaction) => {
+      // formatTransactionRequest no incluye chainId, y el firmante lo necesita (EIP-155)
+      const request = {
+        ...formatTransactionRequest({ ...transaction, from: agent } as TransactionRequest),
+        ...(transaction.chainId !== undefined && { chainId: toHex(transaction.chainId) }),
+      };
+      // Geth/Clef devuelven { raw, tx }; anvil y Web3Signer, directamente el raw
+      const signed = (await client.request({ method: "eth_signTransaction", params: [request] } as never)) as SignedTransaction;
+      return typeof signed === "string" ? signed : signed.raw;
+    },
+  });
+
+  return { kind: "remote", account };
+};
+
+// Web3 Secret Storage v3 (geth, Foundry `cast wallet new`, Clef)
+type KeystoreCrypto = {
+  cipher: string;
+  cipherparams: { iv: string };
+  ciphertext: string;
+  kdf: "scrypt" | "pbkdf2";
+  kdfparams: {
+    dklen: number;
+    salt: string;
+    // scrypt
+    n?: number;
+    r?: number;
+    p?: number;
+    // pbkdf2
+    c?: number;
+    prf?: string;
+  };
+  mac: string;
+};
+
+type KeystoreV3 = {
+  address?: string;
+  crypto?: KeystoreCrypto;
+  // geth antiguo y ethers lo escriben con mayúscula
+  Crypto?: KeystoreCrypto;
+};
+
+const pbkdf2Async = promisify(pbkdf2);
+
+const hexBytes = (value: string) => Buffer.from(value.replace(/^0x/, ""), "hex");
+
+const deriveKeystoreKey = async (password: string, { kdf, kdfparams }: KeystoreCrypto) => {
+  const salt = hexBytes(kdfparams.salt);
+  if (kdf === "scrypt" && kdfparams.n && kdfparams.r && kdfparams.p) {
+    const { n, r, p } = kdfparams;
+    // Con n = 2^18 (por defecto en geth) se pasa del maxmem de 32 MB de Node
+    const native = new Promise<Buffer>((resolve, reject) =>
+      scrypt(password, salt, kdfparams.dklen, { N: n, r, p, maxmem: 256 * n * r * p }, (err, key) =>
+        err ? reject(err) : resolve(key),
+      ),
+    );
+    // BoringSSL (Bun) exige n < 2^(16·r) y rechaza keystores válidos con r = 1: se
+    // recalcula en JS
+    return native.catch(async (err: NodeJS.ErrnoException) => {
+      if (err.code !== "ERR_CRYPTO_INVALID_SCRYPT_PARAMS") throw err;
+      return Buffer.from(await scryptAsync(password, salt, { N: n, r, p, dkLen: kdfparams.dklen, maxmem: 256 * n * r * p }));
+    });
+  }
+  if (kdf === "pbkdf2" && kdfparams.c && kdfparams.prf === "hmac-sha256") {
+    return pbkdf2Async(password, salt, kdfparams.c, kdfparams.dklen, "sha256");
+  }
+  throw new Error(`Unsupported keystore KDF ${kdf}${kdfparams.prf ? ` (${kdfparams.prf})` : ""}.`);
+};
+
+/**
+ * Descifra un keystore JSON v3. La clave solo existe en memoria de este proceso.
+ */
+export const createKeystoreSigner = async (path: string, password: string): Promise<AgentSigner> => {
+  const keystore = JSON.parse(await readFile(path, "utf8")) as KeystoreV3;
+  const crypto = keystore.crypto ?? keystore.Crypto;
+  if (!crypto || crypto.cipher !== "aes-128-ctr") {
+    throw new Error(`${path} is not a v3 keystore with aes-128-ctr.`);
+  }
+
+  const derived = await deriveKeystoreKey(password, crypto);
+  const ciphertext = hexBytes(crypto.ciphertext);
+  const mac = keccak256(concat([derived.subarray(16, 32), ciphertext]));
+  if (mac.slice(2) !== crypto.mac.replace(/^0x/, "").toLowerCase()) {
+    throw new Error(`Wrong password for keystore ${path}.`);
+  }
+
+  const decipher = createDecipheriv("aes-128-ctr", derived.subarray(0, 16), hexBytes(crypto.cipherparams.iv));
+  const account = privateKeyToAccount(bytesToHex(Buffer.concat([decipher.update(ciphertext), decipher.final()])));
+  if (keystore.address && !isAddressEqual(account.address, getAddress(`0x${keystore.address.replace(/^0x/, "")}`))) {
+    throw new Error(`Keystore ${path} decrypts to ${account.address}, not to its declared address.`);
+  }
+  return { kind: "keystore", account };
+};
+
+/**
+ * Clave en claro: solo contra anvil, donde las cuentas de prueba son públicas.
+ */
+export const createDevKeySigner = (privateKey: Hex, chainId: number): AgentSigner => {
+  if (chainId !== localAnvil.id) {
+    throw new Error(`The dev-key signer only runs against anvil (${localAnvil.id}); use a keystore or a remote signer on chain ${chainId}.`);
+  }
+  return { kind: "dev-key", account: privateKeyToAccount(privateKey) };
+};
+
+const readPassword = async (config: Extract<DaemonSignerConfig, { type: "keystore" }>) => {
+  if (config.passwordFile) return (await readFile(config.passwordFile, "utf8")).trimEnd();
+  const name = config.passwordEnv ?? "AGENT_KEYSTORE_PASSWORD";
+  const password = process.env[name];
+  if (password === undefined) throw new Error(`Keystore password not set: export ${name} or set signer.passwordFile.`);
+  return password;
+};
+
+/**
+ * Firmante configurado en agent.config.json (`signer`).
+ */
+export const loadAgentSigner = async (config: DaemonSignerConfig, chainId: number): Promise<AgentSigner> => {
+  switch (config.type) {
+    case "keystore":
+      return createKeystoreSigner(config.path, await readPassword(config));
+    case "remote":
+      return createRemoteSigner(config.url, config.address);
+    case "dev-key": {
+      const key = process.env.AGENT_PRIVATE_KEY as Hex | undefined;
+      if (!key) throw new Error("AGENT_PRIVATE_KEY is not set for the dev-key signer.");
+      return createDevKeySigner(key, chainId);
+    }
+  }
+};
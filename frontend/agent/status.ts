@@ -0,0 +1,98 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { AgentEvent } from "../src/logic/AgentEvents";
+import type { DepositorState } from "../src/logic/DepositorScheduler";
+
+/**
+ * ESTADO DEL DAEMON en <stateDir>/status.json: lo escribe el proceso en marcha y lo lee
+ * `cli.ts status` (y el propio `start`, para no lanzar dos daemons con el mismo nonce).
+ */
+export type DaemonStatus = {
+  pid: number;
+  mode: "daemon" | "once";
+  network: string;
+  chainId: number;
+  signer: string;
+  startedAt: number;
+  updatedAt: number;
+  stoppedAt: number | null;
+  // Señales esperando turno en la cola del agente
+  pendingSignals: number;
+  users: DepositorState[];
+  recentEvents: (AgentEvent & { user: string })[];
+};
+
+// Cada cuánto se refresca el archivo aunque no haya eventos (latido)
+export const HEARTBEAT_INTERVAL = 10_000;
+export const RECENT_EVENTS = 50;
+
+const statusFile = (stateDir: string) => join(stateDir, "status.json");
+
+// bigint (AgentSignal) no es serializable en JSON
+const replacer = (_key: string, value: unknown) => (typeof value === "bigint" ? value.toString() : value);
+
+export const writeDaemonStatus = async (stateDir: string, status: DaemonStatus) => {
+  await mkdir(stateDir, { recursive: true });
+  // Escritura atómica: `status` nunca lee un JSON a medias
+  const tmp = `${statusFile(stateDir)}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(status, replacer, 2));
+  await rename(tmp, statusFile(stateDir));
+};
+
+export const readDaemonStatus = async (stateDir: string): Promise<DaemonStatus | null> => {
+  try {
+    return JSON.parse(await readFile(statusFile(stateDir), "utf8")) as DaemonStatus;
+  } catch {
+    return null;
+  }
+};
+
+export const isProcessAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: existe pero es de otro usuario
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+};
+
+export const isDaemonRunning = (status: DaemonStatus | null) =>
+  !!status && status.mode === "daemon" && status.stoppedAt === null && isProcessAlive(status.pid);
+
+export const formatDaemonStatus = (status: DaemonStatus | null) => {
+  if (!status) return "No agent status found. Start the daemon with `bun run agent start`.";
+
+  const running = isDaemonRunning(status);
+  const age = Math.round((Date.now() - status.updatedAt) / 1000);
+  const lines = [
+    `${running ? "RUNNING" : "STOPPED"} · pid ${status.pid} · ${status.mode} · ${status.network} (${status.chainId}) · signer ${status.signer}`,
+    `Started ${new Date(status.startedAt).toISOString()} · last update ${age}s ago${
+      running && age * 1000 > HEARTBEAT_INTERVAL * 3 ? " (heartbeat late: the process may be stuck)" : ""
+    }`,
+  ];
+  if (!running && status.stoppedAt === null && status.mode === "daemon") {
+    lines.push("The process exited without a clean shutdown.");
+  }
+
+  const monitored = status.users.filter((user) => user.agent);
+  lines.push(`${monitored.length}/${status.users.length} depositor(s) monitored · ${status.pendingSignals} signal(s) queued`);
+
+  for (const user of status.users) {
+    const name = user.ensName ? `${user.ensName} (${user.user})` : user.user;
+    const range = user.position && user.position.liquidity !== "0" ? ` [${user.position.tickLower}, ${user.position.tickUpper}]` : "";
+    if (!user.agent) {
+      lines.push(`  ✗ ${name}${range}: ${user.skipped ?? "not started"}`);
+      continue;
+    }
+    const { agent } = user;
+    lines.push(
+      `  ${agent.lastError ? "!" : "✓"} ${name}${range} · ${user.pool} · risk ${user.strategy.riskLevel} · ${agent.strategy}${
+        typeof agent.volatility === "number" ? ` · vol ${(agent.volatility * 100).toFixed(1)}%` : ""
+      }: ${agent.signalsSent} signal(s), last ${
+        agent.lastSignalAt ? new Date(agent.lastSignalAt).toISOString() : "-"
+      }${agent.lastError ? `, last error: ${agent.lastError}` : ""}`,
+    );
+  }
+  return lines.join("\n");
+};
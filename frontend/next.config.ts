@@ -1,6 +1,45 @@
+import { resolve, sep } from "node:path";
 import withRspack from "next-rspack";
 import type { NextConfig } from "next";
 
+/**
+ * Ni la clave del agente ni el acceso a su firmante pueden llegar al navegador:
+ * - ninguna variable NEXT_PUBLIC_* (que Next incrusta en el bundle) puede llevar una clave
+ *   o la URL del firmante;
+ * - ningún módulo del cliente puede importar agent/ (todos los backends del firmante).
+ *
+ * Es una red de seguridad, no una inspección del bundle: solo detecta variables por su
+ * nombre o por el valor exacto de AGENT_PRIVATE_KEY, y módulos por su ruta.
+ */
+const PUBLIC_SECRET_NAME = /PRIVATE_KEY|MNEMONIC|KEYSTORE|SEED_PHRASE|SIGNER/;
+const AGENT_NODE_DIR = resolve(process.cwd(), "agent") + sep;
+
+const leakedAgentKeys = Object.entries(process.env)
+  .filter(([name, value]) => name.startsWith("NEXT_PUBLIC_") && value)
+  .filter(([name, value]) => PUBLIC_SECRET_NAME.test(name) || value === process.env.AGENT_PRIVATE_KEY)
+  .map(([name]) => name);
+if (leakedAgentKeys.length > 0) {
+  throw new Error(
+    `${leakedAgentKeys.join(", ")} would be inlined into the browser bundle. The agent signer belongs in the headless agent's config (agent.config.json).`,
+  );
+}
+
+type ClientCompilation = { modules: Iterable<{ resource?: string }>; errors: Error[] };
+
+const agentKeyGuard = {
+  apply: (compiler: { hooks: { afterCompile: { tap: (name: string, fn: (c: ClientCompilation) => void) => void } } }) => {
+    compiler.hooks.afterCompile.tap("AgentKeyGuard", (compilation) => {
+      for (const module of compilation.modules) {
+        if (module.resource?.startsWith(AGENT_NODE_DIR)) {
+          compilation.errors.push(
+            new Error(`${module.resource} holds agent key material and cannot be bundled for the browser.`),
+          );
+        }
+      }
+    });
+  },
+};
+
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   typedRoutes: false,
@@ -13,7 +52,7 @@ const nextConfig: NextConfig = {
     ],
   },
 
-  webpack: (config) => {
+  webpack: (config, { isServer }) => {
     config.ignoreWarnings = [
       /pino-pretty/,
       /supportsColor/,
@@ -23,6 +62,7 @@ const nextConfig: NextConfig = {
       /wagmi/,
       /Rspack/,
     ];
+    if (!isServer) config.plugins.push(agentKeyGuard);
     return config;
   },
 };
@@ -0,0 +1,72 @@
+/**
+ * BACKTEST DE LA ESTRATEGIA DEL AGENTE sobre klines históricas (offline).
+ *
+ *   bun scripts/backtest.ts data/ETHUSDC-1m.csv                  # CSV de data.binance.vision
+ *   bun scripts/backtest.ts klines.json --capital 5000 --json    # JSON de /api/v3/klines
+ *
+ * Opciones: --capital, --fee (pips), --tick-spacing, --gas (por rebalanceo, en cotizado),
+ * --pool-tvl, --volume-share, --max-width (strategy_max_width, ej. 0.01), --strategy (ids de
+ * RebalanceStrategy separados por comas, ej. fixed,trend) y --json.
+ */
+import { readFileSync } from "node:fs";
+import {
+  type BacktestOptions,
+  defaultBacktestStrategies,
+  formatBacktestReport,
+  parseCandles,
+  parseCandlesCsv,
+  runBacktest,
+} from "../src/logic/Backtest";
+import { REBALANCE_STRATEGY_IDS, type RebalanceStrategyId } from "../src/logic/RebalanceStrategy";
+
+const USAGE =
+  "Usage: bun run backtest <klines.csv|klines.json> [--capital n] [--fee pips] [--tick-spacing n] [--gas n] [--pool-tvl n] [--volume-share f] [--max-width f] [--strategy ids] [--json]";
+
+const args = process.argv.slice(2);
+const file = args.find((arg, i) => !arg.startsWith("--") && !args[i - 1]?.startsWith("--"));
+const json = args.includes("--json");
+
+const numberFlag = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = Number(args[index + 1]);
+  if (!Number.isFinite(value) || value < 0) {
+    console.error(`--${name} expects a non-negative number`);
+    process.exit(2);
+  }
+  return value;
+};
+
+const strategyFlag = () => {
+  const index = args.indexOf("--strategy");
+  if (index === -1) return REBALANCE_STRATEGY_IDS;
+  const ids = (args[index + 1] ?? "").split(",").filter(Boolean);
+  const unknown = ids.filter((id) => !REBALANCE_STRATEGY_IDS.includes(id as RebalanceStrategyId));
+  if (ids.length === 0 || unknown.length > 0) {
+    console.error(`--strategy expects a comma-separated list of: ${REBALANCE_STRATEGY_IDS.join(", ")}`);
+    process.exit(2);
+  }
+  return ids as RebalanceStrategyId[];
+};
+
+if (!file || args.includes("--help")) {
+  console.error(USAGE);
+  process.exit(file ? 0 : 2);
+}
+
+const text = readFileSync(file, "utf8");
+const candles = file.endsWith(".csv") ? parseCandlesCsv(text) : parseCandles(JSON.parse(text));
+
+const options: Partial<BacktestOptions> = Object.fromEntries(
+  Object.entries({
+    capital: numberFlag("capital"),
+    feePips: numberFlag("fee"),
+    tickSpacing: numberFlag("tick-spacing"),
+    gasPerRebalance: numberFlag("gas"),
+    poolTvl: numberFlag("pool-tvl"),
+    volumeShare: numberFlag("volume-share"),
+  }).filter(([, value]) => value !== undefined),
+);
+
+const report = runBacktest(candles, defaultBacktestStrategies(numberFlag("max-width") ?? null, strategyFlag()), options);
+console.log(json ? JSON.stringify(report, null, 2) : formatBacktestReport(report));
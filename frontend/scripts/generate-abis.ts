@@ -0,0 +1,82 @@
+/**
+ * GENERADOR DE ABIS TIPADOS.
+ *
+ * Convierte los artefactos de Foundry (contracts/out/<Archivo>.sol/<Contrato>.json) en
+ * módulos `as const` en src/config/abis, para que viem/wagmi infieran args y returns.
+ *
+ *   bun scripts/generate-abis.ts                 # regenera tras `forge build`
+ *   bun scripts/generate-abis.ts --check         # falla si los módulos no coinciden con contracts/out
+ *   bun scripts/generate-abis.ts --artifacts dir # otra carpeta de artefactos
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const OUTPUT_DIR = join(ROOT, "src/config/abis");
+
+// Contratos que usa el frontend: artefacto de Foundry -> módulo y export generados
+const TARGETS = [
+  { artifact: "EnstableHook.sol/EnstableHook.json", module: "EnstableHook", exportName: "enstableHookAbi" },
+  { artifact: "IdentityVault.sol/IdentityVault.json", module: "IdentityVault", exportName: "identityVaultAbi" },
+  // EETH y EUSD son el mismo MockERC20
+  { artifact: "MockERC20.sol/MockERC20.json", module: "MockERC20", exportName: "mockErc20Abi" },
+];
+
+const args = process.argv.slice(2);
+const check = args.includes("--check");
+const artifactsFlag = args.indexOf("--artifacts");
+const artifactsDir = resolve(
+  ROOT,
+  artifactsFlag !== -1 && args[artifactsFlag + 1] ? (args[artifactsFlag + 1] as string) : "../contracts/out",
+);
+
+const render = (target: (typeof TARGETS)[number], abi: unknown[]) =>
+  [
+    `// Generado por scripts/generate-abis.ts desde ${target.artifact}. No editar a mano.`,
+    `export const ${target.exportName} = ${JSON.stringify(abi, null, 2)} as const;`,
+    "",
+  ].join("\n");
+
+const renderIndex = () =>
+  `${TARGETS.map((t) => `export { ${t.exportName} } from "./${t.module}";`).join("\n")}\n`;
+
+// Los artefactos de Foundry guardan el ABI en .abi; también aceptamos un ABI suelto
+const readAbi = (path: string): unknown[] => {
+  const json = JSON.parse(readFileSync(path, "utf8"));
+  const abi = Array.isArray(json) ? json : json.abi;
+  if (!Array.isArray(abi)) throw new Error(`${path} has no ABI`);
+  return abi;
+};
+
+if (!existsSync(artifactsDir)) {
+  const message = `Foundry artifacts not found at ${relative(ROOT, artifactsDir)}. Run \`forge build\` in contracts/.`;
+  // Sin contratos compilados (p. ej. un deploy solo del frontend) no hay nada con qué comparar
+  if (check) {
+    console.warn(`[abis] ${message} Skipping the ABI drift check.`);
+    process.exit(0);
+  }
+  console.error(`[abis] ${message}`);
+  process.exit(1);
+}
+
+const files = new Map<string, string>();
+for (const target of TARGETS) {
+  files.set(join(OUTPUT_DIR, `${target.module}.ts`), render(target, readAbi(join(artifactsDir, target.artifact))));
+}
+files.set(join(OUTPUT_DIR, "index.ts"), renderIndex());
+
+if (check) {
+  const stale = [...files].filter(([path, content]) => !existsSync(path) || readFileSync(path, "utf8") !== content);
+  if (stale.length > 0) {
+    console.error(
+      `[abis] ABI drift: ${stale.map(([path]) => relative(ROOT, path)).join(", ")} no longer match the compiled contracts. Run \`bun run generate:abis\`.`,
+    );
+    process.exit(1);
+  }
+  console.log("[abis] Typed ABIs match the Foundry artifacts.");
+} else {
+  mkdirSync(OUTPUT_DIR, { recursive: true });
+  for (const [path, content] of files) writeFileSync(path, content);
+  console.log(`[abis] Wrote ${files.size} modules to ${relative(ROOT, OUTPUT_DIR)}.`);
+}
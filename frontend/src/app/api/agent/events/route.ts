@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { isDaemonRunning, readDaemonStatus } from "../../../../../agent/status";
+import type { DaemonEventFeed } from "../../../../logic/AgentEvents";
+
+// Solo servidor: el status.json del daemon (agent/status.ts) cambia en cada evento
+export const dynamic = "force-dynamic";
+
+// Mismo stateDir que el daemon (agent.config.json, por defecto .agent/)
+const STATE_DIR = process.env.AGENT_STATE_DIR || ".agent";
+
+/**
+ * Eventos recientes del daemon para un depositante (?user=0x…), más los del propio daemon
+ * (sin usuario). Sin status.json responde `{ status: null }`.
+ */
+export async function GET(request: Request) {
+  const user = new URL(request.url).searchParams.get("user");
+  if (!user || !isAddress(user)) {
+    return NextResponse.json({ error: "user must be an address" }, { status: 400 });
+  }
+
+  const status = await readDaemonStatus(STATE_DIR);
+  if (!status) return NextResponse.json({ status: null });
+
+  const feed: DaemonEventFeed = {
+    running: isDaemonRunning(status),
+    chainId: status.chainId,
+    updatedAt: status.updatedAt,
+    events: status.recentEvents
+      .filter((event) => event.user === "" || event.user.toLowerCase() === user.toLowerCase())
+      .map(({ user: _user, ...event }) => event),
+  };
+  return NextResponse.json({ status: feed });
+}
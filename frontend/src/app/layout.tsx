@@ -2,15 +2,18 @@
 
 import { WagmiProvider, createConfig, http } from "wagmi";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { unichainSepolia } from "../config/chain";
+import { ACTIVE_ENS, ACTIVE_NETWORK, activeChain, ensChain } from "../config/networks";
 import { injected } from 'wagmi/connectors';
+import TxToasts from "../components/TxToasts";
 
 // Configuración de Wagmi
 const config = createConfig({
-  chains: [unichainSepolia],
+  // Red activa (ver config/networks.ts) + la de ENS, que en anvil es la misma
+  chains: ensChain.id === activeChain.id ? [activeChain] : [activeChain, ensChain],
   connectors: [injected()],
   transports: {
-    [unichainSepolia.id]: http(),
+    [activeChain.id]: http(ACTIVE_NETWORK.rpcUrl),
+    [ensChain.id]: http(ACTIVE_ENS.rpcUrl),
   },
 });
 
@@ -32,6 +35,7 @@ export default function RootLayout({
         <WagmiProvider config={config}>
           <QueryClientProvider client={queryClient}>
             {children}
+            <TxToasts />
           </QueryClientProvider>
         </WagmiProvider>
       </body>
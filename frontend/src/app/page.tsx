@@ -1,59 +1,153 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useAccount, useConnect, useDisconnect, useEnsName } from "wagmi";
-import { startAgentMonitoring } from "../logic/AgentLogic";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useAccount, useConnect, useDisconnect, useEnsName, usePublicClient } from "wagmi";
+import { type PriceSource, getConfiguredPriceSource } from "../logic/PriceSource";
 import AgentConsole from "../components/AgentConsole";
 import LiquidityCard from "../components/LiquidityCard";
 import PriceChart from "../components/PriceChart";
+import PositionHistory from "../components/PositionHistory";
+import CircuitBreakerPanel from "../components/CircuitBreakerPanel";
+import DiagnosticsPanel from "../components/DiagnosticsPanel";
+import PoolSwitcher from "../components/PoolSwitcher";
+import NetworkSwitcher from "../components/NetworkSwitcher";
+import { useSelectedPool } from "../hooks/useSelectedPool";
+import { useRangePicker } from "../hooks/useRangePicker";
+import { usePoolSwapPrices } from "../hooks/usePoolSwapPrices";
+import { useEnsStrategy } from "../hooks/useEnsStrategy";
+import { useIdentity } from "../hooks/useIdentity";
+import { useDaemonEvents } from "../hooks/useDaemonEvents";
+import { canSignForIdentity } from "../logic/Identity";
+import { formatContractError } from "../logic/ContractErrors";
+import { activeChain, ensChain } from "../config/networks";
+import type { StrategyRecords } from "../logic/EnsStrategy";
+import { REBALANCE_STRATEGIES, type RebalanceStrategyId } from "../logic/RebalanceStrategy";
+import { type AgentEvent, type AgentEventLevel, createAgentEvent, mergeAgentEvents } from "../logic/AgentEvents";
 
 export default function App() {
   const { address, isConnected } = useAccount();
   const { connect, connectors, isPending: isConnecting } = useConnect(); 
   const { disconnect } = useDisconnect();
   
-  const { data: ensName } = useEnsName({ address });
+  const { data: ensName } = useEnsName({ address, chainId: ensChain.id });
+  const publicClient = usePublicClient({ chainId: activeChain.id });
+  const { identity } = useIdentity(ensName);
+  const { pool } = useSelectedPool();
+  const { strategy, hasRecords, isLoading: isStrategyLoading, saveStrategy } = useEnsStrategy(ensName);
 
-  const [logs, setLogs] = useState<string[]>([]);
+  const [events, setEvents] = useState<AgentEvent[]>([]);
+  const { feed: daemonFeed, error: daemonError } = useDaemonEvents(address);
   const [price, setPrice] = useState<number>(0);
+  const [priceSource, setPriceSource] = useState<PriceSource | null>(null);
   
   const [riskLevel, setRiskLevel] = useState<number | null>(null);
+  const [stopPriceInput, setStopPriceInput] = useState("");
+  const [maxWidthInput, setMaxWidthInput] = useState("");
+  const [strategyKind, setStrategyKind] = useState<RebalanceStrategyId | null>(null);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [mounted, setMounted] = useState(false);
 
+  // Rango del depósito compartido entre la tarjeta y la banda del gráfico
+  const rangePicker = useRangePicker(riskLevel);
+  const swapPrices = usePoolSwapPrices(pool);
+
   useEffect(() => {
     setMounted(true);
   }, []);
 
-  const addLog = (message: string) => {
-    setLogs((prev) => [...prev, message]);
-  };
+  // Lo que hizo el daemon por este usuario (y por qué), junto a los eventos de la sesión
+  const daemonOnThisChain = daemonFeed?.chainId === activeChain.id;
+  const consoleEvents = useMemo(
+    () => mergeAgentEvents(events, daemonFeed && daemonOnThisChain ? daemonFeed.events : []),
+    [events, daemonFeed, daemonOnThisChain],
+  );
+  const daemonStatus = useMemo((): { level: AgentEventLevel; message: string } | undefined => {
+    if (!isConnected) return undefined;
+    if (daemonError) {
+      return { level: "warn", message: "Agent daemon status unavailable: only this session's events are shown." };
+    }
+    if (!daemonFeed) {
+      return { level: "warn", message: "No agent daemon status (bun run agent start): only this session's events are shown." };
+    }
+    if (!daemonOnThisChain) {
+      return { level: "warn", message: `The agent daemon runs on chain ${daemonFeed.chainId}: its events are not shown.` };
+    }
+    const updated = new Date(daemonFeed.updatedAt).toLocaleTimeString();
+    return daemonFeed.running
+      ? { level: "success", message: `Agent daemon running (updated ${updated}): its recent events for this wallet are included.` }
+      : { level: "warn", message: `Agent daemon stopped (last update ${updated}): showing its last events for this wallet.` };
+  }, [isConnected, daemonError, daemonFeed, daemonOnThisChain]);
 
+  const addEvent = useCallback((event: AgentEvent) => {
+    setEvents((prev) => [...prev, event]);
+  }, []);
+
+  const addLog = useCallback(
+    (...args: Parameters<typeof createAgentEvent>) => addEvent(createAgentEvent(...args)),
+    [addEvent],
+  );
+
+  // Prefill desde los text records strategy_* del ENS del usuario
   useEffect(() => {
-    if (isConnected && !riskLevel) {
+    if (!hasRecords) return;
+    setRiskLevel(strategy.riskLevel);
+    setStopPriceInput(strategy.stopPrice ? String(strategy.stopPrice) : "");
+    setMaxWidthInput(strategy.maxRangeWidth ? String(strategy.maxRangeWidth * 100) : "");
+    setStrategyKind(strategy.strategyKind);
+    addLog("info", "strategy", `Strategy loaded from ENS records of ${ensName}.`);
+  }, [hasRecords, strategy, ensName, addLog]);
+
+  useEffect(() => {
+    if (isConnected && !riskLevel && !isStrategyLoading) {
       const timer = setTimeout(() => {
         setShowOnboarding(true);
-        addLog("⚠️ Identity check: Risk Profile required for ENS Node linkage.");
+        addLog("warn", "session", "Risk profile required before the agent can start.");
       }, 500);
       return () => clearTimeout(timer);
     }
-  }, [isConnected, riskLevel]);
+  }, [isConnected, riskLevel, isStrategyLoading, addLog]);
+
+  // Perfil efectivo que recibe el agente
+  const agentStrategy: StrategyRecords = {
+    riskLevel,
+    stopPrice: Number(stopPriceInput) > 0 ? Number(stopPriceInput) : null,
+    maxRangeWidth: Number(maxWidthInput) > 0 ? Number(maxWidthInput) / 100 : null,
+    strategyKind,
+  };
 
-  const handleSelectRisk = (level: number) => {
+  const handleSelectRisk = async (level: number) => {
     setRiskLevel(level);
     setShowOnboarding(false);
     
     const riskName = level === 1 ? 'Conservative' : level === 2 ? 'Balanced' : 'Aggressive';
-    addLog(`✅ Risk Profile Updated: ${riskName} (Level ${level})`);
-    addLog(`🔗 Linked to Identity: ${ensName || address?.slice(0, 8) + "..."}`);
+    addLog("success", "session", `Risk profile set to ${riskName} (level ${level}).`, {
+      data: { riskLevel: level, identity: ensName || address || null },
+    });
+
+    // Sin ENS el perfil queda solo en esta sesión
+    if (!ensName) return;
+    try {
+      addLog("info", "strategy", `Writing strategy records to ${ensName}.`);
+      await saveStrategy({ ...agentStrategy, riskLevel: level });
+      addLog("success", "strategy", "Strategy stored in ENS text records.");
+    } catch (e) {
+      addLog("error", "strategy", `Could not write ENS records: ${formatContractError(e)}`);
+    }
   };
 
+  // La misma fuente de precio alimenta el ticker, el gráfico y el agente
   useEffect(() => {
+    if (!publicClient) return;
+    getConfiguredPriceSource(publicClient, pool)
+      .then(setPriceSource)
+      .catch((e) => console.error("Price source error", e));
+  }, [publicClient, pool]);
+
+  useEffect(() => {
+    if (!priceSource) return;
     const updateVisualPrice = async () => {
       try {
-        const res = await fetch("https://api.binance.com/api/v3/ticker/price?symbol=ETHUSDC");
-        const data = (await res.json()) as { price: string };
-        setPrice(parseFloat(data.price));
+        setPrice(await priceSource.getPrice());
       } catch (e) {
         console.error("Ticker error");
       }
@@ -61,16 +155,28 @@ export default function App() {
     updateVisualPrice();
     const interval = setInterval(updateVisualPrice, 5000);
     return () => clearInterval(interval);
-  }, []);
+  }, [priceSource]);
 
+  // La página solo lee: las señales las firma y envía el agente headless (agent/), que es
+  // el único proceso con acceso al firmante de onlyAgent
   useEffect(() => {
-    if (isConnected && address && riskLevel) {
-      // FIX: Cast riguroso para evitar errores de tipo en producción
-      const ensString = (ensName || address) as `0x${string}`;
-      const stopAgent = startAgentMonitoring(address, ensString, addLog, riskLevel); 
-      return () => stopAgent();
+    if (!isConnected || !address || !riskLevel) return;
+    // El daemon solo firma con el namehash real del nombre primario
+    if (identity.status === "unsupported" && identity.node) {
+      // El Vault desplegado no guarda nodos: decide la opción allowUnverifiedNode del daemon
+      addLog("warn", "session", "The vault cannot verify ENS nodes: the agent acts for this account only if its operator sets allowUnverifiedNode.", {
+        data: { status: identity.status, node: identity.node },
+      });
+      return;
+    }
+    if (!identity.node || !canSignForIdentity(identity)) {
+      addLog("warn", "session", `The agent will skip this account: ENS identity is ${identity.status}. A matching primary name is required.`, {
+        data: { status: identity.status, node: identity.node },
+      });
+      return;
     }
-  }, [isConnected, address, riskLevel, ensName]);
+    addLog("info", "session", `Signals for ${ensName || address} are sent by the headless agent (bun run agent start); this page is read-only.`);
+  }, [isConnected, address, riskLevel, identity, ensName, addLog]);
 
   const handleConnect = () => {
     const connector = connectors[0];
@@ -94,25 +200,29 @@ export default function App() {
           </div>
         </div>
 
-        <button 
-          onClick={isConnected ? () => disconnect() : handleConnect}
-          disabled={isConnecting}
-          className={`px-6 py-2.5 rounded-2xl border font-bold text-sm transition-all active:scale-95 flex items-center gap-2
-            ${isConnected 
-              ? 'bg-secondary/10 border-secondary/20 text-main hover:bg-red-50 hover:text-red-600 hover:border-red-100' 
-              : 'bg-primary border-primary text-white shadow-lg shadow-primary/20 hover:brightness-110'}`}
-        >
-          {isConnecting ? (
-            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-          ) : isConnected ? (
-            <>
-              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-              {ensName || `${address?.slice(0, 6)}...${address?.slice(-4)}`}
-            </>
-          ) : (
-            "Connect Wallet"
-          )}
-        </button>
+        <div className="flex items-center gap-3">
+          <NetworkSwitcher />
+          <PoolSwitcher />
+          <button 
+            onClick={isConnected ? () => disconnect() : handleConnect}
+            disabled={isConnecting}
+            className={`px-6 py-2.5 rounded-2xl border font-bold text-sm transition-all active:scale-95 flex items-center gap-2
+              ${isConnected 
+                ? 'bg-secondary/10 border-secondary/20 text-main hover:bg-red-50 hover:text-red-600 hover:border-red-100' 
+                : 'bg-primary border-primary text-white shadow-lg shadow-primary/20 hover:brightness-110'}`}
+          >
+            {isConnecting ? (
+              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            ) : isConnected ? (
+              <>
+                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                {ensName || `${address?.slice(0, 6)}...${address?.slice(-4)}`}
+              </>
+            ) : (
+              "Connect Wallet"
+            )}
+          </button>
+        </div>
       </header>
 
       {showOnboarding && (
@@ -129,8 +239,47 @@ export default function App() {
                 "No ENS detected. Using temporary Identity."
               )}
               {" "}Select your risk profile to link with your node on Unichain.
+              {ensName && " It will be saved as text records on your ENS name."}
             </div>
             
+            <div className="grid grid-cols-2 gap-3 mb-4">
+              <label className="flex flex-col gap-1 text-[10px] font-black uppercase text-zinc-400">
+                Stop Price (strategy_stop)
+                <input
+                  type="number"
+                  value={stopPriceInput}
+                  onChange={(e) => setStopPriceInput(e.target.value)}
+                  placeholder="2000"
+                  className="bg-zinc-50 rounded-2xl border border-zinc-100 px-3 py-2 text-sm text-zinc-800 outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-[10px] font-black uppercase text-zinc-400">
+                Max Range ±% (strategy_max_width)
+                <input
+                  type="number"
+                  value={maxWidthInput}
+                  onChange={(e) => setMaxWidthInput(e.target.value)}
+                  placeholder="5"
+                  className="bg-zinc-50 rounded-2xl border border-zinc-100 px-3 py-2 text-sm text-zinc-800 outline-none"
+                />
+              </label>
+              <label className="col-span-2 flex flex-col gap-1 text-[10px] font-black uppercase text-zinc-400">
+                Rebalance Strategy (strategy_kind)
+                <select
+                  value={strategyKind ?? ""}
+                  onChange={(e) => setStrategyKind((e.target.value || null) as RebalanceStrategyId | null)}
+                  className="bg-zinc-50 rounded-2xl border border-zinc-100 px-3 py-2 text-sm text-zinc-800 outline-none"
+                >
+                  <option value="">Default (fixed width)</option>
+                  {Object.values(REBALANCE_STRATEGIES).map((s) => (
+                    <option key={s.id} value={s.id} title={s.description}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
             <div className="grid gap-3">
               {[
                 { id: 1, label: "Conservative", desc: "Low Volatility • Stable Yields", color: "bg-green-500", border: "hover:border-green-400" },
@@ -154,20 +303,30 @@ export default function App() {
         </div>
       )}
 
+      <DiagnosticsPanel />
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8 mt-4">
         <div className="lg:col-span-4 space-y-8">
           <LiquidityCard 
-            currentPrice={price} 
             onChangeIdentity={() => setShowOnboarding(true)} 
-            userEns={ensName || undefined}
+            identity={identity}
+            rangePicker={rangePicker}
           />
           <div className="h-[280px] bg-surface rounded-[32px] p-4 border border-secondary/10">
-            <PriceChart currentPrice={price} />
+            <PriceChart
+              currentPrice={price}
+              priceSource={priceSource}
+              range={rangePicker.isFullRange ? null : rangePicker.priceRange}
+              onRangeChange={rangePicker.setPriceRange}
+              swapPrices={swapPrices}
+            />
           </div>
         </div>
 
-        <div className="lg:col-span-8">
-          <AgentConsole logs={logs} />
+        <div className="lg:col-span-8 space-y-8">
+          <CircuitBreakerPanel />
+          <AgentConsole events={consoleEvents} daemonStatus={daemonStatus} />
+          {isConnected && <PositionHistory />}
         </div>
       </div>
     </div>
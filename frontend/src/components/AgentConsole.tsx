@@ -1,30 +1,60 @@
 "use client";
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  AGENT_EVENT_KINDS,
+  AGENT_EVENT_LEVELS,
+  type AgentEvent,
+  type AgentEventKind,
+  type AgentEventLevel,
+  exportAgentEventsCsv,
+  exportAgentEventsJson,
+  filterAgentEvents,
+} from "../logic/AgentEvents";
+import { getExplorerTxUrl } from "../hooks/useTxTracker";
 
 interface AgentConsoleProps {
-  logs: string[];
+  events: AgentEvent[];
+  // Estado del feed del daemon headless (quien firma las señales)
+  daemonStatus?: { level: AgentEventLevel; message: string };
 }
 
-export default function AgentConsole({ logs }: AgentConsoleProps) {
+const LEVEL_STYLES: Record<AgentEventLevel, string> = {
+  info: "text-zinc-300",
+  success: "text-emerald-400",
+  warn: "text-yellow-400",
+  error: "text-rose-500",
+};
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((i) => i !== item) : [...list, item]);
+
+export default function AgentConsole({ events, daemonStatus }: AgentConsoleProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [levels, setLevels] = useState<AgentEventLevel[]>(AGENT_EVENT_LEVELS);
+  const [kinds, setKinds] = useState<AgentEventKind[]>(AGENT_EVENT_KINDS);
+  const [search, setSearch] = useState("");
 
+  const visible = useMemo(() => filterAgentEvents(events, { levels, kinds, search }), [events, levels, kinds, search]);
+
+  // Baja al final cuando aparece un evento nuevo (o el filtro cambia el último visible)
+  const lastVisibleId = visible.at(-1)?.id;
   useEffect(() => {
     const el = scrollRef.current;
-    if (el) el.scrollTop = el.scrollHeight;
-  }, [logs]);
+    if (el && lastVisibleId) el.scrollTop = el.scrollHeight;
+  }, [lastVisibleId]);
 
-  // Traducción a "Hype English" con mensaje personal para el jurado
-  const enhanceLog = (log: string) => {
-    // Mensajes de la Lógica del Agente
-    if (log.includes("Desviación")) return "🤖 [Neural-Net]: Volatility spike detected. Recalculating Uniswap v4 Hook delta...";
-    if (log.includes("Inyectando")) return "🚀 [Liquidity]: Emergency Rebalance triggered. Executing full-range liquidity shift...";
-    if (log.includes("✅")) return `🌐 [Identity]: Unichain node secured. Identity linked via cross-chain subgraph.`;
-    if (log.includes("Error")) return "⚠️ [System]: Byte alignment mismatch. Self-correcting for bytes32 padding...";
-    
-    // Mensajes de Onboarding / Contexto
-    if (log.includes("Risk Profile Updated")) return "📊 [Risk-Core]: Strategy set to dynamic yields. Optimizing for Unichain L2 throughput.";
-    
-    return log;
+  const exportEvents = (format: "json" | "csv") => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    if (format === "json") download(exportAgentEventsJson(visible), `agent-events-${stamp}.json`, "application/json");
+    else download(exportAgentEventsCsv(visible), `agent-events-${stamp}.csv`, "text/csv");
   };
 
   return (
@@ -40,6 +70,48 @@ export default function AgentConsole({ logs }: AgentConsoleProps) {
         </span>
       </div>
 
+      {/* Filtros: nivel, tipo de evento y búsqueda libre; la exportación respeta el filtro */}
+      <div className="flex flex-wrap items-center gap-2 px-5 py-2 border-b border-zinc-800 text-[10px] font-bold uppercase">
+        {AGENT_EVENT_LEVELS.map((level) => (
+          <button
+            key={level}
+            type="button"
+            onClick={() => setLevels((prev) => toggle(prev, level))}
+            className={`px-2 py-0.5 rounded ${levels.includes(level) ? `bg-zinc-800 ${LEVEL_STYLES[level]}` : "text-zinc-600"}`}
+          >
+            {level}
+          </button>
+        ))}
+        <select
+          value={kinds.length === AGENT_EVENT_KINDS.length ? "all" : kinds[0]}
+          onChange={(e) => setKinds(e.target.value === "all" ? AGENT_EVENT_KINDS : [e.target.value as AgentEventKind])}
+          className="bg-zinc-900 text-zinc-400 rounded px-2 py-0.5 outline-none uppercase"
+        >
+          <option value="all">All kinds</option>
+          {AGENT_EVENT_KINDS.map((kind) => (
+            <option key={kind} value={kind}>{kind}</option>
+          ))}
+        </select>
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search..."
+          className="flex-1 min-w-[100px] bg-zinc-900 text-zinc-300 rounded px-2 py-0.5 outline-none normal-case font-mono"
+        />
+        <button type="button" onClick={() => exportEvents("json")} className="text-zinc-500 hover:text-zinc-200">
+          JSON
+        </button>
+        <button type="button" onClick={() => exportEvents("csv")} className="text-zinc-500 hover:text-zinc-200">
+          CSV
+        </button>
+      </div>
+
+      {daemonStatus && (
+        <p className={`px-5 py-1.5 border-b border-zinc-800 text-[10px] font-mono ${LEVEL_STYLES[daemonStatus.level]}`}>
+          {daemonStatus.message}
+        </p>
+      )}
+
       <div
         ref={scrollRef}
         className="p-6 overflow-y-auto font-mono text-[13px] space-y-3 scrollbar-hide"
@@ -55,29 +127,44 @@ export default function AgentConsole({ logs }: AgentConsoleProps) {
           </p>
         </div>
 
-        {logs.length === 0 && (
-          <p className="text-zinc-700 animate-pulse">_ system_idle: awaiting neural link...</p>
+        {visible.length === 0 && (
+          <p className="text-zinc-700 animate-pulse">
+            {events.length === 0 ? "_ system_idle: awaiting neural link..." : "_ no events match the current filters"}
+          </p>
         )}
-        
-        {logs.map((log, i) => (
-          <div key={i} className="flex flex-col gap-1 border-l border-zinc-800 pl-4 py-1 animate-in slide-in-from-left duration-300">
+
+        {visible.map((event) => (
+          <div key={event.id} className="flex flex-col gap-1 border-l border-zinc-800 pl-4 py-1 animate-in slide-in-from-left duration-300">
             <div className="flex items-center gap-2">
               <span className="text-[10px] text-zinc-600 font-bold tracking-tighter">
-                {new Date().toLocaleTimeString()}
+                {new Date(event.timestamp).toLocaleTimeString()}
+              </span>
+              <span className={`text-[10px] px-1.5 py-0.5 bg-zinc-800 rounded uppercase font-black ${LEVEL_STYLES[event.level]}`}>
+                {event.level}
               </span>
               <span className="text-[10px] px-1.5 py-0.5 bg-zinc-800 text-zinc-400 rounded uppercase font-black">
-                Thread-{i}
+                {event.kind}
               </span>
             </div>
-            <span
-              className={
-                log.includes("✅") ? "text-emerald-400" : 
-                log.includes("⚡") || log.includes("🚀") ? "text-blue-400 italic font-bold" : 
-                log.includes("Error") || log.includes("⚠️") ? "text-rose-500" : "text-zinc-300"
-              }
-            >
-              {enhanceLog(log)}
-            </span>
+            <span className={LEVEL_STYLES[event.level]}>{event.message}</span>
+            {event.txHash && (
+              <a
+                href={getExplorerTxUrl(event.txHash)}
+                target="_blank"
+                rel="noreferrer"
+                className="text-[11px] text-blue-400 underline"
+              >
+                tx {event.txHash}
+              </a>
+            )}
+            {event.signal && (
+              <details className="text-[11px] text-zinc-500">
+                <summary className="cursor-pointer">AgentSignal</summary>
+                <pre className="whitespace-pre-wrap">
+                  {JSON.stringify(event.signal, (_, v) => (typeof v === "bigint" ? v.toString() : v), 2)}
+                </pre>
+              </details>
+            )}
           </div>
         ))}
         <div className="w-2 h-4 bg-blue-500 animate-pulse inline-block shadow-[0_0_10px_rgba(59,130,246,1)]" />
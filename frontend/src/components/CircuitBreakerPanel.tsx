@@ -0,0 +1,60 @@
+"use client";
+
+import { useCircuitBreaker } from "../hooks/useCircuitBreaker";
+import { getExplorerTxUrl } from "../hooks/useTxTracker";
+import { RECOVERY_CONDITION } from "../logic/CircuitBreaker";
+
+export default function CircuitBreakerPanel() {
+  const { status, isLoading } = useCircuitBreaker();
+
+  const active = status?.active ?? false;
+
+  return (
+    <div
+      className={`w-full p-5 rounded-[32px] border shadow-xl text-[11px] font-bold flex flex-col gap-2 ${
+        active ? "bg-red-50 border-red-200 text-red-700" : "bg-white border-zinc-200 text-zinc-700"
+      }`}
+    >
+      <div className="flex justify-between items-center">
+        <span className="font-black text-sm uppercase tracking-tight">Circuit Breaker</span>
+        <span
+          className={`px-3 py-1 rounded-full text-[10px] ${
+            isLoading ? "bg-zinc-100 text-zinc-400" : active ? "bg-red-500 text-white" : "bg-green-100 text-green-600"
+          }`}
+        >
+          {isLoading ? "CHECKING..." : active ? "EMERGENCY MODE" : "NORMAL"}
+        </span>
+      </div>
+
+      {active ? (
+        <>
+          <span>Swaps on the pool are blocked by the hook.</span>
+          {status?.activation && (
+            <span className="text-red-500 font-medium">
+              Triggered {new Date(status.activation.timestamp * 1000).toLocaleString()} · {status.activation.reason} ·{" "}
+              <a
+                href={getExplorerTxUrl(status.activation.txHash)}
+                target="_blank"
+                rel="noreferrer"
+                className="underline font-mono"
+              >
+                {status.activation.txHash.slice(0, 10)}...
+              </a>
+            </span>
+          )}
+          <span className="text-red-500 font-medium">{RECOVERY_CONDITION}</span>
+        </>
+      ) : (
+        <span className="text-zinc-400 font-medium">
+          Swaps enabled. A signal with risk level 100 activates emergency mode.
+        </span>
+      )}
+
+      {!!status?.lastRiskUpdate && (
+        <span className="text-zinc-400 font-medium">
+          Last risk update: {new Date(status.lastRiskUpdate * 1000).toLocaleString()}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useState } from "react";
+import { useDiagnostics } from "../hooks/useDiagnostics";
+import { formatContractError } from "../logic/ContractErrors";
+import type { DiagnosticStatus } from "../logic/Diagnostics";
+
+const STATUS_STYLES: Record<DiagnosticStatus, string> = {
+  ok: "bg-green-100 text-green-600",
+  warn: "bg-amber-100 text-amber-600",
+  error: "bg-red-500 text-white",
+};
+
+/**
+ * Informe del self-check: solo aparece si algo está mal (o si el RPC no responde).
+ */
+export default function DiagnosticsPanel() {
+  const { report, error, isFetching, rerun } = useDiagnostics();
+  const [showAll, setShowAll] = useState(false);
+
+  if (error) {
+    return (
+      <div className="w-full p-5 rounded-[32px] border shadow-xl text-[11px] font-bold bg-red-50 border-red-200 text-red-700">
+        <span className="font-black text-sm uppercase tracking-tight">Configuration check failed</span>
+        <p className="font-medium mt-1">{formatContractError(error)}</p>
+      </div>
+    );
+  }
+
+  if (!report || (report.errors === 0 && report.warnings === 0)) return null;
+
+  const hasErrors = report.errors > 0;
+  const checks = showAll ? report.checks : report.checks.filter((c) => c.status !== "ok");
+
+  return (
+    <div
+      className={`w-full p-5 rounded-[32px] border shadow-xl text-[11px] font-bold flex flex-col gap-3 ${
+        hasErrors ? "bg-red-50 border-red-200 text-red-700" : "bg-amber-50 border-amber-200 text-amber-700"
+      }`}
+    >
+      <div className="flex justify-between items-center gap-3">
+        <span className="font-black text-sm uppercase tracking-tight">
+          Configuration check · {report.network} ({report.chainId})
+        </span>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={() => setShowAll((v) => !v)} className="underline">
+            {showAll ? "Only problems" : "Full report"}
+          </button>
+          <button type="button" onClick={() => rerun()} disabled={isFetching} className="underline disabled:opacity-50">
+            {isFetching ? "Checking..." : "Re-run"}
+          </button>
+        </div>
+      </div>
+
+      <span className="font-medium">
+        {report.errors} error(s), {report.warnings} warning(s).{" "}
+        {hasErrors && "Transactions against this configuration will fail until these are fixed."}
+      </span>
+
+      <ul className="flex flex-col gap-1.5">
+        {checks.map((check) => (
+          <li key={check.id} className="flex gap-2 items-start">
+            <span className={`px-2 py-0.5 rounded-full text-[9px] uppercase shrink-0 ${STATUS_STYLES[check.status]}`}>
+              {check.status}
+            </span>
+            <span>
+              {check.label}: <span className="font-medium break-all">{check.detail}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
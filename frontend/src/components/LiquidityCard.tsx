@@ -1,77 +1,193 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect, useId } from "react";
 import { useVault } from "../hooks/useVault";
-import { formatEther, parseUnits } from "viem";
+import { useTxTracker } from "../hooks/useTxTracker";
+import { usePoolState } from "../hooks/usePoolState";
+import type { RangePicker } from "../hooks/useRangePicker";
+import type { Identity, IdentityStatus } from "../logic/Identity";
+import type { TokenInfo } from "../config/pools";
+import { RANGE_PRESETS } from "../hooks/useRangePicker";
+import { previewDeposit, previewWithdraw } from "../logic/LiquidityMath";
+import { formatUnits, parseUnits } from "viem";
 import { useAccount } from "wagmi";
-import { ABIS, CONTRACTS } from "../config/contracts";
+import { formatContractError } from "../logic/ContractErrors";
 
-export default function LiquidityCard({ currentPrice = 0, userEns }: any) {
-  const [amountETH, setAmountETH] = useState<string>("0.1");
+interface LiquidityCardProps {
+  identity: Identity;
+  onChangeIdentity?: () => void;
+  rangePicker: RangePicker;
+}
+
+const IDENTITY_BADGES: Record<IdentityStatus, { label: string; className: string }> = {
+  verified: { label: "NODE VERIFIED", className: "bg-green-100 text-green-600" },
+  unsupported: { label: "NODE UNVERIFIED", className: "bg-yellow-100 text-yellow-700" },
+  unlinked: { label: "NODE NOT LINKED", className: "bg-yellow-100 text-yellow-700" },
+  mismatch: { label: "NODE MISMATCH", className: "bg-red-100 text-red-600" },
+  invalid: { label: "INVALID ENS NAME", className: "bg-red-100 text-red-600" },
+  missing: { label: "NO IDENTITY", className: "bg-red-100 text-red-600" },
+};
+
+const formatAmount = (amount: bigint, token: TokenInfo) => Number(formatUnits(amount, token.decimals)).toLocaleString();
+
+const formatRangePrice = (price: number) =>
+  price < 1e-6 ? "0" : price > 1e12 ? "∞" : price.toLocaleString("en-US", { maximumSignificantDigits: 6 });
+
+export default function LiquidityCard({ identity, rangePicker }: LiquidityCardProps) {
+  const [amountBase, setAmountBase] = useState<string>("0.1");
+  const amountInputId = useId();
+  const [slippage, setSlippage] = useState<number>(0.005);
   const [loading, setLoading] = useState(false);
   
   const { isConnected } = useAccount();
   const { 
-    balanceEETH,
-    balanceEUSD,
-    allowanceEETH,
-    allowanceEUSD,
+    pool,
+    balanceBase,
+    balanceQuote,
+    allowanceBase,
+    allowanceQuote,
+    position,
+    openPosition,
     stakedBalance, 
-    hasIdentity, 
     claimFaucet, 
     approve, 
     deposit, 
     withdraw, 
     setupVaultPermissions,
-    refetchAll 
   } = useVault();
+  const { notifyError } = useTxTracker();
+  const { poolState } = usePoolState(pool.key);
+  const { base, quote, baseIsToken0 } = pool;
+  // Retiro y su preview van contra la pool de la posición (getUserPoolId), no la del selector
+  const positionPool = openPosition?.pool ?? pool;
+  const { poolState: positionPoolState } = usePoolState(positionPool.key);
 
-  // 1. Cálculos de UI Simplificados
-  // Usamos una cantidad fija alta para el "Approve" de EUSD para evitar errores de cálculo
-  const amountToApproveEUSD = useMemo(() => parseUnits("1000000", 18), []);
-  
-  const amountToDepositEETH = useMemo(() => {
-    try { return parseUnits(amountETH || "0", 18); } catch { return 0n; }
-  }, [amountETH]);
+  // 1. Cálculos de UI
+  const amountToDepositBase = useMemo(() => {
+    try { return parseUnits(amountBase || "0", base.decimals); } catch { return 0n; }
+  }, [amountBase, base.decimals]);
+
+  // Rango del depósito elegido por el usuario (preset, gráfico o inputs manuales)
+  const depositRange = rangePicker.range;
+  const [minPriceInput, setMinPriceInput] = useState("");
+  const [maxPriceInput, setMaxPriceInput] = useState("");
+
+  // Los inputs muestran siempre el rango ya ajustado al tickSpacing
+  useEffect(() => {
+    setMinPriceInput(formatRangePrice(rangePicker.priceRange.minPrice));
+    setMaxPriceInput(formatRangePrice(rangePicker.priceRange.maxPrice));
+  }, [rangePicker.priceRange]);
+
+  const applyManualRange = () => {
+    const min = parseFloat(minPriceInput.replace(/,/g, ""));
+    const max = parseFloat(maxPriceInput.replace(/,/g, ""));
+    if (min > 0 && max > 0) rangePicker.setPriceRange(min, max);
+  };
+
+  // El Vault recibe liquidez, no tokens: convertimos el input del token base a unidades de liquidez
+  // y calculamos cuánto de cada token se cobrará realmente (con el peor caso dentro del slippage)
+  const preview = useMemo(() => {
+    if (!poolState || amountToDepositBase === 0n) return null;
+    let p: ReturnType<typeof previewDeposit>;
+    try {
+      p = previewDeposit({
+        sqrtPriceX96: poolState.sqrtPriceX96,
+        tickLower: depositRange.lower,
+        tickUpper: depositRange.upper,
+        amount: amountToDepositBase,
+        amountIsToken0: baseIsToken0,
+        slippage,
+      });
+    } catch (e) {
+      // Liquidez fuera de uint128: el depósito revertiría
+      console.error("Deposit preview failed:", formatContractError(e));
+      return null;
+    }
+    return {
+      liquidity: p.liquidity,
+      base: baseIsToken0 ? p.amount0 : p.amount1,
+      quote: baseIsToken0 ? p.amount1 : p.amount0,
+      baseMax: baseIsToken0 ? p.amount0Max : p.amount1Max,
+      quoteMax: baseIsToken0 ? p.amount1Max : p.amount0Max,
+    };
+  }, [poolState, amountToDepositBase, depositRange, baseIsToken0, slippage]);
 
   // 2. Validaciones de estado
   // Verificamos si tienes al menos algo de tokens (el Faucet te da de sobra)
-  const hasTokens = (balanceEETH && balanceEETH > 0n) && (balanceEUSD && balanceEUSD > 0n);
+  const hasTokens = (balanceBase && balanceBase > 0n) && (balanceQuote && balanceQuote > 0n);
+
+  // Verificamos permisos contra el máximo que puede cobrar el depósito
+  const needsApproveBase = allowanceBase !== undefined && allowanceBase < (preview?.baseMax ?? amountToDepositBase);
+  const needsApproveQuote = allowanceQuote !== undefined && allowanceQuote < (preview?.quoteMax ?? 0n);
 
-  // Verificamos permisos
-  const needsApproveEETH = allowanceEETH !== undefined && allowanceEETH < amountToDepositEETH;
-  // Si el allowance es menor a un monto razonable (ej. 10k EUSD), pedimos approve
-  const needsApproveEUSD = allowanceEUSD !== undefined && allowanceEUSD < parseUnits("10000", 18);
+  const insufficientBalance = !!preview && (
+    (balanceBase ?? 0n) < preview.baseMax || (balanceQuote ?? 0n) < preview.quoteMax
+  );
   
   const hasInVault = stakedBalance && stakedBalance > 0n;
 
+  // --- RETIRO PARCIAL ---
+  const [withdrawPct, setWithdrawPct] = useState<number>(100);
+  const [withdrawStatus, setWithdrawStatus] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const withdrawLiquidity = position ? (position.liquidity * BigInt(withdrawPct)) / 100n : 0n;
+
+  // Tokens que devolverá el Vault para la liquidez elegida, según el rango guardado en getPosition
+  const withdrawPreview = useMemo(() => {
+    if (!positionPoolState || !position || withdrawLiquidity === 0n) return null;
+    const p = previewWithdraw({
+      sqrtPriceX96: positionPoolState.sqrtPriceX96,
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      liquidity: withdrawLiquidity,
+    });
+    const { baseIsToken0: positionBaseIsToken0 } = positionPool;
+    return {
+      base: positionBaseIsToken0 ? p.amount0 : p.amount1,
+      quote: positionBaseIsToken0 ? p.amount1 : p.amount0,
+    };
+  }, [positionPoolState, position, withdrawLiquidity, positionPool]);
+
+  const handleWithdraw = async () => {
+    setLoading(true);
+    setWithdrawStatus(null);
+    try {
+      // 100% se envía como 0n para que el Vault retire todo aunque la liquidez cambie
+      const hash = await withdraw(withdrawPct === 100 ? 0n : withdrawLiquidity);
+      setWithdrawStatus({ ok: true, message: `Withdrawal confirmed (${withdrawPct}%): ${hash.slice(0, 10)}...` });
+    } catch (e) {
+      console.error("Withdraw failed:", formatContractError(e));
+      setWithdrawStatus({ ok: false, message: formatContractError(e) });
+      notifyError("Withdrawal failed", e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAction = async () => {
-    if (!isConnected) return alert("Please connect your wallet first");
+    if (!isConnected) return notifyError("Wallet not connected", new Error("Please connect your wallet first"));
     setLoading(true);
     try {
       if (!hasTokens) {
-        // Paso 1: Faucet
+        // Paso 1: Faucet (los dos mints, uno tras otro)
         await claimFaucet();
-        alert("Tokens received! Please wait for balance update.");
-      } else if (needsApproveEETH) {
-        // Paso 2: Approve EETH
-        await approve(CONTRACTS.EETH, ABIS.EETH);
-      } else if (needsApproveEUSD) {
-        // Paso 3: Approve EUSD
-        await approve(CONTRACTS.EUSD, ABIS.EUSD);
+      } else if (needsApproveBase) {
+        // Paso 2: Approve token base
+        await approve(base);
+      } else if (needsApproveQuote) {
+        // Paso 3: Approve token quote
+        await approve(quote);
       } else {
-        // Paso 4: Deposit (Usando la función de emergencia con ticks fijos)
-        await deposit(amountETH);
-        alert("Deposit successful!");
+        // Paso 4: Deposit (liquidez calculada en el preview)
+        if (rangePicker.error) throw new Error(rangePicker.error);
+        if (!preview || preview.liquidity === 0n) throw new Error("No deposit preview for this amount and range");
+        if (insufficientBalance) throw new Error(`Insufficient ${base.symbol}/${quote.symbol} balance for this deposit`);
+        await deposit(preview.liquidity, depositRange.lower, depositRange.upper);
       }
-      
-      // Refrescar datos después de cada acción exitosa
-      setTimeout(() => refetchAll(), 2000);
-    } catch (e: any) {
-      console.error("Action failed:", e);
-      // Extraemos el mensaje de error de viem si existe
-      const msg = e.shortMessage || e.message || "Transaction failed";
-      alert("Error: " + msg);
+      // El tracker refresca balances, allowances y posición al confirmarse cada tx
+    } catch (e) {
+      console.error("Action failed:", formatContractError(e));
+      notifyError("Action failed", e);
     } finally {
       setLoading(false);
     }
@@ -83,51 +199,163 @@ export default function LiquidityCard({ currentPrice = 0, userEns }: any) {
         <div className="flex justify-between items-center">
           <div className="flex flex-col">
             <h2 className="font-black text-2xl tracking-tight leading-none">Vault Liquidity</h2>
-            <span className="text-[10px] text-zinc-400 font-bold mt-1">UNISWAP V4 • FULL RANGE</span>
+            <span className="text-[10px] text-zinc-400 font-bold mt-1">
+              UNISWAP V4 • {rangePicker.isFullRange ? "FULL RANGE" : `TICKS ${depositRange.lower} / ${depositRange.upper}`}
+            </span>
           </div>
-          <div className={`px-3 py-1 rounded-full text-[10px] font-bold ${hasIdentity ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
-            {hasIdentity ? (userEns || "IDENTITY ACTIVE") : "NO IDENTITY"}
+          <div
+            className={`px-3 py-1 rounded-full text-[10px] font-bold ${IDENTITY_BADGES[identity.status].className}`}
+            title={identity.node ?? undefined}
+          >
+            {identity.status === "verified" ? identity.name : IDENTITY_BADGES[identity.status].label}
           </div>
         </div>
 
+        {identity.status === "mismatch" && (
+          <div className="text-[10px] font-bold text-red-500 bg-red-50 p-3 rounded-2xl border border-red-100">
+            The vault stores a different ENS node for this wallet ({identity.vaultNode?.slice(0, 10)}...).
+            The agent will not sign signals until your primary name matches.
+          </div>
+        )}
+
         {/* Muestra de Balances Reales */}
         <div className="grid grid-cols-2 gap-2 text-[10px] font-bold uppercase">
           <div className="bg-zinc-50 p-3 rounded-2xl border border-zinc-100">
-            <div className="text-zinc-400 mb-1">Balance EETH</div>
-            <div className="text-sm text-zinc-800">{balanceEETH ? Number(formatEther(balanceEETH)).toLocaleString() : "0.00"}</div>
+            <div className="text-zinc-400 mb-1">Balance {base.symbol}</div>
+            <div className="text-sm text-zinc-800">{balanceBase ? formatAmount(balanceBase, base) : "0.00"}</div>
           </div>
           <div className="bg-zinc-50 p-3 rounded-2xl border border-zinc-100">
-            <div className="text-zinc-400 mb-1">Balance EUSD</div>
-            <div className="text-sm text-zinc-800">{balanceEUSD ? Number(formatEther(balanceEUSD)).toLocaleString() : "0.00"}</div>
+            <div className="text-zinc-400 mb-1">Balance {quote.symbol}</div>
+            <div className="text-sm text-zinc-800">{balanceQuote ? formatAmount(balanceQuote, quote) : "0.00"}</div>
+          </div>
+        </div>
+
+        {/* Estado real de la pool (slot0 del PoolManager) */}
+        <div className="grid grid-cols-3 gap-2 text-[10px] font-bold uppercase">
+          <div className="bg-zinc-50 p-3 rounded-2xl border border-zinc-100">
+            <div className="text-zinc-400 mb-1">Pool Tick</div>
+            <div className="text-sm text-zinc-800">{poolState ? poolState.tick : "---"}</div>
+          </div>
+          <div className="bg-zinc-50 p-3 rounded-2xl border border-zinc-100">
+            <div className="text-zinc-400 mb-1">LP Fee</div>
+            <div className="text-sm text-zinc-800">{poolState ? `${(poolState.lpFee / 10000).toFixed(2)}%` : "---"}</div>
+          </div>
+          <div className="bg-zinc-50 p-3 rounded-2xl border border-zinc-100">
+            <div className="text-zinc-400 mb-1">In Range</div>
+            <div className="text-sm text-zinc-800">
+              {poolState ? (poolState.tick >= depositRange.lower && poolState.tick < depositRange.upper ? "Yes" : "No") : "---"}
+            </div>
           </div>
         </div>
 
         {/* Input Principal */}
         <div className="bg-zinc-100 p-4 rounded-2xl border border-zinc-200">
-          <label className="text-[10px] font-black text-zinc-400 uppercase">Amount to Stake</label>
+          <label htmlFor={amountInputId} className="text-[10px] font-black text-zinc-400 uppercase">Amount to Stake</label>
           <div className="flex items-center gap-2 mt-1">
             <input
+              id={amountInputId}
               type="number"
-              value={amountETH}
-              onChange={(e) => setAmountETH(e.target.value)}
+              value={amountBase}
+              onChange={(e) => setAmountBase(e.target.value)}
               className="bg-transparent text-3xl font-bold w-full outline-none"
               placeholder="0.1"
             />
-            <span className="font-black text-primary px-3 py-1 bg-white rounded-xl shadow-sm">EETH</span>
+            <span className="font-black text-primary px-3 py-1 bg-white rounded-xl shadow-sm">{base.symbol}</span>
           </div>
         </div>
 
+        {/* Selector de rango: presets por riesgo, inputs manuales o la banda del gráfico */}
+        {!hasInVault && (
+          <div className="bg-zinc-50 p-4 rounded-2xl border border-zinc-100 text-[10px] font-bold uppercase flex flex-col gap-3">
+            <div className="grid grid-cols-2 gap-1">
+              {RANGE_PRESETS.map((p) => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => rangePicker.applyPreset(p.id)}
+                  className={`px-2 py-1.5 rounded-xl ${rangePicker.preset === p.id ? "bg-zinc-900 text-white" : "bg-white text-zinc-500 border border-zinc-200"}`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="flex flex-col gap-1 text-zinc-400">
+                Min Price
+                <input
+                  value={minPriceInput}
+                  onChange={(e) => setMinPriceInput(e.target.value)}
+                  onBlur={applyManualRange}
+                  onKeyDown={(e) => e.key === "Enter" && applyManualRange()}
+                  className="bg-white rounded-xl border border-zinc-200 px-2 py-1.5 text-sm text-zinc-800 outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-zinc-400">
+                Max Price
+                <input
+                  value={maxPriceInput}
+                  onChange={(e) => setMaxPriceInput(e.target.value)}
+                  onBlur={applyManualRange}
+                  onKeyDown={(e) => e.key === "Enter" && applyManualRange()}
+                  className="bg-white rounded-xl border border-zinc-200 px-2 py-1.5 text-sm text-zinc-800 outline-none"
+                />
+              </label>
+            </div>
+            <div className="text-zinc-400 normal-case">
+              Prices in {quote.symbol} per {base.symbol}, snapped to tick spacing {pool.tickSpacing}. Drag the band on the chart to adjust.
+            </div>
+            {rangePicker.error && <div className="text-red-500 normal-case">{rangePicker.error}</div>}
+          </div>
+        )}
+
+        {/* Preview del depósito: lo que el Vault cobrará realmente */}
+        {preview && !hasInVault && (
+          <div className="bg-zinc-50 p-4 rounded-2xl border border-zinc-100 text-[10px] font-bold uppercase flex flex-col gap-2">
+            <div className="flex justify-between items-center">
+              <span className="text-zinc-400">Deposit Preview</span>
+              <div className="flex gap-1">
+                {[0.001, 0.005, 0.01].map((s) => (
+                  <button
+                    key={s}
+                    type="button"
+                    onClick={() => setSlippage(s)}
+                    className={`px-2 py-0.5 rounded-lg ${slippage === s ? "bg-zinc-900 text-white" : "bg-white text-zinc-500 border border-zinc-200"}`}
+                  >
+                    {s * 100}%
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-between text-zinc-800">
+              <span>{base.symbol}</span>
+              <span>{formatAmount(preview.base, base)} <span className="text-zinc-400">(max {formatAmount(preview.baseMax, base)})</span></span>
+            </div>
+            <div className="flex justify-between text-zinc-800">
+              <span>{quote.symbol}</span>
+              <span>{formatAmount(preview.quote, quote)} <span className="text-zinc-400">(max {formatAmount(preview.quoteMax, quote)})</span></span>
+            </div>
+            <div className="flex justify-between text-zinc-400">
+              <span>Liquidity Units</span>
+              <span>{preview.liquidity.toString()}</span>
+            </div>
+            {insufficientBalance && (
+              <div className="text-red-500 normal-case">Insufficient balance to cover the maximum amounts.</div>
+            )}
+          </div>
+        )}
+
         {/* Botón de Acción Dinámico */}
         {!hasInVault ? (
           <button
+            type="button"
             onClick={handleAction}
-            disabled={loading}
+            disabled={loading || (!!hasTokens && !needsApproveBase && !needsApproveQuote && !!rangePicker.error)}
             className="w-full py-4 bg-zinc-900 text-white rounded-2xl font-bold hover:bg-black transition-all disabled:opacity-50 shadow-lg active:scale-[0.98]"
           >
             {loading ? "Processing..." : 
              !hasTokens ? "1. Get Test Tokens" : 
-             needsApproveEETH ? "2. Approve EETH" : 
-             needsApproveEUSD ? "3. Approve EUSD" : 
+             needsApproveBase ? `2. Approve ${base.symbol}` : 
+             needsApproveQuote ? `3. Approve ${quote.symbol}` : 
              "4. Deposit to Vault"}
           </button>
         ) : (
@@ -135,27 +363,83 @@ export default function LiquidityCard({ currentPrice = 0, userEns }: any) {
              <div className="text-center py-2 bg-green-50 text-green-600 text-[10px] font-bold rounded-lg border border-green-100">
               ✅ POSITION ACTIVE IN VAULT
             </div>
+
+            {openPosition && openPosition.pool?.id !== pool.id && (
+              <div className="text-[10px] font-bold text-yellow-700 bg-yellow-50 p-3 rounded-2xl border border-yellow-100">
+                {openPosition.pool
+                  ? `Your position is in ${openPosition.pool.label}. Withdrawals use that pool; deposits into ${pool.label} are blocked until it is closed.`
+                  : `Your position is in pool ${openPosition.poolId.slice(0, 10)}..., which is not in the registry. It cannot be withdrawn from this app.`}
+              </div>
+            )}
+
+            {/* Selector de porcentaje + preview de lo que se recibe */}
+            <div className="bg-zinc-50 p-4 rounded-2xl border border-zinc-100 text-[10px] font-bold uppercase flex flex-col gap-2">
+              <div className="flex justify-between items-center">
+                <span className="text-zinc-400">Withdraw</span>
+                <span className="text-sm text-zinc-800">{withdrawPct}%</span>
+              </div>
+              <input
+                type="range"
+                min={1}
+                max={100}
+                value={withdrawPct}
+                onChange={(e) => setWithdrawPct(Number(e.target.value))}
+                className="w-full accent-red-500"
+              />
+              <div className="grid grid-cols-4 gap-1">
+                {[25, 50, 75, 100].map((pct) => (
+                  <button
+                    key={pct}
+                    type="button"
+                    onClick={() => setWithdrawPct(pct)}
+                    className={`py-1 rounded-lg ${withdrawPct === pct ? "bg-zinc-900 text-white" : "bg-white text-zinc-500 border border-zinc-200"}`}
+                  >
+                    {pct === 100 ? "Max" : `${pct}%`}
+                  </button>
+                ))}
+              </div>
+              <div className="flex justify-between text-zinc-800">
+                <span>{positionPool.base.symbol}</span>
+                <span>{withdrawPreview ? formatAmount(withdrawPreview.base, positionPool.base) : "---"}</span>
+              </div>
+              <div className="flex justify-between text-zinc-800">
+                <span>{positionPool.quote.symbol}</span>
+                <span>{withdrawPreview ? formatAmount(withdrawPreview.quote, positionPool.quote) : "---"}</span>
+              </div>
+              <div className="flex justify-between text-zinc-400">
+                <span>Liquidity Units</span>
+                <span>{withdrawLiquidity.toString()}</span>
+              </div>
+            </div>
+
             <button
-              onClick={async () => {
-                setLoading(true);
-                try { await withdraw(); refetchAll(); } catch(e) {} finally { setLoading(false); }
-              }}
-              className="w-full py-4 bg-red-500 text-white rounded-2xl font-bold hover:bg-red-600 transition-all shadow-md"
+              type="button"
+              onClick={handleWithdraw}
+              disabled={loading || withdrawLiquidity === 0n || !openPosition?.pool}
+              className="w-full py-4 bg-red-500 text-white rounded-2xl font-bold hover:bg-red-600 transition-all shadow-md disabled:opacity-50"
             >
-              Withdraw Everything
+              {loading ? "Processing..." : withdrawPct === 100 ? "Withdraw Everything" : `Withdraw ${withdrawPct}%`}
             </button>
+
+            {withdrawStatus && (
+              <div className={`text-[10px] font-bold text-center ${withdrawStatus.ok ? "text-green-600" : "text-red-500"}`}>
+                {withdrawStatus.message}
+              </div>
+            )}
           </div>
         )}
 
         <hr className="border-zinc-100" />
 
         <button 
+          type="button"
           onClick={async () => {
             setLoading(true);
             try { 
               await setupVaultPermissions(); 
-              alert("Vault permissions initialized!");
-            } catch(e) {} finally { setLoading(false); }
+            } catch (e) {
+              notifyError("Vault re-initialization failed", e);
+            } finally { setLoading(false); }
           }}
           className="text-[9px] text-zinc-300 hover:text-primary transition-colors uppercase font-bold text-center tracking-widest"
         >
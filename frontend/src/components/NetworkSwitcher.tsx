@@ -0,0 +1,21 @@
+"use client";
+
+import { ACTIVE_NETWORK, NETWORKS, type NetworkId, selectNetwork } from "../config/networks";
+
+export default function NetworkSwitcher() {
+  return (
+    <select
+      value={ACTIVE_NETWORK.id}
+      // Cambiar de red recarga la app con el manifiesto de la otra red
+      onChange={(e) => selectNetwork(e.target.value as NetworkId)}
+      title={`Chain ${ACTIVE_NETWORK.chain.id}`}
+      className="px-4 py-2.5 rounded-2xl border border-secondary/20 bg-white text-xs font-bold text-zinc-700 outline-none"
+    >
+      {NETWORKS.map((n) => (
+        <option key={n.id} value={n.id}>
+          {n.label}
+        </option>
+      ))}
+    </select>
+  );
+}
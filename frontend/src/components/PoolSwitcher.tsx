@@ -0,0 +1,31 @@
+"use client";
+
+import { useSelectedPool } from "../hooks/useSelectedPool";
+
+export default function PoolSwitcher() {
+  const { pool, pools, selectPool } = useSelectedPool();
+
+  // Con una sola pool registrada no hay nada que elegir
+  if (pools.length < 2) {
+    return (
+      <span className="px-4 py-2.5 rounded-2xl border border-secondary/20 text-xs font-bold text-zinc-500" title={pool.poolId}>
+        {pool.label}
+      </span>
+    );
+  }
+
+  return (
+    <select
+      value={pool.id}
+      onChange={(e) => selectPool(e.target.value)}
+      title={pool.poolId}
+      className="px-4 py-2.5 rounded-2xl border border-secondary/20 bg-white text-xs font-bold text-zinc-700 outline-none"
+    >
+      {pools.map((p) => (
+        <option key={p.id} value={p.id}>
+          {p.label}
+        </option>
+      ))}
+    </select>
+  );
+}
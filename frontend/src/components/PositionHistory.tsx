@@ -0,0 +1,89 @@
+"use client";
+
+import { usePositionHistory } from "../hooks/usePositionHistory";
+import { getExplorerTxUrl } from "../hooks/useTxTracker";
+import { useSelectedPool } from "../hooks/useSelectedPool";
+import { type PoolConfig, getPoolById } from "../config/pools";
+import { ticksToPriceRange } from "../logic/TickMath";
+import type { PositionEvent, PositionEventType } from "../logic/HistoryCache";
+
+const EVENT_LABELS: Record<PositionEventType, { icon: string; label: string }> = {
+  deposit: { icon: "📥", label: "Deposit" },
+  withdrawal: { icon: "📤", label: "Withdrawal" },
+  reposition: { icon: "🔁", label: "Range changed" },
+  signal: { icon: "🤖", label: "Agent signal" },
+};
+
+const formatPrice = (price: number) => price.toLocaleString("en-US", { maximumSignificantDigits: 5 });
+
+const formatRange = (pool: PoolConfig, tickLower?: number, tickUpper?: number) => {
+  if (tickLower === undefined || tickUpper === undefined) return "";
+  const { minPrice, maxPrice } = ticksToPriceRange(tickLower, tickUpper, pool.priceContext);
+  return `[${tickLower}, ${tickUpper}] · ${formatPrice(minPrice)}–${formatPrice(maxPrice)} ${pool.quote.symbol}`;
+};
+
+const describeEvent = (event: PositionEvent, fallbackPool: PoolConfig) => {
+  // Los eventos con poolId se describen con su pool; los demás con la pool activa
+  const pool = (event.poolId && getPoolById(event.poolId)) || fallbackPool;
+  // Unidades de liquidez del Vault (no tokens), igual que en el preview de LiquidityCard
+  const liquidity = event.liquidity ? `${BigInt(event.liquidity).toLocaleString()} liquidity units` : "";
+  const range = formatRange(pool, event.tickLower, event.tickUpper);
+
+  switch (event.type) {
+    case "deposit":
+      return liquidity;
+    case "withdrawal":
+      return `${liquidity}${event.isPartial ? " (partial)" : " (full)"}`;
+    case "reposition":
+      return `${range} · ${liquidity}`;
+    case "signal":
+      return range;
+  }
+};
+
+export default function PositionHistory() {
+  const { events, syncedBlock, isSyncing, error } = usePositionHistory();
+  const { pool } = useSelectedPool();
+
+  return (
+    <div className="bg-white w-full p-6 rounded-[32px] border border-zinc-200 shadow-xl text-zinc-900">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="font-black text-xl tracking-tight leading-none">Position History</h2>
+        <span className="text-[10px] text-zinc-400 font-bold uppercase">
+          {isSyncing ? "Syncing..." : syncedBlock !== null ? `Block ${syncedBlock.toLocaleString()}` : "---"}
+        </span>
+      </div>
+
+      {error && <div className="text-[10px] font-bold text-red-500 mb-2">{error}</div>}
+
+      {events.length === 0 ? (
+        <p className="text-[11px] text-zinc-400 font-bold">No vault activity found for this wallet yet.</p>
+      ) : (
+        <ul className="flex flex-col gap-2 max-h-[320px] overflow-y-auto">
+          {events.map((event) => (
+            <li key={event.id} className="flex gap-3 items-start bg-zinc-50 p-3 rounded-2xl border border-zinc-100">
+              <span>{EVENT_LABELS[event.type].icon}</span>
+              <div className="flex flex-col gap-0.5 flex-1 min-w-0 text-[11px]">
+                <div className="flex justify-between font-bold">
+                  <span>{EVENT_LABELS[event.type].label}</span>
+                  <span className="text-zinc-400">
+                    {event.timestamp ? new Date(event.timestamp * 1000).toLocaleString() : `#${event.blockNumber}`}
+                  </span>
+                </div>
+                <span className="text-zinc-600">{describeEvent(event, pool)}</span>
+                <a
+                  href={getExplorerTxUrl(event.txHash)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-zinc-400 underline font-mono"
+                >
+                  {event.txHash.slice(0, 10)}...{event.txHash.slice(-6)}
+                </a>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -11,9 +11,12 @@ import {
   Filler,
   Legend,
   type ChartOptions,
+  type Plugin,
 } from "chart.js";
 import { Line } from "react-chartjs-2";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import type { PricePoint, PriceSource } from "../logic/PriceSource";
+import { type VolatilityPoint, volatilitySeries } from "../logic/Volatility";
 
 ChartJS.register(
   CategoryScale,
@@ -26,25 +29,147 @@ ChartJS.register(
   Legend,
 );
 
+type PriceBand = { minPrice: number; maxPrice: number };
+
 interface PriceChartProps {
   currentPrice: number;
+  priceSource?: PriceSource | null;
+  range?: PriceBand | null;
+  onRangeChange?: (minPrice: number, maxPrice: number) => void;
+  // Precios de los Swap de la pool (usePoolSwapPrices) para su curva de volatilidad
+  swapPrices?: PricePoint[];
 }
 
-export default function PriceChart({ currentPrice }: PriceChartProps) {
-  const [chartData, setChartData] = useState<{ label: string; value: number }[]>([]);
+// Distancia en px para "agarrar" un borde de la banda
+const EDGE_GRAB_PX = 8;
+
+const percent = (value: number | null | undefined) =>
+  value === null || value === undefined ? "--" : `${(value * 100).toFixed(1)}%`;
+
+// Último valor de la serie con time <= t (las curvas comparten el eje x del precio)
+const valueAt = (series: VolatilityPoint[], time: number, key: "realized" | "ewma") => {
+  let value: number | null = null;
+  for (const point of series) {
+    if (point.time > time) break;
+    value = point[key];
+  }
+  return value;
+};
+
+export default function PriceChart({ currentPrice, priceSource, range, onRangeChange, swapPrices = [] }: PriceChartProps) {
+  const [chartData, setChartData] = useState<{ time: number; label: string; value: number }[]>([]);
   const [isMounted, setIsMounted] = useState(false);
+  const [showVolatility, setShowVolatility] = useState(true);
+
+  // --- CAPA DE VOLATILIDAD (anualizada, eje derecho oculto en %) ---
+  const feedVolatility = useMemo(
+    () => volatilitySeries(chartData.map((d) => ({ time: d.time, price: d.value }))),
+    [chartData],
+  );
+  const swapVolatility = useMemo(() => volatilitySeries(swapPrices), [swapPrices]);
+
+  // --- BANDA DE RANGO ARRASTRABLE ---
+  const chartRef = useRef<ChartJS<"line">>(null);
+  const [dragBand, setDragBand] = useState<PriceBand | null>(null);
+  const dragRef = useRef<{ edge: "min" | "max" | "move"; startValue: number; startBand: PriceBand } | null>(null);
+
+  // Solo dibujamos rangos razonables (el full range se sale de cualquier escala)
+  const band = useMemo(() => {
+    const b = dragBand ?? range;
+    if (!b || currentPrice <= 0) return null;
+    return b.minPrice > currentPrice / 3 && b.maxPrice < currentPrice * 3 ? b : null;
+  }, [dragBand, range, currentPrice]);
+
+  const bandRef = useRef<PriceBand | null>(null);
+  bandRef.current = band;
+
+  const rangeBandPlugin = useMemo<Plugin<"line">>(() => ({
+    id: "rangeBand",
+    beforeDatasetsDraw: (chart) => {
+      const b = bandRef.current;
+      const y = chart.scales.y;
+      if (!b || !y) return;
+      const { ctx, chartArea } = chart;
+      const top = Math.max(chartArea.top, y.getPixelForValue(b.maxPrice));
+      const bottom = Math.min(chartArea.bottom, y.getPixelForValue(b.minPrice));
+
+      ctx.save();
+      ctx.fillStyle = "rgba(59, 130, 246, 0.08)";
+      ctx.fillRect(chartArea.left, top, chartArea.right - chartArea.left, bottom - top);
+      ctx.strokeStyle = "rgba(59, 130, 246, 0.6)";
+      ctx.setLineDash([4, 4]);
+      for (const edge of [top, bottom]) {
+        ctx.beginPath();
+        ctx.moveTo(chartArea.left, edge);
+        ctx.lineTo(chartArea.right, edge);
+        ctx.stroke();
+      }
+      ctx.restore();
+    },
+  }), []);
+
+  const pointerValue = (e: PointerEvent<HTMLDivElement>) => {
+    const chart = chartRef.current;
+    if (!chart?.scales.y) return null;
+    const rect = chart.canvas.getBoundingClientRect();
+    const py = e.clientY - rect.top;
+    return { py, value: chart.scales.y.getValueForPixel(py) ?? 0, y: chart.scales.y };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (!band || !onRangeChange) return;
+    const p = pointerValue(e);
+    if (!p) return;
+    const top = p.y.getPixelForValue(band.maxPrice);
+    const bottom = p.y.getPixelForValue(band.minPrice);
+
+    const edge =
+      Math.abs(p.py - top) <= EDGE_GRAB_PX ? "max" :
+      Math.abs(p.py - bottom) <= EDGE_GRAB_PX ? "min" :
+      p.py > top && p.py < bottom ? "move" : null;
+    if (!edge) return;
+
+    dragRef.current = { edge, startValue: p.value, startBand: band };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = pointerValue(e);
+    if (!p) return;
+    const { startBand } = drag;
+
+    if (drag.edge === "move") {
+      const delta = p.value - drag.startValue;
+      setDragBand({ minPrice: startBand.minPrice + delta, maxPrice: startBand.maxPrice + delta });
+    } else if (drag.edge === "max") {
+      setDragBand({ minPrice: startBand.minPrice, maxPrice: Math.max(p.value, startBand.minPrice) });
+    } else {
+      setDragBand({ minPrice: Math.min(p.value, startBand.maxPrice), maxPrice: startBand.maxPrice });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    // El padre ajusta el rango al tickSpacing y nos devuelve la banda definitiva
+    if (dragBand && onRangeChange) onRangeChange(dragBand.minPrice, dragBand.maxPrice);
+    setDragBand(null);
+  };
 
   useEffect(() => {
     setIsMounted(true);
+    // Algunas fuentes (ej. la pool on-chain) no tienen histórico: el gráfico se llena en vivo
+    if (!priceSource?.getHistory) return;
     const fetchHistory = async () => {
       try {
-        const res = await fetch(
-          "https://api.binance.com/api/v3/klines?symbol=ETHUSDC&interval=1m&limit=30"
-        );
-        const data = await res.json();
-        const history = data.map((d: any) => ({
-          label: new Date(d[0]).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-          value: parseFloat(d[4])
+        const points = await priceSource.getHistory?.(30);
+        if (!points) return;
+        const history = points.map((p) => ({
+          time: p.time,
+          label: new Date(p.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+          value: p.price
         }));
         setChartData(history);
       } catch (e) {
@@ -52,13 +177,14 @@ export default function PriceChart({ currentPrice }: PriceChartProps) {
       }
     };
     fetchHistory();
-  }, []);
+  }, [priceSource]);
 
   useEffect(() => {
     if (currentPrice === 0) return;
 
     setChartData((prev) => {
-      const now = new Date().toLocaleTimeString([], {
+      const time = Date.now();
+      const now = new Date(time).toLocaleTimeString([], {
         hour: "2-digit",
         minute: "2-digit",
         second: "2-digit",
@@ -69,12 +195,12 @@ export default function PriceChart({ currentPrice }: PriceChartProps) {
       // Si el último segundo es el mismo, solo actualizamos el precio
       if (lastEntry && lastEntry.label === now) {
         const updated = [...prev];
-        updated[updated.length - 1] = { ...lastEntry, value: currentPrice };
+        updated[updated.length - 1] = { ...lastEntry, time, value: currentPrice };
         return updated;
       }
 
       // Si es un segundo nuevo, añadimos punto y borramos el más viejo (slice)
-      const newData = [...prev, { label: now, value: currentPrice }];
+      const newData = [...prev, { time, label: now, value: currentPrice }];
       return newData.slice(-30); 
     });
   }, [currentPrice]);
@@ -94,6 +220,26 @@ export default function PriceChart({ currentPrice }: PriceChartProps) {
         pointRadius: 0,
         borderWidth: 2,
       },
+      ...(showVolatility
+        ? [
+            {
+              label: "Realized vol",
+              data: chartData.map((d) => valueAt(feedVolatility, d.time, "realized")),
+              borderColor: "rgba(99, 102, 241, 0.7)",
+            },
+            {
+              label: "EWMA vol",
+              data: chartData.map((d) => valueAt(feedVolatility, d.time, "ewma")),
+              borderColor: "rgba(16, 185, 129, 0.8)",
+            },
+            {
+              label: "Pool swaps EWMA vol",
+              data: chartData.map((d) => valueAt(swapVolatility, d.time, "ewma")),
+              borderColor: "rgba(245, 158, 11, 0.8)",
+              borderDash: [4, 4],
+            },
+          ].map((dataset) => ({ ...dataset, yAxisID: "vol", fill: false, tension: 0.3, pointRadius: 0, borderWidth: 1.5 }))
+        : []),
     ],
   };
 
@@ -106,7 +252,13 @@ export default function PriceChart({ currentPrice }: PriceChartProps) {
     },
     plugins: { 
       legend: { display: false },
-      tooltip: { enabled: true }
+      tooltip: {
+        enabled: true,
+        callbacks: {
+          label: (item) =>
+            `${item.dataset.label}: ${item.dataset.yAxisID === "vol" ? percent(item.parsed.y) : item.formattedValue}`,
+        },
+      }
     },
     scales: {
       x: { display: false },
@@ -118,8 +270,12 @@ export default function PriceChart({ currentPrice }: PriceChartProps) {
           font: { size: 9 },
           callback: (value) => `$${Number(value).toLocaleString()}`
         },
-        grace: '10%' 
-      }
+        grace: '10%',
+        // La escala siempre incluye la banda para que se pueda arrastrar
+        suggestedMin: band?.minPrice,
+        suggestedMax: band?.maxPrice
+      },
+      vol: { type: 'linear', display: false, position: 'left', beginAtZero: true, grace: '20%' }
     }
   };
 
@@ -128,17 +284,32 @@ export default function PriceChart({ currentPrice }: PriceChartProps) {
       <div className="flex justify-between items-center mb-4">
         <div>
           <h3 className="text-main font-bold">ETH / USDC</h3>
-          <p className="text-xs text-zinc-400">Live Visual Feed</p>
+          <p className="text-xs text-zinc-400">{priceSource?.label ?? "Live Visual Feed"}</p>
         </div>
         <div className="text-right">
           <span className="text-primary font-bold text-xl">
             ${currentPrice > 0 ? currentPrice.toLocaleString("en-US", { minimumFractionDigits: 2 }) : "---"}
           </span>
+          <button
+            type="button"
+            onClick={() => setShowVolatility((v) => !v)}
+            title="Annualized volatility: realized (1h window) and EWMA (15 min half-life) of the feed, EWMA of the pool's swaps"
+            className={`block ml-auto text-[10px] font-bold ${showVolatility ? "text-zinc-500" : "text-zinc-300"}`}
+          >
+            σ {percent(feedVolatility.at(-1)?.realized)} · EWMA {percent(feedVolatility.at(-1)?.ewma)} · pool{" "}
+            {percent(swapVolatility.at(-1)?.ewma)}
+          </button>
         </div>
       </div>
-      <div className="flex-grow min-h-[150px]">
+      <div
+        className={`flex-grow min-h-[150px] ${band && onRangeChange ? "cursor-ns-resize touch-none" : ""}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
         {chartData.length > 0 ? (
-          <Line data={data} options={options} />
+          <Line ref={chartRef} data={data} options={options} plugins={[rangeBandPlugin]} />
         ) : (
           <div className="h-full flex items-center justify-center text-zinc-300 text-sm">
             Syncing Market...
@@ -0,0 +1,82 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { getExplorerTxUrl, useResumePendingTransactions, useTxTracker } from "../hooks/useTxTracker";
+import type { TxStatus } from "../logic/TxStore";
+
+const STATUS_STYLES: Record<TxStatus, { icon: string; className: string }> = {
+  pending: { icon: "⏳", className: "border-zinc-200 text-zinc-800" },
+  confirmed: { icon: "✅", className: "border-green-200 text-green-700" },
+  failed: { icon: "⚠️", className: "border-red-200 text-red-600" },
+};
+
+// Las confirmadas se ocultan solas; pendientes y fallidas quedan hasta cerrarlas
+const CONFIRMED_TTL_MS = 8000;
+
+export default function TxToasts() {
+  const { transactions, dismiss } = useTxTracker();
+  useResumePendingTransactions();
+  // Un timer por toast confirmado: si se recrearan en cada cambio, otra tx pendiente lo retrasaría sin fin
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const scheduled = timers.current;
+    for (const tx of transactions) {
+      if (tx.status !== "confirmed" || scheduled.has(tx.id)) continue;
+      scheduled.set(
+        tx.id,
+        setTimeout(() => {
+          scheduled.delete(tx.id);
+          dismiss(tx.id);
+        }, CONFIRMED_TTL_MS),
+      );
+    }
+    // Cerradas a mano antes de tiempo
+    for (const [id, timer] of scheduled) {
+      if (!transactions.some((tx) => tx.id === id)) {
+        clearTimeout(timer);
+        scheduled.delete(id);
+      }
+    }
+  }, [transactions, dismiss]);
+
+  useEffect(() => {
+    const scheduled = timers.current;
+    return () => {
+      for (const timer of scheduled.values()) clearTimeout(timer);
+      scheduled.clear();
+    };
+  }, []);
+
+  if (transactions.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex flex-col gap-2 w-80">
+      {transactions.slice(0, 5).map((tx) => (
+        <div
+          key={tx.id}
+          className={`bg-white p-3 rounded-2xl border shadow-xl text-[11px] font-bold flex gap-2 items-start ${STATUS_STYLES[tx.status].className}`}
+        >
+          <span>{STATUS_STYLES[tx.status].icon}</span>
+          <div className="flex flex-col gap-0.5 flex-1 min-w-0">
+            <span>{tx.label}</span>
+            {tx.message && <span className="text-zinc-400 font-medium break-words">{tx.message}</span>}
+            {tx.hash && (
+              <a
+                href={getExplorerTxUrl(tx.hash, tx.chainId)}
+                target="_blank"
+                rel="noreferrer"
+                className="text-zinc-400 underline font-mono"
+              >
+                {tx.hash.slice(0, 10)}...{tx.hash.slice(-6)}
+              </a>
+            )}
+          </div>
+          <button type="button" onClick={() => dismiss(tx.id)} className="text-zinc-300 hover:text-zinc-600">
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,3 @@
+export { enstableHookAbi } from "./EnstableHook";
+export { identityVaultAbi } from "./IdentityVault";
+export { mockErc20Abi } from "./MockERC20";
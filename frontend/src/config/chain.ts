@@ -1,4 +1,5 @@
 import { defineChain } from "viem";
+import { anvil } from "viem/chains";
 
 export const unichainSepolia = defineChain({
   id: 1301,
@@ -15,3 +16,11 @@ export const unichainSepolia = defineChain({
   },
   testnet: true,
 });
+
+// Nodo local (make anvil): sin explorer, RPC configurable
+export const localAnvil = defineChain({
+  ...anvil,
+  rpcUrls: {
+    default: { http: [process.env.NEXT_PUBLIC_ANVIL_RPC_URL || "http://127.0.0.1:8545"] },
+  },
+});
@@ -1,26 +1,45 @@
-import EnstableHook from "./abis-json/EnstableHook.json";
-import IdentityVault from "./abis-json/IdentityVault.json";
-import MockEETH from "./abis-json/MockERC20EETH.json";
-import MockEUSD from "./abis-json/MockERC20EUSD.json";
+import { type Address, type ContractFunctionArgs, type ContractFunctionReturnType, zeroAddress } from "viem";
+import { ACTIVE_NETWORK } from "./networks";
+// Módulos `as const` generados desde contracts/out (bun run generate:abis)
+import { enstableHookAbi, identityVaultAbi, mockErc20Abi } from "./abis";
+
+const { deployment } = ACTIVE_NETWORK;
+
+// Direcciones que faltan en el manifiesto de la red activa (sin desplegar todavía)
+export const MISSING_CONTRACTS = (["hook", "vault", "eeth", "eusd", "poolManager"] as const).filter(
+  (name) => !deployment[name],
+);
+
+if (MISSING_CONTRACTS.length > 0) {
+  console.warn(
+    `[contracts] contracts/deployments/${deployment.chainId}.json has no ${MISSING_CONTRACTS.join(", ")} for ${ACTIVE_NETWORK.label}. Deploy with \`make deploy-anvil\` / \`make deploy-manifest\`.`,
+  );
+}
 
 export const CONTRACTS = {
-  HOOK: (process.env.NEXT_PUBLIC_HOOK_ADDRESS || "0x0") as `0x${string}`,
-  VAULT: (process.env.NEXT_PUBLIC_VAULT_ADDRESS || "0x0") as `0x${string}`,
-  EETH: (process.env.NEXT_PUBLIC_EETH_ADDRESS || "0x0") as `0x${string}`,
-  EUSD: (process.env.NEXT_PUBLIC_EUSD_ADDRESS || "0x0") as `0x${string}`,
+  HOOK: deployment.hook ?? zeroAddress,
+  VAULT: deployment.vault ?? zeroAddress,
+  EETH: deployment.eeth ?? zeroAddress,
+  EUSD: deployment.eusd ?? zeroAddress,
+  POOL_MANAGER: deployment.poolManager ?? zeroAddress,
 };
 
-// Algunos compiladores exportan el ABI directo, otros dentro de una propiedad .abi
-// Esta lógica detecta cuál es la correcta
-const getAbi = (json: any) => {
-  if (json.abi) return json.abi;
-  if (Array.isArray(json)) return json;
-  return json;
+export const ABIS = {
+  HOOK: enstableHookAbi,
+  VAULT: identityVaultAbi,
+  EETH: mockErc20Abi,
+  EUSD: mockErc20Abi,
 };
 
-export const ABIS = {
-  HOOK: getAbi(EnstableHook),
-  VAULT: getAbi(IdentityVault),
-  EETH: getAbi(MockEETH),
-  EUSD: getAbi(MockEUSD),
-};
\ No newline at end of file
+/**
+ * Contratos tipados listos para useReadContract / readContract / simulateContract:
+ * `{ ...vaultContract, functionName: "getPosition", args: [user] }` devuelve PackedPosition.
+ */
+export const hookContract = { address: CONTRACTS.HOOK, abi: enstableHookAbi } as const;
+export const vaultContract = { address: CONTRACTS.VAULT, abi: identityVaultAbi } as const;
+export const erc20Contract = (address: Address) => ({ address, abi: mockErc20Abi }) as const;
+
+// Structs de Solidity derivados del ABI: si el contrato cambia, el compilador avisa
+export type AgentSignal = ContractFunctionArgs<typeof enstableHookAbi, "nonpayable", "processAgentSignal">[2];
+export type PackedPosition = ContractFunctionReturnType<typeof identityVaultAbi, "view", "getPosition">;
+export type PoolKeyStruct = ContractFunctionArgs<typeof identityVaultAbi, "payable", "deposit">[0];
@@ -0,0 +1,137 @@
+import { type Address, type Chain, defineChain, zeroAddress } from "viem";
+import { sepolia } from "viem/chains";
+import { localAnvil, unichainSepolia } from "./chain";
+// Manifiestos que escribe contracts/script/DeployAll.s.sol (make deploy-manifest / make deploy-anvil)
+import unichainSepoliaDeployment from "../../../contracts/deployments/1301.json";
+import anvilDeployment from "../../../contracts/deployments/31337.json";
+
+/**
+ * REDES: cada red tiene su chain de viem, su RPC y el manifiesto de despliegue de
+ * Foundry. La red activa se elige en runtime y de ella salen CONTRACTS y las pools.
+ */
+export type DeploymentManifest = {
+  chainId: number;
+  poolManager: Address | null;
+  hook: Address | null;
+  vault: Address | null;
+  eusd: Address | null;
+  eeth: Address | null;
+  agent?: Address | null;
+  // Bloque del despliegue: punto de partida del indexer de eventos
+  startBlock?: number;
+  // ENS local (solo anvil, script/local/LocalEns.sol)
+  ensRegistry?: Address | null;
+  ensRegistrar?: Address | null;
+  ensUniversalResolver?: Address | null;
+};
+
+/**
+ * ENS de la red: de dónde salen nombres, text records y storage proofs.
+ * - Unichain Sepolia: el ENS de Sepolia (L1), por NEXT_PUBLIC_ENS_RPC_URL.
+ * - anvil: el ENS local que despliega DeployAll en el mismo nodo.
+ */
+export type EnsConfig = {
+  chain: Chain;
+  rpcUrl?: string;
+  registry: Address;
+  // Nodo propio: el stateRoot de las storage proofs se toma del mismo RPC (ver AgentLogic)
+  selfHosted: boolean;
+};
+
+export type NetworkId = "unichain-sepolia" | "anvil";
+
+export type NetworkConfig = {
+  id: NetworkId;
+  label: string;
+  chain: Chain;
+  rpcUrl?: string;
+  deployment: DeploymentManifest;
+  ens: EnsConfig;
+};
+
+// Registry de ENS (misma dirección en mainnet y Sepolia)
+const ENS_REGISTRY: Address = "0x00000000000C2E074eC69A0dFb2997BA6C7d2e1e";
+
+/**
+ * La chain de anvil con el UniversalResolver local, que es por donde viem resuelve
+ * nombres y text records.
+ */
+const withLocalEns = (chain: Chain, deployment: DeploymentManifest): Chain =>
+  deployment.ensUniversalResolver
+    ? defineChain({
+        ...chain,
+        contracts: { ...chain.contracts, ensUniversalResolver: { address: deployment.ensUniversalResolver } },
+      })
+    : chain;
+
+const anvilManifest = anvilDeployment as DeploymentManifest;
+const anvilChain = withLocalEns(localAnvil, anvilManifest);
+
+export const NETWORKS: NetworkConfig[] = [
+  {
+    id: "unichain-sepolia",
+    label: "Unichain Sepolia",
+    chain: unichainSepolia,
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL,
+    deployment: unichainSepoliaDeployment as DeploymentManifest,
+    ens: { chain: sepolia, rpcUrl: process.env.NEXT_PUBLIC_ENS_RPC_URL, registry: ENS_REGISTRY, selfHosted: false },
+  },
+  {
+    id: "anvil",
+    label: "Local (anvil)",
+    chain: anvilChain,
+    rpcUrl: localAnvil.rpcUrls.default.http[0],
+    deployment: anvilManifest,
+    ens: {
+      chain: anvilChain,
+      rpcUrl: localAnvil.rpcUrls.default.http[0],
+      registry: anvilManifest.ensRegistry ?? zeroAddress,
+      selfHosted: true,
+    },
+  },
+];
+
+const STORAGE_KEY = "enstable:network";
+
+const findNetwork = (id: string | null | undefined) => NETWORKS.find((n) => n.id === id);
+
+/**
+ * Orden: ?network= en la URL, la elección guardada en localStorage y NEXT_PUBLIC_NETWORK.
+ * En Node (agente headless) solo cuenta NEXT_PUBLIC_NETWORK.
+ */
+const resolveActiveNetwork = (): NetworkConfig => {
+  const fallback = findNetwork(process.env.NEXT_PUBLIC_NETWORK) ?? (NETWORKS[0] as NetworkConfig);
+  if (typeof window === "undefined") return fallback;
+
+  const fromUrl = findNetwork(new URLSearchParams(window.location.search).get("network"));
+  if (fromUrl) {
+    window.localStorage.setItem(STORAGE_KEY, fromUrl.id);
+    return fromUrl;
+  }
+  return findNetwork(window.localStorage.getItem(STORAGE_KEY)) ?? fallback;
+};
+
+export const ACTIVE_NETWORK = resolveActiveNetwork();
+
+export const activeChain = ACTIVE_NETWORK.chain;
+
+export const ACTIVE_ENS = ACTIVE_NETWORK.ens;
+
+export const ensChain = ACTIVE_ENS.chain;
+
+if (ACTIVE_ENS.selfHosted && !ACTIVE_NETWORK.deployment.ensUniversalResolver) {
+  console.warn(
+    `[networks] contracts/deployments/${ACTIVE_NETWORK.deployment.chainId}.json has no local ENS for ${ACTIVE_NETWORK.label}. Deploy with \`make deploy-anvil\`.`,
+  );
+}
+
+/**
+ * Cambia de red recargando la página: contratos, pools y clientes se construyen al
+ * cargar los módulos, así que no conviven dos redes en la misma sesión.
+ */
+export const selectNetwork = (id: NetworkId) => {
+  window.localStorage.setItem(STORAGE_KEY, id);
+  const url = new URL(window.location.href);
+  url.searchParams.delete("network");
+  window.location.assign(url.toString());
+};
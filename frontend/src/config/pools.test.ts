@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { CONTRACTS } from "./contracts";
+import { parseExtraPools } from "./pools";
+
+const entry = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify([{ base: "EETH", quote: "EUSD", fee: 500, tickSpacing: 10, ...overrides }]);
+
+describe("parseExtraPools", () => {
+  test("builds pools from valid entries", () => {
+    expect(parseExtraPools(undefined)).toEqual([]);
+    const [pool] = parseExtraPools(entry());
+    expect(pool).toMatchObject({ id: "eeth-eusd-500", label: "EETH/EUSD 0.05%", fee: 500, tickSpacing: 10, hooks: CONTRACTS.HOOK });
+  });
+
+  test("rejects malformed JSON and non-arrays", () => {
+    expect(() => parseExtraPools("[{")).toThrow("not valid JSON");
+    expect(() => parseExtraPools('{"base":"EETH"}')).toThrow("must be a JSON array");
+    expect(() => parseExtraPools("[1]")).toThrow("Invalid NEXT_PUBLIC_POOLS[0]: expected an object");
+  });
+
+  test("rejects entries outside the v4 bounds", () => {
+    expect(() => parseExtraPools(entry({ base: "WBTC" }))).toThrow("unknown token WBTC/EUSD");
+    expect(() => parseExtraPools(entry({ base: "toString" }))).toThrow("unknown token");
+    expect(() => parseExtraPools(entry({ quote: "EETH" }))).toThrow("same token");
+    for (const fee of ["500", 1.5, -1, 1_000_001, undefined]) {
+      expect(() => parseExtraPools(entry({ fee }))).toThrow("Invalid NEXT_PUBLIC_POOLS[0]: fee");
+    }
+    for (const tickSpacing of ["10", 0, 32_768, 2.5]) {
+      expect(() => parseExtraPools(entry({ tickSpacing }))).toThrow("Invalid NEXT_PUBLIC_POOLS[0]: tickSpacing");
+    }
+    expect(() => parseExtraPools(entry({ hooks: "0x1234" }))).toThrow("is not an address");
+    expect(() => parseExtraPools(entry({ id: "" }))).toThrow("id must be a non-empty string");
+  });
+
+  test("accepts the dynamic fee flag", () => {
+    expect(parseExtraPools(entry({ fee: 0x800000 }))[0]?.label).toBe("EETH/EUSD dynamic fee");
+  });
+});
@@ -0,0 +1,153 @@
+import { type Address, type Hex, isAddress } from "viem";
+import { ABIS, CONTRACTS } from "./contracts";
+import type { mockErc20Abi } from "./abis";
+import { type PoolKey, getPoolId } from "../logic/PoolState";
+import { type PriceContext, getPriceContext } from "../logic/TickMath";
+
+/**
+ * REGISTRO DE POOLS: única fuente del PoolKey. UI, agente y fuentes de precio
+ * trabajan con un PoolConfig y nunca arman el PoolKey a mano.
+ */
+export type TokenInfo = {
+  address: Address;
+  symbol: string;
+  decimals: number;
+  abi: typeof mockErc20Abi;
+  // Cantidad que entrega el faucet del token mock (unidades humanas)
+  faucetAmount?: string;
+};
+
+export type PoolConfig = {
+  id: string;
+  label: string;
+  // Los precios se muestran como `quote` por cada `base` (ej. EUSD por EETH)
+  base: TokenInfo;
+  quote: TokenInfo;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+  // Par del feed CEX equivalente (PriceSource "cex")
+  cexSymbol: string;
+  key: PoolKey;
+  poolId: Hex;
+  priceContext: PriceContext;
+  baseIsToken0: boolean;
+};
+
+export const TOKENS = {
+  EETH: { address: CONTRACTS.EETH, symbol: "EETH", decimals: 18, abi: ABIS.EETH, faucetAmount: "100" },
+  // 1 Millón de EUSD para que nunca falte
+  EUSD: { address: CONTRACTS.EUSD, symbol: "EUSD", decimals: 18, abi: ABIS.EUSD, faucetAmount: "1000000" },
+} satisfies Record<string, TokenInfo>;
+
+type PoolDefinition = Pick<PoolConfig, "id" | "label" | "base" | "quote" | "fee" | "tickSpacing" | "hooks" | "cexSymbol">;
+
+/**
+ * Ordena las currencies (currency0 < currency1, igual que el PoolManager) y calcula
+ * el PoolId como PoolIdLibrary.toId: keccak256(abi.encode(key)).
+ */
+export const definePool = (def: PoolDefinition): PoolConfig => {
+  const baseIsToken0 = def.base.address.toLowerCase() < def.quote.address.toLowerCase();
+  const [token0, token1] = baseIsToken0 ? [def.base, def.quote] : [def.quote, def.base];
+
+  const key: PoolKey = {
+    currency0: token0.address,
+    currency1: token1.address,
+    fee: def.fee,
+    tickSpacing: def.tickSpacing,
+    hooks: def.hooks,
+  };
+
+  return {
+    ...def,
+    key,
+    poolId: getPoolId(key),
+    priceContext: getPriceContext(key.currency0, def.base.address, token0.decimals, token1.decimals),
+    baseIsToken0,
+  };
+};
+
+// Límites de v4: LPFeeLibrary.MAX_LP_FEE (o el flag de fee dinámico) y TickMath.{MIN,MAX}_TICK_SPACING
+const MAX_LP_FEE = 1_000_000;
+const DYNAMIC_FEE_FLAG = 0x800000;
+const MIN_TICK_SPACING = 1;
+const MAX_TICK_SPACING = 32_767;
+
+const isIntegerIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * Pools extra desde NEXT_PUBLIC_POOLS (JSON), ej:
+ * [{"id":"eeth-eusd-500","base":"EETH","quote":"EUSD","fee":500,"tickSpacing":10}]
+ * Una entrada inválida rompe el arranque: un PoolKey mal armado daría otro PoolId.
+ */
+export const parseExtraPools = (raw: string | undefined): PoolConfig[] => {
+  if (!raw) return [];
+  let defs: unknown;
+  try {
+    defs = JSON.parse(raw);
+  } catch {
+    throw new Error("NEXT_PUBLIC_POOLS is not valid JSON.");
+  }
+  if (!Array.isArray(defs)) throw new Error("NEXT_PUBLIC_POOLS must be a JSON array of pools.");
+
+  return defs.map((entry: unknown, i) => {
+    const invalid = (reason: string) => new Error(`Invalid NEXT_PUBLIC_POOLS[${i}]: ${reason}`);
+    if (typeof entry !== "object" || entry === null) throw invalid("expected an object.");
+    const def = entry as Record<string, unknown>;
+
+    const token = (symbol: unknown) =>
+      typeof symbol === "string" && Object.hasOwn(TOKENS, symbol) ? TOKENS[symbol as keyof typeof TOKENS] : undefined;
+    const base = token(def.base);
+    const quote = token(def.quote);
+    if (!base || !quote) throw invalid(`unknown token ${String(def.base)}/${String(def.quote)}.`);
+    if (base === quote) throw invalid("base and quote are the same token.");
+    if (!isIntegerIn(def.fee, 0, MAX_LP_FEE) && def.fee !== DYNAMIC_FEE_FLAG) {
+      throw invalid(`fee ${String(def.fee)} is not an integer between 0 and ${MAX_LP_FEE} (or the dynamic fee flag).`);
+    }
+    if (!isIntegerIn(def.tickSpacing, MIN_TICK_SPACING, MAX_TICK_SPACING)) {
+      throw invalid(`tickSpacing ${String(def.tickSpacing)} is not an integer between ${MIN_TICK_SPACING} and ${MAX_TICK_SPACING}.`);
+    }
+    if (def.hooks !== undefined && (typeof def.hooks !== "string" || !isAddress(def.hooks))) {
+      throw invalid(`hooks ${String(def.hooks)} is not an address.`);
+    }
+    for (const field of ["id", "label", "cexSymbol"] as const) {
+      if (def[field] !== undefined && (typeof def[field] !== "string" || def[field] === "")) {
+        throw invalid(`${field} must be a non-empty string.`);
+      }
+    }
+
+    const fee = def.fee as number;
+    const feeLabel = fee === DYNAMIC_FEE_FLAG ? "dynamic fee" : `${(fee / 10000).toFixed(2)}%`;
+    return definePool({
+      id: (def.id as string | undefined) ?? `${base.symbol}-${quote.symbol}-${fee}`.toLowerCase(),
+      label: (def.label as string | undefined) ?? `${base.symbol}/${quote.symbol} ${feeLabel}`,
+      base,
+      quote,
+      fee,
+      tickSpacing: def.tickSpacing as number,
+      hooks: (def.hooks as Address | undefined) ?? CONTRACTS.HOOK,
+      cexSymbol: (def.cexSymbol as string | undefined) ?? "ETHUSDC",
+    });
+  });
+};
+
+export const POOLS: PoolConfig[] = [
+  definePool({
+    id: "eeth-eusd-3000",
+    label: "EETH/EUSD 0.30%",
+    base: TOKENS.EETH,
+    quote: TOKENS.EUSD,
+    fee: 3000,
+    tickSpacing: 60,
+    hooks: CONTRACTS.HOOK,
+    cexSymbol: "ETHUSDC",
+  }),
+  ...parseExtraPools(process.env.NEXT_PUBLIC_POOLS),
+];
+
+export const DEFAULT_POOL = POOLS[0] as PoolConfig;
+
+export const getPool = (id: string | null | undefined) => POOLS.find((p) => p.id === id) ?? DEFAULT_POOL;
+
+export const getPoolById = (poolId: Hex) => POOLS.find((p) => p.poolId.toLowerCase() === poolId.toLowerCase());
@@ -0,0 +1,22 @@
+"use client";
+
+import { usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { activeChain } from "../config/networks";
+import { readCircuitBreakerStatus } from "../logic/CircuitBreaker";
+
+/**
+ * Estado del circuit breaker del hook (s_emergencyMode + última activación).
+ */
+export function useCircuitBreaker() {
+  const client = usePublicClient({ chainId: activeChain.id });
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["circuitBreaker"],
+    queryFn: () => (client ? readCircuitBreakerStatus(client) : null),
+    enabled: !!client,
+    refetchInterval: 15000,
+  });
+
+  return { status: data ?? null, isLoading, error };
+}
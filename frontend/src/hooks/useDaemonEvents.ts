@@ -0,0 +1,28 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { Address } from "viem";
+import type { DaemonEventFeed } from "../logic/AgentEvents";
+
+// Igual que el latido del daemon (HEARTBEAT_INTERVAL en agent/status.ts)
+const POLL_INTERVAL_MS = 10_000;
+
+/**
+ * Eventos del daemon headless para el usuario conectado (api/agent/events). La página no
+ * ejecuta el agente: sin este feed la consola solo vería los eventos de la sesión.
+ */
+export function useDaemonEvents(user: Address | undefined) {
+  const { data, error } = useQuery({
+    queryKey: ["daemon-events", user],
+    queryFn: async () => {
+      const res = await fetch(`./api/agent/events?user=${user}`);
+      if (!res.ok) throw new Error(`Agent status request failed (${res.status})`);
+      return ((await res.json()) as { status: DaemonEventFeed | null }).status;
+    },
+    enabled: !!user,
+    refetchInterval: POLL_INTERVAL_MS,
+    retry: false,
+  });
+
+  return { feed: data ?? null, error };
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { activeChain } from "../config/networks";
+import { runDiagnostics } from "../logic/Diagnostics";
+
+/**
+ * Self-check de la configuración al arrancar la app (una vez por sesión, re-ejecutable).
+ */
+export function useDiagnostics() {
+  const client = usePublicClient({ chainId: activeChain.id });
+
+  const { data, isLoading, error, refetch, isFetching } = useQuery({
+    queryKey: ["diagnostics", activeChain.id],
+    queryFn: () => (client ? runDiagnostics(client) : null),
+    enabled: !!client,
+    staleTime: Number.POSITIVE_INFINITY,
+    retry: false,
+  });
+
+  return { report: data ?? null, isLoading, isFetching, error, rerun: refetch };
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useAccount, usePublicClient, useSwitchChain, useWriteContract } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { ensChain } from "../config/networks";
+import { useTxTracker } from "./useTxTracker";
+import {
+  EMPTY_STRATEGY,
+  type StrategyRecords,
+  buildStrategyWrite,
+  readStrategyRecords,
+} from "../logic/EnsStrategy";
+
+/**
+ * Perfil de estrategia guardado como text records en el resolver ENS del usuario.
+ */
+export function useEnsStrategy(ensName: string | null | undefined) {
+  const { chainId } = useAccount();
+  const ensClient = usePublicClient({ chainId: ensChain.id });
+  const { writeContractAsync } = useWriteContract();
+  const { switchChainAsync } = useSwitchChain();
+  const { track } = useTxTracker();
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ["ensStrategy", ensName],
+    queryFn: () => (ensClient && ensName ? readStrategyRecords(ensClient, ensName) : EMPTY_STRATEGY),
+    enabled: !!ensClient && !!ensName,
+  });
+
+  // Escribe los tres records en una transacción (en la red de ENS)
+  const saveStrategy = async (records: StrategyRecords) => {
+    if (!ensName || !ensClient) throw new Error("An ENS name is required to store the strategy");
+    const previousChainId = chainId;
+    if (previousChainId !== ensChain.id) await switchChainAsync({ chainId: ensChain.id });
+
+    try {
+      const request = await buildStrategyWrite(ensClient, ensName, records);
+      const hash = await writeContractAsync({ ...request, chainId: ensChain.id });
+      await track(hash, { label: "Save ENS strategy", chainId: ensChain.id });
+      await refetch();
+      return hash;
+    } finally {
+      // Volvemos a la red del Vault para no romper los depósitos y lecturas
+      if (previousChainId && previousChainId !== ensChain.id) {
+        await switchChainAsync({ chainId: previousChainId });
+      }
+    }
+  };
+
+  return {
+    strategy: data ?? EMPTY_STRATEGY,
+    hasRecords: !!data?.riskLevel,
+    isLoading: !!ensName && isLoading,
+    saveStrategy,
+  };
+}
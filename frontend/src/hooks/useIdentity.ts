@@ -0,0 +1,25 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAccount, usePublicClient } from "wagmi";
+import { useQuery } from "@tanstack/react-query";
+import { activeChain } from "../config/networks";
+import { readVaultNode, resolveIdentity } from "../logic/Identity";
+
+/**
+ * Namehash del nombre primario comparado con el nodo que guarda IdentityVault.
+ */
+export function useIdentity(ensName: string | null | undefined) {
+  const { address } = useAccount();
+  const client = usePublicClient({ chainId: activeChain.id });
+
+  const { data: vaultNode, isLoading } = useQuery({
+    queryKey: ["vaultNode", address],
+    queryFn: () => (client && address ? readVaultNode(client, address) : null),
+    enabled: !!client && !!address,
+  });
+
+  const identity = useMemo(() => resolveIdentity(ensName, vaultNode ?? null), [ensName, vaultNode]);
+
+  return { identity, isLoading };
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { useReadContract } from "wagmi";
+import { useMemo } from "react";
+import type { Hex } from "viem";
+import { CONTRACTS } from "../config/contracts";
+import {
+  type PoolKey,
+  POOL_MANAGER_ABI,
+  decodePoolState,
+  getPoolStateSlots,
+} from "../logic/PoolState";
+
+/**
+ * Lee el slot0 y la liquidez de la pool directamente del PoolManager.
+ * Es el mismo tick que usa el Hook para validar los rangos del agente.
+ */
+export function usePoolState(poolKey: PoolKey) {
+  const slots = useMemo(() => getPoolStateSlots(poolKey), [poolKey]);
+
+  const { data, refetch, isLoading } = useReadContract({
+    address: CONTRACTS.POOL_MANAGER,
+    abi: POOL_MANAGER_ABI,
+    functionName: "extsload",
+    args: [slots],
+    query: { refetchInterval: 15000 },
+  });
+
+  const poolState = useMemo(() => {
+    const [slot0Word, liquidityWord] = (data as readonly Hex[] | undefined) ?? [];
+    if (!slot0Word || !liquidityWord) return undefined;
+    const state = decodePoolState(slot0Word, liquidityWord);
+    return state.sqrtPriceX96 === 0n ? undefined : state;
+  }, [data]);
+
+  return { poolState, isLoading, refetchPoolState: refetch };
+}
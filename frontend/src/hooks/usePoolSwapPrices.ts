@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePublicClient } from "wagmi";
+import { activeChain } from "../config/networks";
+import type { PoolConfig } from "../config/pools";
+import type { PricePoint } from "../logic/PriceSource";
+import { createSwapPriceTracker } from "../logic/Volatility";
+
+const POLL_INTERVAL = 30_000;
+
+/**
+ * Precio tras cada Swap reciente de la pool (ventana de volatilidad): la curva de
+ * volatilidad de la propia pool en PriceChart.
+ */
+export function usePoolSwapPrices(pool: PoolConfig) {
+  const client = usePublicClient({ chainId: activeChain.id });
+  const [points, setPoints] = useState<PricePoint[]>([]);
+
+  useEffect(() => {
+    setPoints([]);
+    if (!client) return;
+
+    const tracker = createSwapPriceTracker(client, pool);
+    let cancelled = false;
+    const update = () =>
+      tracker
+        .update()
+        .then((next) => {
+          if (!cancelled) setPoints([...next]);
+        })
+        .catch((e) => console.error("Pool swaps error", e));
+
+    update();
+    const interval = setInterval(update, POLL_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [client, pool]);
+
+  return points;
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount, usePublicClient } from "wagmi";
+import { activeChain } from "../config/networks";
+import { createEventIndexer } from "../logic/EventIndexer";
+import { type HistorySnapshot, createBrowserHistoryCache } from "../logic/HistoryCache";
+import { formatContractError } from "../logic/ContractErrors";
+
+/**
+ * Historial on-chain de la posición del usuario (cacheado en IndexedDB).
+ */
+export function usePositionHistory() {
+  const { address } = useAccount();
+  const client = usePublicClient({ chainId: activeChain.id });
+
+  const [snapshot, setSnapshot] = useState<HistorySnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  useEffect(() => {
+    setSnapshot(null);
+    setError(null);
+    if (!client || !address) return;
+
+    const indexer = createEventIndexer({
+      client,
+      user: address,
+      cache: createBrowserHistoryCache(),
+      onUpdate: (s) => {
+        setSnapshot(s);
+        setError(null);
+      },
+      onError: (err) => setError(formatContractError(err)),
+    });
+
+    // start() resuelve cuando termina el backfill; después sigue con polling
+    setIsSyncing(true);
+    indexer.start().finally(() => setIsSyncing(false));
+    return () => indexer.stop();
+  }, [client, address]);
+
+  return {
+    // Más reciente primero
+    events: snapshot ? [...snapshot.events].reverse() : [],
+    syncedBlock: snapshot?.lastBlock ?? null,
+    isSyncing,
+    error,
+  };
+}
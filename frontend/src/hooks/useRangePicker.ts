@@ -0,0 +1,91 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { useSelectedPool } from "./useSelectedPool";
+import { usePoolState } from "./usePoolState";
+import { VaultLogic } from "../logic/VaultLogic";
+import {
+  getRangeAroundTick,
+  maxUsableTick,
+  minUsableTick,
+  priceRangeToTicks,
+  ticksToPriceRange,
+} from "../logic/TickMath";
+
+export type TickRange = { lower: number; upper: number };
+
+export type RangePresetId = "conservative" | "balanced" | "aggressive" | "full" | "custom";
+
+/**
+ * Presets ligados a los perfiles de riesgo del onboarding (nivel 1, 2 y 3).
+ * widthPct es la amplitud ±% alrededor del tick actual de la pool.
+ */
+export const RANGE_PRESETS: { id: RangePresetId; label: string; riskLevel?: number; widthPct?: number }[] = [
+  { id: "conservative", label: "Conservative ±20%", riskLevel: 1, widthPct: 0.2 },
+  { id: "balanced", label: "Balanced ±8%", riskLevel: 2, widthPct: 0.08 },
+  { id: "aggressive", label: "Aggressive ±2%", riskLevel: 3, widthPct: 0.02 },
+  { id: "full", label: "Full Range" },
+];
+
+const presetForRisk = (riskLevel: number | null): RangePresetId =>
+  RANGE_PRESETS.find((p) => p.riskLevel === riskLevel)?.id ?? "full";
+
+/**
+ * Estado del rango del depósito. Todas las entradas (preset, arrastre en el gráfico,
+ * inputs manuales) terminan en ticks alineados al tickSpacing de la pool.
+ */
+export function useRangePicker(riskLevel: number | null) {
+  const { pool } = useSelectedPool();
+  const { poolState } = usePoolState(pool.key);
+  const { tickSpacing, priceContext } = pool;
+
+  const [selected, setSelected] = useState<RangePresetId | null>(null);
+  // El rango manual queda ligado a su pool: en otra pool (otro spacing y precios) no aplica
+  const [custom, setCustom] = useState<{ poolId: string; range: TickRange } | null>(null);
+  const customRange = custom?.poolId === pool.id ? custom.range : null;
+
+  // Mientras el usuario no elija, seguimos el preset de su perfil de riesgo
+  const preset = selected ?? presetForRisk(riskLevel);
+
+  const range = useMemo<TickRange>(() => {
+    const full = { lower: minUsableTick(tickSpacing), upper: maxUsableTick(tickSpacing) };
+    if (preset === "custom") return customRange ?? full;
+
+    const widthPct = RANGE_PRESETS.find((p) => p.id === preset)?.widthPct;
+    if (!widthPct || !poolState) return full;
+    return getRangeAroundTick(poolState.tick, widthPct, tickSpacing);
+  }, [preset, customRange, poolState, tickSpacing]);
+
+  const priceRange = useMemo(
+    () => ticksToPriceRange(range.lower, range.upper, priceContext),
+    [range, priceContext],
+  );
+
+  const error = VaultLogic.validateTicks(range.lower, range.upper, tickSpacing);
+
+  const applyPreset = useCallback((id: RangePresetId) => setSelected(id), []);
+
+  /**
+   * Rango manual (inputs o banda del gráfico) en precio humano; se ajusta a la grilla.
+   */
+  const setPriceRange = useCallback(
+    (minPrice: number, maxPrice: number) => {
+      if (!(minPrice > 0) || !(maxPrice > 0)) return;
+      setCustom({ poolId: pool.id, range: priceRangeToTicks(minPrice, maxPrice, priceContext, tickSpacing) });
+      setSelected("custom");
+    },
+    [pool.id, priceContext, tickSpacing],
+  );
+
+  return {
+    preset,
+    range,
+    priceRange,
+    isFullRange: range.lower === minUsableTick(tickSpacing) && range.upper === maxUsableTick(tickSpacing),
+    error,
+    applyPreset,
+    setPriceRange,
+  };
+}
+
+export type RangePicker = ReturnType<typeof useRangePicker>;
@@ -0,0 +1,35 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { DEFAULT_POOL, POOLS, type PoolConfig, getPool } from "../config/pools";
+
+/**
+ * Pool activa compartida por tarjeta, gráfico, historial y agente (persistida en localStorage).
+ */
+const STORAGE_KEY = "enstable:pool";
+
+let selected: PoolConfig | null = null;
+const listeners = new Set<() => void>();
+
+const getSnapshot = () => {
+  if (!selected) {
+    selected = typeof window === "undefined" ? DEFAULT_POOL : getPool(window.localStorage.getItem(STORAGE_KEY));
+  }
+  return selected;
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const selectPool = (id: string) => {
+  selected = getPool(id);
+  window.localStorage.setItem(STORAGE_KEY, selected.id);
+  for (const listener of listeners) listener();
+};
+
+export function useSelectedPool() {
+  const pool = useSyncExternalStore(subscribe, getSnapshot, () => DEFAULT_POOL);
+  return { pool, pools: POOLS, selectPool };
+}
@@ -0,0 +1,118 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { useConfig } from "wagmi";
+import { waitForTransactionReceipt } from "wagmi/actions";
+import { type QueryClient, useQueryClient } from "@tanstack/react-query";
+import type { Address, Hash, TransactionReceipt } from "viem";
+import { activeChain, ensChain } from "../config/networks";
+import { type TrackedTx, TxStore } from "../logic/TxStore";
+import { formatContractError } from "../logic/ContractErrors";
+
+export const TX_CONFIRMATIONS = 1;
+// Si el receipt no aparece en este tiempo la tx probablemente fue reemplazada o descartada
+const RECEIPT_TIMEOUT_MS = 10 * 60 * 1000;
+
+type Config = ReturnType<typeof useConfig>;
+
+// Evita dos esperas del mismo hash (track + reanudación tras recarga)
+const inFlight = new Map<Hash, Promise<TransactionReceipt>>();
+// Errores que ya tienen su toast (revert / timeout de una tx con hash)
+const reported = new WeakSet<object>();
+
+/**
+ * Refresca las lecturas de wagmi (useReadContract) de los contratos afectados.
+ */
+const invalidateReads = (queryClient: QueryClient, affects: Address[]) => {
+  const targets = new Set(affects.map((a) => a.toLowerCase()));
+  return queryClient.invalidateQueries({
+    predicate: ({ queryKey }) => {
+      const params = queryKey[1] as { address?: string } | undefined;
+      return queryKey[0] === "readContract" && !!params?.address && targets.has(params.address.toLowerCase());
+    },
+  });
+};
+
+const watchTransaction = (config: Config, queryClient: QueryClient, tx: TrackedTx & { hash: Hash }) => {
+  const existing = inFlight.get(tx.hash);
+  if (existing) return existing;
+
+  const promise = waitForTransactionReceipt(config, {
+    hash: tx.hash,
+    chainId: tx.chainId as Config["chains"][number]["id"] | undefined,
+    confirmations: TX_CONFIRMATIONS,
+    timeout: RECEIPT_TIMEOUT_MS,
+  })
+    .then(async (receipt) => {
+      // wagmi lanza si el receipt es "reverted", así que aquí la tx se minó con éxito
+      TxStore.update(tx.id, { status: "confirmed", message: `Block ${receipt.blockNumber}` });
+      await invalidateReads(queryClient, tx.affects);
+      return receipt;
+    })
+    .catch((err) => {
+      TxStore.update(tx.id, { status: "failed", message: formatContractError(err) });
+      if (err && typeof err === "object") reported.add(err);
+      throw err;
+    })
+    .finally(() => inFlight.delete(tx.hash));
+
+  inFlight.set(tx.hash, promise);
+  return promise;
+};
+
+// undefined en redes sin explorer (anvil)
+export const getExplorerTxUrl = (hash: Hash, chainId: number = activeChain.id) => {
+  const chain = [activeChain, ensChain].find((c) => c.id === chainId) ?? activeChain;
+  return chain.blockExplorers ? `${chain.blockExplorers.default.url}/tx/${hash}` : undefined;
+};
+
+/**
+ * Tracker compartido: espera receipts, alimenta los toasts y refresca lecturas al confirmar.
+ */
+export function useTxTracker() {
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const transactions = useSyncExternalStore(TxStore.subscribe, TxStore.getSnapshot, TxStore.getServerSnapshot);
+
+  /**
+   * Registra un hash y espera su receipt. Lanza si la tx revierte.
+   */
+  const track = useCallback(
+    (hash: Hash, options: { label: string; affects?: Address[]; chainId?: number }) => {
+      const chainId = options.chainId ?? activeChain.id;
+      const affects = options.affects ?? [];
+      const id = TxStore.add({ hash, chainId, label: options.label, status: "pending", affects });
+      return watchTransaction(config, queryClient, {
+        id, hash, chainId, label: options.label, status: "pending", affects, createdAt: Date.now(),
+      });
+    },
+    [config, queryClient],
+  );
+
+  /**
+   * Errores antes de tener hash (rechazo en la wallet, simulación fallida, validaciones).
+   */
+  const notifyError = useCallback((label: string, err: unknown) => {
+    if (err && typeof err === "object" && reported.has(err)) return;
+    TxStore.add({ label, status: "failed", affects: [], message: formatContractError(err) });
+  }, []);
+
+  return { transactions, track, notifyError, dismiss: TxStore.dismiss };
+}
+
+/**
+ * Retoma la espera de las transacciones que quedaron pendientes antes de recargar.
+ * Se monta una sola vez (en TxToasts).
+ */
+export function useResumePendingTransactions() {
+  const config = useConfig();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    for (const tx of TxStore.getSnapshot()) {
+      if (tx.status === "pending" && tx.hash) {
+        watchTransaction(config, queryClient, { ...tx, hash: tx.hash }).catch(() => {});
+      }
+    }
+  }, [config, queryClient]);
+}
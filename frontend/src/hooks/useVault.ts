@@ -1,179 +1,179 @@
-"use client";
-
-import { useAccount, useReadContract, useWriteContract } from "wagmi";
-import { CONTRACTS, ABIS } from "../config/contracts";
-import { VaultLogic } from "../logic/VaultLogic";
-import { parseUnits, type Address } from "viem";
-import { useState } from "react";
-
-export function useVault() {
-  const { address } = useAccount();
-  const { writeContractAsync } = useWriteContract();
-  const [isApproving, setIsApproving] = useState(false);
-
-  // --- LECTURAS ---
-  const { data: balanceEETH, refetch: refetchEETH } = useReadContract({
-    address: CONTRACTS.EETH,
-    abi: ABIS.EETH,
-    functionName: "balanceOf",
-    args: address ? [address] : undefined,
-    query: { enabled: !!address }
-  });
-
-  const { data: balanceEUSD, refetch: refetchEUSD } = useReadContract({
-    address: CONTRACTS.EUSD,
-    abi: ABIS.EUSD,
-    functionName: "balanceOf",
-    args: address ? [address] : undefined,
-    query: { enabled: !!address }
-  });
-
-  const { data: allowanceEETH, refetch: refetchAllowEETH } = useReadContract({
-    address: CONTRACTS.EETH,
-    abi: ABIS.EETH,
-    functionName: "allowance",
-    args: address ? [address, CONTRACTS.VAULT] : undefined,
-    query: { enabled: !!address }
-  });
-
-  const { data: allowanceEUSD, refetch: refetchAllowEUSD } = useReadContract({
-    address: CONTRACTS.EUSD,
-    abi: ABIS.EUSD,
-    functionName: "allowance",
-    args: address ? [address, CONTRACTS.VAULT] : undefined,
-    query: { enabled: !!address }
-  });
-
-  const { data: position, refetch: refetchPosition } = useReadContract({
-    address: CONTRACTS.VAULT,
-    abi: ABIS.VAULT,
-    functionName: "getPosition",
-    args: address ? [address] : undefined,
-    query: { enabled: !!address }
-  });
-
-  const { data: ensNode } = useReadContract({
-    address: CONTRACTS.VAULT,
-    abi: ABIS.VAULT,
-    functionName: "userNodes", 
-    args: address ? [address] : undefined,
-    query: { enabled: !!address }
-  });
-
-  // --- ACCIONES ---
-
-  // 1. FAUCET: Ahora te da 1 Millón de EUSD para que nunca falte
-  const claimFaucet = async () => {
-    if (!address) return;
-    await writeContractAsync({
-      address: CONTRACTS.EETH,
-      abi: ABIS.EETH,
-      functionName: "mint",
-      args: [address, parseUnits("100", 18)],
-    });
-    return await writeContractAsync({
-      address: CONTRACTS.EUSD,
-      abi: ABIS.EUSD,
-      functionName: "mint",
-      args: [address, parseUnits("1000000", 18)], 
-    });
-  };
-
-  // 2. PERMISOS: Ejecuta esto si el depósito falla
-  const setupVaultPermissions = async () => {
-    await writeContractAsync({
-      address: CONTRACTS.VAULT,
-      abi: ABIS.VAULT,
-      functionName: "allowToken",
-      args: [CONTRACTS.EETH],
-    });
-    return await writeContractAsync({
-      address: CONTRACTS.VAULT,
-      abi: ABIS.VAULT,
-      functionName: "allowToken",
-      args: [CONTRACTS.EUSD],
-    });
-  };
-
-  // 3. APPROVE: Aprobación infinita
-  const approve = async (tokenAddress: Address, abi: any) => {
-    setIsApproving(true);
-    try {
-      return await writeContractAsync({
-        address: tokenAddress,
-        abi: abi,
-        functionName: "approve",
-        args: [CONTRACTS.VAULT, parseUnits("1000000000000", 18)],
-      });
-    } finally {
-      setIsApproving(false);
-    }
-  };
-
-  // 4. DEPOSIT: RANGOS FIJOS (Para evitar errores de precio/matemática)
-  const deposit = async (amount: string) => {
-    const bigAmount = parseUnits(amount, 18);
-    
-    // Forzamos orden de tokens
-    const tokens = [CONTRACTS.EETH, CONTRACTS.EUSD].sort();
-    
-    const poolKey = {
-      currency0: tokens[0] as Address,
-      currency1: tokens[1] as Address,
-      fee: 3000,
-      tickSpacing: 60,
-      hooks: CONTRACTS.HOOK
-    };
-
-    // Usamos Ticks manuales que cubren un rango gigante (Modo Emergencia)
-    // Esto hace que la pool siempre acepte el depósito
-    const lower = -887220; // Rango máximo inferior
-    const upper = 887220;  // Rango máximo superior
-
-    return await writeContractAsync({
-      address: CONTRACTS.VAULT,
-      abi: ABIS.VAULT,
-      functionName: "deposit",
-      args: [poolKey, bigAmount, lower, upper],
-    });
-  };
-
-  const withdraw = async () => {
-    const tokens = [CONTRACTS.EETH, CONTRACTS.EUSD].sort();
-    const poolKey = {
-      currency0: tokens[0],
-      currency1: tokens[1],
-      fee: 3000,
-      tickSpacing: 60,
-      hooks: CONTRACTS.HOOK
-    };
-    return await writeContractAsync({
-      address: CONTRACTS.VAULT,
-      abi: ABIS.VAULT,
-      functionName: "withdraw",
-      args: [poolKey, 0n], 
-    });
-  };
-
-  return {
-    balanceEETH: balanceEETH as bigint | undefined,
-    balanceEUSD: balanceEUSD as bigint | undefined,
-    allowanceEETH: allowanceEETH as bigint | undefined,
-    allowanceEUSD: allowanceEUSD as bigint | undefined,
-    stakedBalance: position ? (position as any).liquidity : 0n,
-    hasIdentity: !!ensNode && ensNode !== "0x0000000000000000000000000000000000000000000000000000000000000000",
-    isApproving,
-    claimFaucet,
-    setupVaultPermissions,
-    approve,
-    deposit,
-    withdraw,
-    refetchAll: () => {
-      refetchEETH();
-      refetchEUSD();
-      refetchAllowEETH();
-      refetchAllowEUSD();
-      refetchPosition();
-    }
-  };
+"use client";
+
+import { useAccount, useReadContract, useWriteContract } from "wagmi";
+import { CONTRACTS, vaultContract } from "../config/contracts";
+import { VaultLogic } from "../logic/VaultLogic";
+import { parseUnits } from "viem";
+import { useState } from "react";
+import { useTxTracker } from "./useTxTracker";
+import { useSelectedPool } from "./useSelectedPool";
+import type { TokenInfo } from "../config/pools";
+
+export function useVault() {
+  const { address } = useAccount();
+  const { writeContractAsync } = useWriteContract();
+  const { track } = useTxTracker();
+  const { pool } = useSelectedPool();
+  const { base, quote } = pool;
+  const [isApproving, setIsApproving] = useState(false);
+
+  // --- LECTURAS ---
+  const { data: balanceBase, refetch: refetchBase } = useReadContract({
+    address: base.address,
+    abi: base.abi,
+    functionName: "balanceOf",
+    args: address ? [address] : undefined,
+    query: { enabled: !!address }
+  });
+
+  const { data: balanceQuote, refetch: refetchQuote } = useReadContract({
+    address: quote.address,
+    abi: quote.abi,
+    functionName: "balanceOf",
+    args: address ? [address] : undefined,
+    query: { enabled: !!address }
+  });
+
+  const { data: allowanceBase, refetch: refetchAllowBase } = useReadContract({
+    address: base.address,
+    abi: base.abi,
+    functionName: "allowance",
+    args: address ? [address, CONTRACTS.VAULT] : undefined,
+    query: { enabled: !!address }
+  });
+
+  const { data: allowanceQuote, refetch: refetchAllowQuote } = useReadContract({
+    address: quote.address,
+    abi: quote.abi,
+    functionName: "allowance",
+    args: address ? [address, CONTRACTS.VAULT] : undefined,
+    query: { enabled: !!address }
+  });
+
+  const { data: position, refetch: refetchPosition } = useReadContract({
+    ...vaultContract,
+    functionName: "getPosition",
+    args: address ? [address] : undefined,
+    query: { enabled: !!address }
+  });
+
+  // Pool de la posición guardada: puede no ser la del selector
+  const { data: userPoolId, refetch: refetchUserPoolId } = useReadContract({
+    ...vaultContract,
+    functionName: "getUserPoolId",
+    args: address ? [address] : undefined,
+    query: { enabled: !!address }
+  });
+
+  const openPosition = VaultLogic.resolvePositionPool(position?.liquidity, userPoolId);
+
+  // --- ACCIONES ---
+
+  // Todas las acciones esperan el receipt: el tracker muestra el toast y refresca las lecturas
+  const VAULT_READS = [base.address, quote.address, CONTRACTS.VAULT, CONTRACTS.POOL_MANAGER];
+
+  // 1. FAUCET: mint de los dos tokens mock de la pool, uno tras otro
+  const claimFaucet = async () => {
+    if (!address) return;
+    let hash: `0x${string}` | undefined;
+    for (const token of [base, quote]) {
+      const amount = token.faucetAmount ?? "100";
+      hash = await writeContractAsync({
+        address: token.address,
+        abi: token.abi,
+        functionName: "mint",
+        args: [address, parseUnits(amount, token.decimals)],
+      });
+      await track(hash, { label: `Mint ${Number(amount).toLocaleString()} ${token.symbol}`, affects: [token.address] });
+    }
+    return hash;
+  };
+
+  // 2. PERMISOS: Ejecuta esto si el depósito falla
+  const setupVaultPermissions = async () => {
+    let hash: `0x${string}` | undefined;
+    for (const token of [base, quote]) {
+      hash = await writeContractAsync({
+        ...vaultContract,
+        functionName: "allowToken",
+        args: [token.address],
+      });
+      await track(hash, { label: `Allow ${token.symbol} in Vault`, affects: [CONTRACTS.VAULT] });
+    }
+    return hash;
+  };
+
+  // 3. APPROVE: Aprobación infinita
+  const approve = async (token: TokenInfo) => {
+    setIsApproving(true);
+    try {
+      const hash = await writeContractAsync({
+        address: token.address,
+        abi: token.abi,
+        functionName: "approve",
+        args: [CONTRACTS.VAULT, parseUnits("1000000000000", token.decimals)],
+      });
+      await track(hash, { label: `Approve ${token.symbol}`, affects: [token.address] });
+      return hash;
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  // 4. DEPOSIT: El Vault espera LIQUIDEZ (uint128), no cantidad de tokens.
+  // Usa LiquidityMath.previewDeposit para convertir el input del usuario.
+  const deposit = async (liquidity: bigint, lower: number, upper: number) => {
+    const blocked = VaultLogic.validateDepositPool(pool, openPosition);
+    if (blocked) throw new Error(blocked);
+    const hash = await writeContractAsync({
+      ...vaultContract,
+      functionName: "deposit",
+      args: [pool.key, liquidity, lower, upper],
+    });
+    await track(hash, { label: "Deposit to Vault", affects: VAULT_READS });
+    return hash;
+  };
+
+  // 5. WITHDRAW: liquidity = 0n retira todo (el Vault lo interpreta como retiro total).
+  // El PoolKey es el de la posición (getUserPoolId), no el de la pool seleccionada
+  const withdraw = async (liquidity: bigint = 0n) => {
+    if (!openPosition) throw new Error("No position to withdraw");
+    const positionPool = openPosition.pool;
+    if (!positionPool) throw new Error(`Your position is in pool ${openPosition.poolId}, which is not in the registry`);
+    const hash = await writeContractAsync({
+      ...vaultContract,
+      functionName: "withdraw",
+      args: [positionPool.key, liquidity],
+    });
+    await track(hash, {
+      label: liquidity === 0n ? "Withdraw everything" : "Partial withdrawal",
+      affects: [positionPool.base.address, positionPool.quote.address, CONTRACTS.VAULT, CONTRACTS.POOL_MANAGER],
+    });
+    return hash;
+  };
+
+  return {
+    pool,
+    balanceBase,
+    balanceQuote,
+    allowanceBase,
+    allowanceQuote,
+    position,
+    openPosition,
+    stakedBalance: position?.liquidity ?? 0n,
+    isApproving,
+    claimFaucet,
+    setupVaultPermissions,
+    approve,
+    deposit,
+    withdraw,
+    refetchAll: () => {
+      refetchBase();
+      refetchQuote();
+      refetchAllowBase();
+      refetchAllowQuote();
+      refetchPosition();
+      refetchUserPoolId();
+    }
+  };
 }
\ No newline at end of file
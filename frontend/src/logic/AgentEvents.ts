@@ -0,0 +1,121 @@
+import type { Hash } from "viem";
+import type { AgentSignal } from "../config/contracts";
+
+/**
+ * EVENTOS DEL AGENTE: registro tipado para auditar por qué el agente hizo lo que hizo.
+ * El timestamp se toma cuando ocurre el evento, no al renderizar.
+ */
+export type AgentEventLevel = "info" | "success" | "warn" | "error";
+
+export type AgentEventKind =
+  | "session"   // perfil, identidad y ciclo de vida del agente
+  | "diagnostics" // self-check de contratos y configuración al arrancar
+  | "price"     // fuente y lecturas de precio
+  | "stop"      // strategy_stop alcanzado
+  | "deviation" // disparo de la regla de rebalanceo
+  | "proof"     // storage proof de los records ENS
+  | "range"     // rango calculado a partir del tick de la pool
+  | "signal"    // AgentSignal enviado al hook
+  | "breaker"   // circuit breaker del hook (emergencia y recuperación)
+  | "scheduler" // descubrimiento de depositantes y cola de señales (daemon)
+  | "strategy"; // lectura/escritura de los text records
+
+export const AGENT_EVENT_LEVELS: AgentEventLevel[] = ["info", "success", "warn", "error"];
+export const AGENT_EVENT_KINDS: AgentEventKind[] = [
+  "session", "diagnostics", "price", "stop", "deviation", "proof", "range", "signal", "breaker", "scheduler", "strategy",
+];
+
+// IEnstableHook.AgentSignal tal como se envía (tipo derivado del ABI)
+export type AgentSignalPayload = AgentSignal;
+
+export type AgentEvent = {
+  id: string;
+  timestamp: number;
+  level: AgentEventLevel;
+  kind: AgentEventKind;
+  message: string;
+  txHash?: Hash;
+  signal?: AgentSignalPayload;
+  data?: Record<string, string | number | boolean | null>;
+};
+
+export type AgentEventSink = (event: AgentEvent) => void;
+
+let sequence = 0;
+
+export const createAgentEvent = (
+  level: AgentEventLevel,
+  kind: AgentEventKind,
+  message: string,
+  extra: Pick<AgentEvent, "txHash" | "signal" | "data"> = {},
+): AgentEvent => {
+  const timestamp = Date.now();
+  return { id: `${timestamp}-${sequence++}`, timestamp, level, kind, message, ...extra };
+};
+
+/**
+ * Eventos del daemon headless para un usuario, tal como los sirve api/agent/events desde su
+ * status.json. Los bigint de las señales llegan como string.
+ */
+export type DaemonEventFeed = {
+  running: boolean;
+  chainId: number;
+  updatedAt: number;
+  events: AgentEvent[];
+};
+
+/**
+ * Une los eventos de la sesión con los del daemon en orden temporal. Los ids del daemon
+ * vienen de otro proceso y se prefijan para que no choquen con los de la página.
+ */
+export const mergeAgentEvents = (session: AgentEvent[], daemon: AgentEvent[]) =>
+  [...session, ...daemon.map((event) => ({ ...event, id: `daemon-${event.id}` }))].sort(
+    (a, b) => a.timestamp - b.timestamp,
+  );
+
+export type AgentEventFilter = {
+  levels: AgentEventLevel[];
+  kinds: AgentEventKind[];
+  search: string;
+};
+
+export const filterAgentEvents = (events: AgentEvent[], { levels, kinds, search }: AgentEventFilter) => {
+  const query = search.trim().toLowerCase();
+  return events.filter(
+    (e) =>
+      levels.includes(e.level) &&
+      kinds.includes(e.kind) &&
+      (!query ||
+        e.message.toLowerCase().includes(query) ||
+        e.txHash?.toLowerCase().includes(query) ||
+        JSON.stringify(e.data ?? {}).toLowerCase().includes(query)),
+  );
+};
+
+// bigint no es serializable en JSON: los exportamos como string decimal
+const toPlain = (event: AgentEvent) => ({
+  ...event,
+  time: new Date(event.timestamp).toISOString(),
+  signal: event.signal
+    ? Object.fromEntries(Object.entries(event.signal).map(([k, v]) => [k, typeof v === "bigint" ? v.toString() : v]))
+    : undefined,
+});
+
+export const exportAgentEventsJson = (events: AgentEvent[]) => JSON.stringify(events.map(toPlain), null, 2);
+
+const CSV_COLUMNS = ["time", "level", "kind", "message", "txHash", "signal", "data"] as const;
+
+const csvCell = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const exportAgentEventsCsv = (events: AgentEvent[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...events.map((event) => {
+      const plain = toPlain(event);
+      return CSV_COLUMNS.map((column) => csvCell(plain[column])).join(",");
+    }),
+  ].join("\n");
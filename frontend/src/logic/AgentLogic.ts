@@ -3,122 +3,480 @@ import {
   createPublicClient, 
   http, 
   type Address, 
+  type Hash, 
   type Hex, 
+  type PublicClient, 
   encodeAbiParameters, 
   keccak256 
 } from "viem";
-import { privateKeyToAccount } from "viem/accounts";
-import { unichainSepolia } from "../config/chain";
-import { CONTRACTS, ABIS } from "../config/contracts";
-// Importarías la lógica de gateways de ENS
-// import { getStorageProof } from "@ensdomains/unruggable-gateways"; 
-
-const AGENT_PK = process.env.NEXT_PUBLIC_AGENT_PRIVATE_KEY as Hex;
-const agentAccount = privateKeyToAccount(AGENT_PK);
+import { ACTIVE_ENS, ACTIVE_NETWORK, activeChain, ensChain } from "../config/networks";
+import { type AgentSignal, hookContract, vaultContract } from "../config/contracts";
+import { type PriceSource, getConfiguredPriceSource } from "./PriceSource";
+import { DEFAULT_POOL, type PoolConfig } from "../config/pools";
+import type { StrategyRecords } from "./EnsStrategy";
+import { assertSignableNode } from "./Identity";
+import { formatContractError } from "./ContractErrors";
+import { type AgentEventKind, type AgentEventSink, createAgentEvent } from "./AgentEvents";
+import {
+  buildStrategyProof,
+  fetchTrustedStateRoot,
+  hashStrategyProof,
+  independentRootUrl,
+  proofMatchesStrategy,
+} from "./EnsProof";
+import { readEmergencyMode } from "./CircuitBreaker";
+import { runDiagnostics } from "./Diagnostics";
+import { readSignalRules, validateSignal } from "./SignalValidator";
+import type { AgentSigner } from "./AgentSigner";
+import type { TaskQueue } from "./TaskQueue";
+import { readPoolState } from "./PoolState";
+import {
+  type MarketSample,
+  type MarketState,
+  type PositionState,
+  getRebalanceStrategy,
+  pushMarketSample,
+} from "./RebalanceStrategy";
+import { type SwapPriceTracker, createSwapPriceTracker, estimateVolatility } from "./Volatility";
 
 const publicClient = createPublicClient({
-  chain: unichainSepolia,
-  transport: http(process.env.NEXT_PUBLIC_RPC_URL),
+  chain: activeChain,
+  transport: http(ACTIVE_NETWORK.rpcUrl),
 });
 
-const agentClient = createWalletClient({
-  account: agentAccount,
-  chain: unichainSepolia,
-  transport: http(process.env.NEXT_PUBLIC_RPC_URL),
+// Los records strategy_* viven en el resolver ENS (Sepolia, o el ENS local en anvil)
+const ENS_RPC_URL = ACTIVE_ENS.rpcUrl || (ensChain.rpcUrls.default.http[0] ?? "");
+const ensClient = createPublicClient({
+  chain: ensChain,
+  transport: http(ENS_RPC_URL),
 });
 
+// stateRoot de las storage proofs: de otro proveedor, para no creer al RPC que las construye.
+// En anvil el nodo es propio y hace de fuente de confianza.
+let trustedRootClient: PublicClient | undefined;
+const getTrustedRootClient = () => {
+  if (ACTIVE_ENS.selfHosted) return ensClient;
+  trustedRootClient ??= createPublicClient({
+    chain: ensChain,
+    transport: http(independentRootUrl(process.env.ENS_TRUSTED_RPC_URL, ENS_RPC_URL)),
+  });
+  return trustedRootClient;
+};
+
+// Recuperación del breaker: precio estable (< 1% entre lecturas) durante 2 loops seguidos
+const RECOVERY_MAX_DEVIATION = 0.01;
+const RECOVERY_CALM_LOOPS = 2;
+
+export type AgentOptions = {
+  user: Address;
+  ensNode: Hex; // Namehash (bytes32) del nombre primario, ver Identity.computeEnsNode
+  strategy: StrategyRecords; // Text records strategy_* del ENS del usuario
+  onEvent: AgentEventSink;
+  signer: AgentSigner; // Cuenta del agente (remota, keystore o clave de desarrollo)
+  pool?: PoolConfig; // Pool del registro sobre la que opera el agente
+  priceSource?: PriceSource; // Si no se pasa, se usa NEXT_PUBLIC_PRICE_SOURCE
+  intervalMs?: number;
+  // Cola compartida de envíos (DepositorScheduler): con ella cada señal espera su receipt
+  // antes de liberar el turno, así varios usuarios comparten el nonce del agente
+  sendQueue?: TaskQueue;
+  // Cola compartida de lecturas (DepositorScheduler): la fase de lectura de cada iteración
+  // ocupa un hueco y lo libera antes de esperar turno en sendQueue
+  readQueue?: TaskQueue;
+  // Swaps de la pool para la volatilidad; el scheduler comparte uno por pool
+  swapTracker?: SwapPriceTracker;
+  // Firmar aunque el Vault no guarde el nodo del usuario (ver Identity.SignPolicy)
+  allowUnverifiedNode?: boolean;
+};
+
+export type AgentStatus = {
+  running: boolean;
+  lastLoopAt: number | null;
+  lastPrice: number;
+  lastSignalAt: number | null;
+  lastSignalHash: Hash | null;
+  signalsSent: number;
+  lastError: string | null;
+  strategy: string; // Id de la RebalanceStrategy del perfil
+  volatility: number | null; // Anualizada (fracción), la que viaja en la última señal
+};
+
+// Loop de 30 segundos
+export const AGENT_LOOP_INTERVAL = 30_000;
+
 /**
- * LÓGICA DE TICKS: Alineada con el TickSpacing 60 del Hook
+ * Self-check antes del primer loop: con contratos mal configurados no se firma nada.
  */
-const getTicks = (price: number, deviationPct: number) => {
-  const tickSpacing = 60;
-  const currentTick = Math.floor(Math.log(price) / Math.log(1.0001));
-  
-  // Calculamos el rango basado en la desviación (ej. 2% = 0.02)
-  const tickDelta = Math.floor(Math.log(1 + deviationPct) / Math.log(1.0001));
-  
-  return {
-    lower: Math.floor((currentTick - tickDelta) / tickSpacing) * tickSpacing,
-    upper: Math.floor((currentTick + tickDelta) / tickSpacing) * tickSpacing
-  };
+export const runAgentSelfCheck = async (signer: AgentSigner, onEvent: AgentEventSink) => {
+  const emit = (...args: Parameters<typeof createAgentEvent>) => onEvent(createAgentEvent(...args));
+  const agent = signer.account.address;
+  emit("info", "session", `Agent signer: ${signer.kind} (${agent}).`, { data: { signer: signer.kind } });
+  try {
+    getTrustedRootClient();
+  } catch (err) {
+    emit("error", "diagnostics", `Agent not started: ${formatContractError(err)}`);
+    return false;
+  }
+  try {
+    const report = await runDiagnostics(publicClient, { agent });
+    for (const check of report.checks.filter((c) => c.status !== "ok")) {
+      emit(check.status === "error" ? "error" : "warn", "diagnostics", `${check.label}: ${check.detail}`, {
+        data: { check: check.id },
+      });
+    }
+    if (report.errors > 0) {
+      emit("error", "diagnostics", `Agent not started: ${report.errors} configuration error(s) on ${report.network}.`);
+      return false;
+    }
+    emit("success", "diagnostics", `Configuration check passed on ${report.network}.`, {
+      data: { warnings: report.warnings },
+    });
+    return true;
+  } catch (err) {
+    emit("error", "diagnostics", formatContractError(err));
+    return false;
+  }
 };
 
-export const startAgentMonitoring = (
-  userAddress: Address,
-  ensNode: Hex, // El nodehash real del ENS del usuario
-  onLog: (m: string) => void,
-  riskLevel: number 
-) => {
-  let isRunning = true;
+/**
+ * Agente de un usuario, sin depender de React. Solo lo arranca el daemon headless
+ * (agent/cli.ts), el único proceso con el firmante; la página es de solo lectura.
+ *
+ * - start():   self-check y loop cada intervalMs hasta stop().
+ * - runOnce(): self-check y una sola iteración (modo one-shot).
+ * - tick():    una iteración, sin self-check (DepositorScheduler).
+ * - stop():    corta el loop y espera a que termine la iteración en curso.
+ */
+export const createAgent = ({
+  user: userAddress,
+  ensNode,
+  strategy,
+  onEvent,
+  signer,
+  pool = DEFAULT_POOL,
+  priceSource,
+  intervalMs = AGENT_LOOP_INTERVAL,
+  sendQueue,
+  readQueue,
+  swapTracker = createSwapPriceTracker(publicClient, pool),
+  allowUnverifiedNode = false,
+}: AgentOptions) => {
+  const agentAccount = signer.account;
+  const agentClient = createWalletClient({
+    account: agentAccount,
+    chain: activeChain,
+    transport: http(ACTIVE_NETWORK.rpcUrl),
+  });
+
+  // strategy_kind elige cuándo y a qué rango se rebalancea (RebalanceStrategy)
+  const rebalanceStrategy = getRebalanceStrategy(strategy);
+  const history: MarketSample[] = [];
+
+  let isRunning = false;
   let lastPrice = 0;
+  let source = priceSource;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> | null = null;
+  const status: Omit<AgentStatus, "running" | "lastPrice"> = {
+    lastLoopAt: null,
+    lastSignalAt: null,
+    lastSignalHash: null,
+    signalsSent: 0,
+    lastError: null,
+    strategy: rebalanceStrategy.id,
+    volatility: null,
+  };
 
-  const runLoop = async () => {
-    if (!isRunning) return;
+  const emit = (...args: Parameters<typeof createAgentEvent>) => onEvent(createAgentEvent(...args));
+
+  // PoolKey del registro (currencies ya ordenadas)
+  const poolKey = pool.key;
+
+  // Etapa en curso: si algo falla, el error queda asociado a ella
+  let stage: AgentEventKind = "price";
+  // Lecturas consecutivas con precio estable mientras el breaker está activo
+  let calmLoops = 0;
+
+  type SignalPurpose = "rebalance" | "recovery";
+  // Lo que deja la fase de lectura: señal propuesta y hash de la prueba ENS
+  type PreparedSignal = { signal: AgentSignal; purpose: SignalPurpose; price: number; proofHash: Hex };
+
+  const readPhase = <T>(job: () => Promise<T>) => (readQueue ? readQueue.run(job) : job());
+
+  /**
+   * Swaps recientes de la pool; si los logs fallan la volatilidad sale solo del feed.
+   */
+  const readSwaps = async () => {
+    try {
+      return await swapTracker.update();
+    } catch (err) {
+      emit("warn", "price", `Pool swaps unavailable for volatility: ${formatContractError(err)}`);
+      return null;
+    }
+  };
+
+  /**
+   * Tick real de la pool, volatilidad y rango vigente en el Vault: lo que recibe la estrategia.
+   */
+  const readMarket = async (currentPrice: number): Promise<[MarketState, PositionState]> => {
+    const [{ tick }, position, swaps] = await Promise.all([
+      readPoolState(publicClient, poolKey),
+      publicClient.readContract({ ...vaultContract, functionName: "getPosition", args: [userAddress] }),
+      readSwaps(),
+    ]);
+    pushMarketSample(history, { time: Date.now(), price: currentPrice, tick });
+    const volatility = estimateVolatility(history, swaps);
+    status.volatility = volatility.value;
+    return [
+      {
+        price: currentPrice,
+        currentTick: tick,
+        tickSpacing: poolKey.tickSpacing,
+        history,
+        volatility: volatility.value,
+        timestamp: BigInt(Math.floor(Date.now() / 1000)),
+      },
+      {
+        range: position.liquidity > 0n ? { lower: position.tickLower, upper: position.tickUpper } : null,
+        liquidity: position.liquidity,
+        lastSignalPrice: lastPrice,
+      },
+    ];
+  };
+
+  /**
+   * Prueba que los records del resolver son la estrategia con la que opera el agente.
+   * Devuelve el hash que viaja al final del calldata.
+   */
+  const proveStrategy = async () => {
+    // 3. GENERACIÓN DE STORAGE PROOF (ENSv2)
+    stage = "proof";
+    const storageProof = await buildStrategyProof(ensClient, ensNode);
+    // El stateRoot de confianza sale del header del bloque en otro RPC, no de la prueba
+    const trustedStateRoot = await fetchTrustedStateRoot(getTrustedRootClient(), storageProof.blockNumber);
+    if (!proofMatchesStrategy(storageProof, strategy, trustedStateRoot)) {
+      throw new Error("ENS strategy records changed: the proof does not match the agent strategy");
+    }
+    const proofHash = hashStrategyProof(storageProof);
+    emit("success", "proof", `ENS strategy records proven at block ${storageProof.blockNumber}.`, {
+      data: { proofHash, blockNumber: storageProof.blockNumber.toString(), resolver: storageProof.resolver },
+    });
+    return proofHash;
+  };
+
+  /**
+   * Envía al hook la señal ya probada. Una señal con riskLevel < 50 también desactiva el
+   * circuit breaker (auto-recovery).
+   */
+  const sendSignal = async ({ signal, purpose, proofHash }: PreparedSignal) => {
+    if (sendQueue) {
+      emit("info", "scheduler", `Signal queued (${sendQueue.size()} ahead).`, { data: { purpose } });
+      await sendQueue.run(() => submitSignal(signal, purpose, proofHash));
+    } else {
+      await submitSignal(signal, purpose, proofHash);
+    }
+  };
 
+  /**
+   * Validación, simulación y envío. Con cola va dentro del turno: las reglas del hook se
+   * leen justo antes de firmar, no cuando se encoló la señal.
+   */
+  const submitSignal = async (proposed: AgentSignal, purpose: SignalPurpose, proofHash: Hex) => {
+    // 4. PREPARACIÓN DE STRUCTS (rango de la estrategia contra el tick actual de la pool)
+    stage = "range";
+    const rules = await readSignalRules(publicClient, poolKey, userAddress);
+    const { recommendedLower: lower, recommendedUpper: upper } = proposed;
+    emit("info", "range", `Pool tick ${rules.currentTick} → range [${lower}, ${upper}] (${rebalanceStrategy.label}).`, {
+      data: { tick: rules.currentTick, lower, upper, strategy: rebalanceStrategy.id },
+    });
+
+    // Mismas reglas que processAgentSignal: ajustamos lo corregible y no enviamos lo que fallaría
+    const validation = validateSignal(proposed, rules);
+    if (!validation.ok) {
+      emit("warn", "signal", `Signal dropped before sending: ${validation.message}`, { data: { reason: validation.reason } });
+      return;
+    }
+    for (const adjustment of validation.adjustments) {
+      emit("info", "signal", `Signal adjusted: ${adjustment}.`);
+    }
+    const { signal } = validation;
+
+    // 5. EJECUCIÓN CON LLAVE DEL AGENTE
+    // Nunca firmamos para un nodo que no coincide con el que guarda el Vault
+    stage = purpose === "recovery" ? "breaker" : "signal";
+    await assertSignableNode(publicClient, userAddress, ensNode, { allowUnverifiedNode });
+
+    emit("info", stage, `Simulating processAgentSignal (${purpose}).`, { signal });
+
+    const { request } = await publicClient.simulateContract({
+      ...hookContract,
+      functionName: "processAgentSignal",
+      args: [poolKey, userAddress, signal],
+      account: agentAccount,
+      // AgentSignal no tiene campo para la prueba: su hash viaja al final del calldata
+      dataSuffix: proofHash,
+    });
+
+    const hash = await agentClient.writeContract(request);
+    if (sendQueue) {
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") throw new Error(`processAgentSignal reverted in ${hash}`);
+    }
+    status.lastSignalAt = Date.now();
+    status.lastSignalHash = hash;
+    status.signalsSent++;
+    emit(
+      "success",
+      stage,
+      purpose === "recovery" ? "Recovery signal sent: the circuit breaker should clear." : "Rebalance signal sent.",
+      { txHash: hash, signal, data: { proofHash } },
+    );
+  };
+
+  /**
+   * Con el breaker activo no rebalanceamos por desviación: esperamos precio estable
+   * y enviamos a propósito una señal de recuperación (riesgo del perfil, siempre < 50).
+   */
+  const handleEmergency = async (currentPrice: number): Promise<AgentSignal | null> => {
+    const move = lastPrice === 0 ? 1 : Math.abs((currentPrice - lastPrice) / lastPrice);
+    calmLoops = move < RECOVERY_MAX_DEVIATION ? calmLoops + 1 : 0;
+
+    if (calmLoops < RECOVERY_CALM_LOOPS) {
+      emit("warn", "breaker", `Circuit breaker active. Waiting for a stable price (${calmLoops}/${RECOVERY_CALM_LOOPS}).`, {
+        data: { price: currentPrice, move },
+      });
+      return null;
+    }
+
+    const [market, position] = await readMarket(currentPrice);
+    calmLoops = 0;
+    return rebalanceStrategy.evaluate(market, position, { profile: strategy, ensNode, purpose: "recovery" });
+  };
+
+  /**
+   * Señal que toca enviar según precio, strategy_stop, circuit breaker y estrategia de
+   * rebalanceo, o null. Solo lee: no firma nada.
+   */
+  const proposeSignal = async (): Promise<Omit<PreparedSignal, "proofHash"> | null> => {
+    // 1. MONITOR DE PRECIO (fuente configurable: pool v4, CEX, mediana o replay)
+    if (!source) {
+      source = await getConfiguredPriceSource(publicClient, pool);
+      emit("info", "price", `Price source: ${source.label}`, { data: { source: source.id } });
+    }
+    const currentPrice = await source.getPrice();
+
+    // strategy_stop: por debajo de este precio el usuario no quiere que se mueva su liquidez
+    if (strategy.stopPrice && currentPrice <= strategy.stopPrice) {
+      emit("warn", "stop", `Price ${currentPrice.toFixed(2)} is at or below strategy_stop (${strategy.stopPrice}). Rebalancing paused.`, {
+        data: { price: currentPrice, stopPrice: strategy.stopPrice },
+      });
+      return null;
+    }
+
+    // 2. CIRCUIT BREAKER: en modo emergencia solo se envían señales de recuperación
+    stage = "breaker";
+    if (await readEmergencyMode(publicClient)) {
+      const signal = await handleEmergency(currentPrice);
+      lastPrice = currentPrice;
+      return signal && { signal, purpose: "recovery", price: currentPrice };
+    }
+    calmLoops = 0;
+
+    // REGLA DE ACTIVACIÓN: la decide la estrategia del perfil
+    stage = "deviation";
+    const [market, position] = await readMarket(currentPrice);
+
+    // El usuario pudo retirar desde el último refresco del scheduler: no hay nada que mover
+    if (!position.range) {
+      emit("info", "deviation", "No liquidity in the vault: nothing to rebalance.");
+      return null;
+    }
+    // Sin precio de referencia la primera lectura cuenta como una desviación del 100%:
+    // antes de la primera señal hacen falta precio base y ventana de volatilidad
+    if (lastPrice === 0 || market.volatility === null) {
+      if (lastPrice === 0) lastPrice = currentPrice;
+      emit("info", "deviation", `Collecting a baseline before the first signal (price ${lastPrice.toFixed(2)}, ${history.length} samples).`, {
+        data: { price: currentPrice, baseline: lastPrice, samples: history.length },
+      });
+      return null;
+    }
+
+    const signal = rebalanceStrategy.evaluate(market, position, { profile: strategy, ensNode, purpose: "rebalance" });
+    if (!signal) return null;
+    emit("info", "deviation", `${rebalanceStrategy.label} strategy requests a rebalance at ${currentPrice.toFixed(2)}.`, {
+      data: {
+        price: currentPrice,
+        lastPrice,
+        tick: market.currentTick,
+        volatility: market.volatility,
+        strategy: rebalanceStrategy.id,
+      },
+    });
+    return { signal, purpose: "rebalance", price: currentPrice };
+  };
+
+  /**
+   * Una iteración en dos fases: lecturas (propuesta y prueba ENS) y envío. Con el
+   * scheduler, la primera ocupa un hueco de readQueue y la segunda espera en sendQueue.
+   */
+  const runIteration = async () => {
+    stage = "price";
+    status.lastLoopAt = Date.now();
     try {
-      // 1. MONITOR DE PRECIO (Binance o Unichain Pool directamente)
-      const res = await fetch("https://api.binance.com/api/v3/ticker/price?symbol=ETHUSDC");
-      const { price: priceStr } = await res.json();
-      const currentPrice = parseFloat(priceStr);
-
-      // 2. REGLA DE ACTIVACIÓN: Desviación > 2%
-      const deviation = lastPrice === 0 ? 1 : Math.abs((currentPrice - lastPrice) / lastPrice);
-      
-      if (deviation > 0.02) {
-        onLog(`[Agent]: 📉 Desviación del ${(deviation * 100).toFixed(2)}% detectada.`);
-
-        // 3. GENERACIÓN DE STORAGE PROOF (ENSv2)
-        // Aquí es donde usarías @ensdomains/unruggable-gateways
-        // Simulamos el objeto de prueba que pide el gateway
-        const storageProof = "0x..." as Hex; 
-
-        // 4. PREPARACIÓN DE STRUCTS
-        const { lower, upper } = getTicks(currentPrice, riskLevel === 3 ? 0.005 : 0.02);
-
-        const signal = {
-          currentPrice: BigInt(Math.floor(currentPrice * 1e18)),
-          volatility: BigInt(riskLevel * 25), // Mock de volatilidad
-          recommendedLower: lower,
-          recommendedUpper: upper,
-          riskLevel: BigInt(riskLevel),
-          ensNode: ensNode,
-          timestamp: BigInt(Math.floor(Date.now() / 1000)),
-        };
-
-        // IMPORTANTE: Ordenar currencies para el PoolKey
-        const [c0, c1] = [CONTRACTS.EETH, CONTRACTS.EUSD].sort();
-
-        const poolKey = {
-          currency0: c0 as Address,
-          currency1: c1 as Address,
-          fee: 3000,
-          tickSpacing: 60,
-          hooks: CONTRACTS.HOOK
-        };
-
-        // 5. EJECUCIÓN CON LLAVE DEL AGENTE
-        onLog(`[Agent]: 🚀 Inyectando Rebalanceo...`);
-        
-        const { request } = await publicClient.simulateContract({
-          address: CONTRACTS.HOOK,
-          abi: ABIS.HOOK,
-          functionName: "processAgentSignal",
-          args: [poolKey, userAddress, signal],
-          account: agentAccount,
-        });
-
-        const hash = await agentClient.writeContract(request);
-        onLog(`[Agent]: ✅ Transacción enviada: ${hash.slice(0, 10)}`);
-        
-        lastPrice = currentPrice;
+      const prepared = await readPhase(async () => {
+        const proposed = await proposeSignal();
+        return proposed && { ...proposed, proofHash: await proveStrategy() };
+      });
+      if (prepared) {
+        await sendSignal(prepared);
+        if (prepared.purpose === "rebalance") lastPrice = prepared.price;
       }
-    } catch (err: any) {
-      onLog(`[Agent Error]: ${err.message || "Falla en el loop"}`);
+      status.lastError = null;
+    } catch (err) {
+      // Reverts del hook/vault decodificados con los ABIs (StaleSignal, InvalidRangeProposed, ...)
+      status.lastError = formatContractError(err);
+      emit("error", stage, status.lastError);
     }
+  };
+
+  const runLoop = async () => {
+    if (!isRunning) return;
+    inFlight = runIteration();
+    await inFlight;
+    inFlight = null;
+    if (isRunning) timer = setTimeout(runLoop, intervalMs);
+  };
 
-    if (isRunning) setTimeout(runLoop, 30000); // Loop de 30 segundos
+  const checkConfiguration = () => {
+    stage = "diagnostics";
+    return runAgentSelfCheck(signer, onEvent);
   };
 
-  runLoop();
-  return () => { isRunning = false; };
-};
\ No newline at end of file
+  return {
+    start: async () => {
+      if (isRunning) return;
+      isRunning = true;
+      if (await checkConfiguration()) runLoop();
+      else isRunning = false;
+    },
+    runOnce: async () => {
+      if (!(await checkConfiguration())) return false;
+      await runIteration();
+      return status.lastError === null;
+    },
+    // Una iteración sin self-check: el scheduler lo pasa una vez para todos los usuarios
+    tick: async () => {
+      inFlight = runIteration();
+      await inFlight;
+      inFlight = null;
+      return status.lastError === null;
+    },
+    stop: async () => {
+      isRunning = false;
+      clearTimeout(timer);
+      await inFlight;
+    },
+    getStatus: (): AgentStatus => ({ ...status, running: isRunning, lastPrice }),
+  };
+};
+
+export type Agent = ReturnType<typeof createAgent>;
@@ -0,0 +1,20 @@
+import type { LocalAccount } from "viem";
+
+/**
+ * FIRMANTE DEL AGENTE: la única cuenta en la que confía EnstableHook.onlyAgent.
+ *
+ * - "remote":   un servicio JSON-RPC (Web3Signer, Clef, o anvil como doble local) que
+ *               firma con eth_signTransaction; la clave nunca sale de ese proceso.
+ * - "keystore": keystore JSON cifrado.
+ * - "dev-key":  clave en claro, solo para anvil.
+ *
+ * Aquí solo está el tipo que recibe createAgent. Los tres backends viven en
+ * agent/signers.ts y solo los carga el daemon: quien pueda usar el firmante (su URL
+ * incluida) firma como el agente, así que nada de esto llega al navegador.
+ */
+export type AgentSignerKind = "remote" | "keystore" | "dev-key";
+
+export type AgentSigner = {
+  kind: AgentSignerKind;
+  account: LocalAccount;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { type Candle, defaultBacktestStrategies, parseCandles, runBacktest } from "./Backtest";
+
+const candle = (minute: number, price: number, volume = 0): Candle => ({
+  time: minute * 60_000,
+  open: price,
+  high: price,
+  low: price,
+  close: price,
+  volume,
+});
+
+const byId = (report: ReturnType<typeof runBacktest>, id: string) => report.results.find((r) => r.id === id);
+const strategies = defaultBacktestStrategies(null, ["fixed"]);
+
+describe("runBacktest", () => {
+  test("a flat market without volume keeps every strategy at the starting capital", () => {
+    const report = runBacktest(Array.from({ length: 10 }, (_, i) => candle(i, 2_000)), strategies);
+    expect(report.hodl).toEqual({ finalValue: 10_000, pnl: 0, pnlPct: 0 });
+    for (const result of report.results) {
+      expect(result.finalValue).toBeCloseTo(10_000, 2);
+      expect(result.rebalances).toBe(0);
+      expect(result.timeInRange).toBe(1);
+    }
+  });
+
+  test("full range pays the textbook impermanent loss when the price doubles", () => {
+    const report = runBacktest(Array.from({ length: 11 }, (_, i) => candle(i, 2_000 * 2 ** (i / 10))), strategies);
+    // HODL 50/50: 2,5 ETH a 4000 + 5000 USD
+    expect(report.hodl.finalValue).toBeCloseTo(15_000, 6);
+    // Una posición x·y=k vale capital·√2 cuando el precio se duplica
+    const fullRange = byId(report, "full-range");
+    expect(fullRange?.finalValue).toBeCloseTo(10_000 * Math.SQRT2, 0);
+    expect(fullRange?.vsHodl).toBeLessThan(0);
+    expect(fullRange?.vsFullRange).toBe(0);
+    // Un rango estrecho queda todo en USD fuera del rango y pierde más que el full range
+    expect(byId(report, "static-r2")?.finalValue).toBeLessThan(fullRange?.finalValue ?? 0);
+  });
+
+  test("the agent follows a trend, paying gas per rebalance, and stays in range longer than a static range", () => {
+    const report = runBacktest(Array.from({ length: 30 }, (_, i) => candle(i, 2_000 * 1.01 ** i)), strategies);
+    const agent = byId(report, "fixed-r2");
+    const fixed = byId(report, "static-r2");
+    expect(agent?.rebalances).toBeGreaterThan(0);
+    expect(agent?.gasPaid).toBeCloseTo((agent?.rebalances ?? 0) * 0.05, 9);
+    expect(agent?.droppedSignals).toBe(0);
+    expect(fixed?.rebalances).toBe(0);
+    expect(agent?.timeInRange).toBeGreaterThan(fixed?.timeInRange ?? 1);
+  });
+
+  test("fees grow with volume and with the share of the pool", () => {
+    const candles = Array.from({ length: 10 }, (_, i) => candle(i, 2_000, 100));
+    const report = runBacktest(candles, strategies);
+    const fullRange = byId(report, "full-range");
+    expect(fullRange?.feesEarned).toBeGreaterThan(0);
+    // Un rango concentrado tiene más liquidez con el mismo capital y se queda más fees
+    expect(byId(report, "static-r2")?.feesEarned).toBeGreaterThan(fullRange?.feesEarned ?? 0);
+    expect(byId(runBacktest(candles, strategies, { poolTvl: 10_000_000 }), "full-range")?.feesEarned).toBeLessThan(
+      fullRange?.feesEarned ?? 0,
+    );
+  });
+
+  test("needs at least two valid candles", () => {
+    expect(() => runBacktest([candle(0, 2_000)], strategies)).toThrow("at least two candles");
+    expect(() => runBacktest([candle(0, 2_000), candle(1, 0)], strategies)).toThrow("at least two candles");
+  });
+});
+
+describe("parseCandles", () => {
+  test("reads Binance klines and replay points", () => {
+    expect(parseCandles([[60_000, "1", "3", "0.5", "2", "7"]])).toEqual([
+      { time: 60_000, open: 1, high: 3, low: 0.5, close: 2, volume: 7 },
+    ]);
+    expect(parseCandles([{ time: 60_000, price: "2" }])).toEqual([candle(1, 2)]);
+    expect(() => parseCandles({})).toThrow("expected an array");
+  });
+});
@@ -0,0 +1,446 @@
+import type { AgentSignal } from "../config/contracts";
+import type { StrategyRecords } from "./EnsStrategy";
+import { getAmountsForLiquidity, getLiquidityForAmounts } from "./LiquidityMath";
+import {
+  type MarketSample,
+  REBALANCE_STRATEGY_IDS,
+  type RebalanceStrategyId,
+  getRangeWidth,
+  getRebalanceStrategy,
+  pushMarketSample,
+} from "./RebalanceStrategy";
+import { MAX_TICK_DEVIATION, type SignalRules, positionIdFor, validateSignal } from "./SignalValidator";
+import {
+  type PriceContext,
+  getRangeAroundTick,
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  maxUsableTick,
+  minUsableTick,
+  priceToSqrtPriceX96,
+  tickToPrice,
+} from "./TickMath";
+import { estimateVolatility } from "./Volatility";
+
+/**
+ * BACKTESTER OFFLINE de la estrategia del agente sobre velas históricas.
+ *
+ * Modelo (una decisión por vela, al cierre):
+ * - Posición de liquidez concentrada con la matemática de v4 (TickMath / LiquidityMath),
+ *   base = token0 y ambos tokens con 18 decimales.
+ * - Regla del agente: la RebalanceStrategy del perfil (strategy_kind) decide con las velas
+ *   como historial de mercado (la volatilidad sale solo de ellas, sin swaps de la pool), y
+ *   las reglas del hook filtran la señal (validateSignal: tickSpacing, ±2000 ticks, rango
+ *   repetido = señal ignorada). El rango inicial es ±getRangeWidth alrededor del tick.
+ * - Comisiones: fee × volumen de la vela × fracción del volumen que pasa por la pool ×
+ *   cuota de liquidez activa. El resto de la pool se modela como una posición full range
+ *   de `poolTvl`; solo cobra la parte de la vela (high-low) que cae dentro del rango.
+ * - Cada rebalanceo paga gas y la fee de swap sobre lo que hay que cambiar de token.
+ * - Entrada sin coste para todas las estrategias (se parte de la proporción ideal).
+ */
+export type Candle = {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Volumen en token base (como las klines de Binance)
+  volume: number;
+};
+
+export type BacktestStrategyKind = "agent" | "static" | "full-range";
+
+export type BacktestStrategy = {
+  id: string;
+  label: string;
+  kind: BacktestStrategyKind;
+  strategy: StrategyRecords;
+};
+
+export type BacktestOptions = {
+  capital: number; // En token cotizado (ej. USD)
+  feePips: number; // 3000 = 0.3%
+  tickSpacing: number;
+  gasPerRebalance: number; // En token cotizado
+  poolTvl: number; // Liquidez del resto de la pool, como full range
+  volumeShare: number; // Fracción del volumen de la vela que se negocia en la pool
+};
+
+export type BacktestResult = {
+  id: string;
+  label: string;
+  finalValue: number;
+  pnl: number;
+  pnlPct: number;
+  // Diferencia contra HODL y contra full range (en token cotizado)
+  vsHodl: number;
+  vsFullRange: number;
+  feesEarned: number;
+  gasPaid: number;
+  swapCosts: number;
+  // Pérdida por divergencia de la posición LP respecto a HODL (sin fees ni costes)
+  impermanentLoss: number;
+  rebalances: number;
+  // Señales que el hook habría ignorado o rechazado
+  droppedSignals: number;
+  timeInRange: number;
+};
+
+export type BacktestReport = {
+  candles: number;
+  from: number;
+  to: number;
+  startPrice: number;
+  endPrice: number;
+  options: BacktestOptions;
+  hodl: { finalValue: number; pnl: number; pnlPct: number };
+  results: BacktestResult[];
+};
+
+export const DEFAULT_BACKTEST_OPTIONS: BacktestOptions = {
+  capital: 10_000,
+  feePips: 3000,
+  tickSpacing: 60,
+  gasPerRebalance: 0.05,
+  poolTvl: 1_000_000,
+  volumeShare: 0.01,
+};
+
+const CONTEXT: PriceContext = { baseIsToken0: true, decimals0: 18, decimals1: 18 };
+const WAD = 10n ** 18n;
+const toWad = (value: number) => BigInt(Math.floor(value * 1e18));
+const fromWad = (value: bigint) => Number(value) / 1e18;
+
+// --- PARSEO DE VELAS ---
+
+// Los CSV de data.binance.vision usan microsegundos desde 2025
+const normalizeTime = (time: number) => (time > 1e14 ? Math.floor(time / 1000) : time);
+
+const fromRow = (row: unknown[]): Candle => ({
+  time: normalizeTime(Number(row[0])),
+  open: Number(row[1]),
+  high: Number(row[2]),
+  low: Number(row[3]),
+  close: Number(row[4]),
+  volume: Number(row[5] ?? 0),
+});
+
+/**
+ * Velas desde JSON: klines de Binance ([openTime, open, high, low, close, volume, ...],
+ * el formato que pide PriceChart) o { time, price } (replay), sin volumen.
+ */
+export const parseCandles = (data: unknown): Candle[] => {
+  if (!Array.isArray(data)) throw new Error("Invalid kline format: expected an array");
+  return data.map((row) => {
+    if (Array.isArray(row)) return fromRow(row);
+    const { time, price } = row as { time: number | string; price: number | string };
+    const value = Number(price);
+    return { time: normalizeTime(Number(time)), open: value, high: value, low: value, close: value, volume: 0 };
+  });
+};
+
+/**
+ * Velas desde CSV con las columnas de las klines de Binance (cabecera opcional).
+ */
+export const parseCandlesCsv = (text: string): Candle[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && /^\d/.test(line))
+    .map((line) => fromRow(line.split(",")));
+
+// --- POSICIÓN ---
+
+type Position = { lower: number; upper: number; liquidity: bigint; sqrtLower: bigint; sqrtUpper: bigint };
+
+const amountsOf = (position: Position, sqrtPrice: bigint) =>
+  getAmountsForLiquidity(sqrtPrice, position.sqrtLower, position.sqrtUpper, position.liquidity);
+
+const quoteValue = ({ amount0, amount1 }: { amount0: bigint; amount1: bigint }, price: number) =>
+  fromWad(amount0) * price + fromWad(amount1);
+
+/**
+ * Liquidez que se acuña con `value` (en cotizado) en [lower, upper] al precio actual,
+ * repartiendo el capital en la proporción que pide el rango.
+ */
+const mint = (lower: number, upper: number, value: number, price: number, sqrtPrice: bigint): Position => {
+  const sqrtLower = getSqrtPriceAtTick(lower);
+  const sqrtUpper = getSqrtPriceAtTick(upper);
+  const unit = getAmountsForLiquidity(sqrtPrice, sqrtLower, sqrtUpper, WAD, true);
+  const unitValue = quoteValue(unit, price);
+  const scale = toWad(value / unitValue);
+  const liquidity = getLiquidityForAmounts(
+    sqrtPrice,
+    sqrtLower,
+    sqrtUpper,
+    (unit.amount0 * scale) / WAD,
+    (unit.amount1 * scale) / WAD,
+  );
+  return { lower, upper, liquidity, sqrtLower, sqrtUpper };
+};
+
+// Fracción de la vela (high-low) dentro de [minPrice, maxPrice]
+const rangeOverlap = (candle: Candle, minPrice: number, maxPrice: number) => {
+  if (candle.high === candle.low) return candle.close >= minPrice && candle.close <= maxPrice ? 1 : 0;
+  const overlap = Math.min(candle.high, maxPrice) - Math.max(candle.low, minPrice);
+  return Math.max(0, overlap) / (candle.high - candle.low);
+};
+
+const tickAt = (price: number) => getTickAtSqrtPrice(priceToSqrtPriceX96(price, CONTEXT));
+
+// --- SIMULACIÓN ---
+
+type RunState = {
+  position: Position;
+  minPrice: number;
+  maxPrice: number;
+  lastPrice: number;
+  history: MarketSample[];
+  feesEarned: number;
+  gasPaid: number;
+  swapCosts: number;
+  rebalances: number;
+  droppedSignals: number;
+  inRange: number;
+};
+
+const simulate = (candles: Candle[], plan: BacktestStrategy, options: BacktestOptions, otherLiquidity: bigint) => {
+  const first = candles[0] as Candle;
+  const sqrtStart = priceToSqrtPriceX96(first.close, CONTEXT);
+  const fee = options.feePips / 1_000_000;
+  const rangeWidth = getRangeWidth(plan.strategy);
+  const rebalanceStrategy = getRebalanceStrategy(plan.strategy);
+
+  const openRange = (tick: number) =>
+    plan.kind === "full-range"
+      ? { lower: minUsableTick(options.tickSpacing), upper: maxUsableTick(options.tickSpacing) }
+      : getRangeAroundTick(tick, rangeWidth, options.tickSpacing);
+
+  const priceBounds = (position: Position) => ({
+    minPrice: tickToPrice(position.lower, CONTEXT),
+    maxPrice: tickToPrice(position.upper, CONTEXT),
+  });
+
+  const initial = openRange(tickAt(first.close));
+  const position = mint(initial.lower, initial.upper, options.capital, first.close, sqrtStart);
+  const state: RunState = {
+    position,
+    ...priceBounds(position),
+    lastPrice: first.close,
+    history: [],
+    feesEarned: 0,
+    gasPaid: 0,
+    swapCosts: 0,
+    rebalances: 0,
+    droppedSignals: 0,
+    inRange: 0,
+  };
+
+  /**
+   * Mismo camino que AgentLogic.submitSignal: validación con las reglas del hook y, si
+   * pasa, retirar y volver a acuñar en el rango propuesto.
+   */
+  const rebalance = (price: number, currentTick: number, proposed: AgentSignal) => {
+    const rules: SignalRules = {
+      // MAX_SIGNAL_AGE y MAX_RISK_THRESHOLD del hook; el timestamp nunca caduca offline
+      maxSignalAge: 300n,
+      maxRiskThreshold: 90n,
+      maxTickDeviation: MAX_TICK_DEVIATION,
+      currentTick,
+      tickSpacing: options.tickSpacing,
+      blockTimestamp: 0n,
+      emergencyMode: false,
+      lastPositionId: positionIdFor(state.position.lower, state.position.upper),
+      positionLiquidity: state.position.liquidity,
+    };
+    const validation = validateSignal(proposed, rules);
+    if (!validation.ok) {
+      state.droppedSignals++;
+      return;
+    }
+
+    const sqrtPrice = priceToSqrtPriceX96(price, CONTEXT);
+    const held = amountsOf(state.position, sqrtPrice);
+    const value = quoteValue(held, price) - options.gasPerRebalance;
+    const { recommendedLower, recommendedUpper } = validation.signal;
+
+    // Swap hasta la proporción del rango nuevo: paga la fee de la pool sobre lo cambiado
+    const target = amountsOf(mint(recommendedLower, recommendedUpper, value, price, sqrtPrice), sqrtPrice);
+    const swapCost = Math.abs(fromWad(target.amount0) - fromWad(held.amount0)) * price * fee;
+
+    state.position = mint(recommendedLower, recommendedUpper, value - swapCost, price, sqrtPrice);
+    Object.assign(state, priceBounds(state.position));
+    state.gasPaid += options.gasPerRebalance;
+    state.swapCosts += swapCost;
+    state.rebalances++;
+  };
+
+  for (const candle of candles) {
+    // Comisiones de la vela según la cuota de liquidez activa
+    const overlap = rangeOverlap(candle, state.minPrice, state.maxPrice);
+    if (overlap > 0) {
+      const share = Number(state.position.liquidity) / Number(state.position.liquidity + otherLiquidity);
+      state.feesEarned += candle.volume * candle.close * options.volumeShare * fee * share * overlap;
+    }
+    if (candle.close >= state.minPrice && candle.close <= state.maxPrice) state.inRange++;
+
+    // Decisión del agente al cierre (strategy_stop pausa los rebalanceos)
+    if (plan.kind !== "agent") continue;
+    if (plan.strategy.stopPrice && candle.close <= plan.strategy.stopPrice) continue;
+    const currentTick = tickAt(candle.close);
+    pushMarketSample(state.history, { time: candle.time, price: candle.close, tick: currentTick });
+    const signal = rebalanceStrategy.evaluate(
+      {
+        price: candle.close,
+        currentTick,
+        tickSpacing: options.tickSpacing,
+        history: state.history,
+        volatility: estimateVolatility(state.history, null).value,
+        timestamp: 0n,
+      },
+      {
+        range: { lower: state.position.lower, upper: state.position.upper },
+        liquidity: state.position.liquidity,
+        lastSignalPrice: state.lastPrice,
+      },
+      { profile: plan.strategy, ensNode: "0x", purpose: "rebalance" },
+    );
+    if (signal) {
+      rebalance(candle.close, currentTick, signal);
+      state.lastPrice = candle.close;
+    }
+  }
+
+  return state;
+};
+
+/**
+ * Estrategias por defecto: para cada nivel de riesgo del onboarding, el agente con cada
+ * RebalanceStrategy (o solo con `kinds`) y su rango inicial sin rebalancear, más el full
+ * range de referencia.
+ */
+export const defaultBacktestStrategies = (
+  maxRangeWidth: number | null = null,
+  kinds: readonly RebalanceStrategyId[] = REBALANCE_STRATEGY_IDS,
+): BacktestStrategy[] => [
+  ...[1, 2, 3].flatMap((riskLevel): BacktestStrategy[] => {
+    const base = { riskLevel, stopPrice: null, maxRangeWidth, strategyKind: null };
+    return [
+      ...kinds.map((strategyKind): BacktestStrategy => ({
+        id: `${strategyKind}-r${riskLevel}`,
+        label: `Agent ${getRebalanceStrategy({ ...base, strategyKind }).label} (risk ${riskLevel})`,
+        kind: "agent",
+        strategy: { ...base, strategyKind },
+      })),
+      { id: `static-r${riskLevel}`, label: `Static range (risk ${riskLevel})`, kind: "static", strategy: base },
+    ];
+  }),
+  {
+    id: "full-range",
+    label: "Full range",
+    kind: "full-range",
+    strategy: { riskLevel: null, stopPrice: null, maxRangeWidth: null, strategyKind: null },
+  },
+];
+
+export const runBacktest = (
+  candles: Candle[],
+  strategies: BacktestStrategy[] = defaultBacktestStrategies(),
+  overrides: Partial<BacktestOptions> = {},
+): BacktestReport => {
+  const valid = candles.filter((c) => c.close > 0 && Number.isFinite(c.close)).sort((a, b) => a.time - b.time);
+  if (valid.length < 2) throw new Error("The backtest needs at least two candles");
+  const options = { ...DEFAULT_BACKTEST_OPTIONS, ...overrides };
+
+  const first = valid[0] as Candle;
+  const last = valid[valid.length - 1] as Candle;
+  const sqrtStart = priceToSqrtPriceX96(first.close, CONTEXT);
+  const sqrtEnd = priceToSqrtPriceX96(last.close, CONTEXT);
+
+  // HODL: mitad y mitad al precio inicial
+  const hodlFinal = (options.capital / 2 / first.close) * last.close + options.capital / 2;
+  // El resto de la pool, fijo durante todo el periodo
+  const otherLiquidity = mint(
+    minUsableTick(options.tickSpacing),
+    maxUsableTick(options.tickSpacing),
+    options.poolTvl,
+    first.close,
+    sqrtStart,
+  ).liquidity;
+
+  const runs = strategies.map((plan) => {
+    const state = simulate(valid, plan, options, otherLiquidity);
+    const lpValue = quoteValue(amountsOf(state.position, sqrtEnd), last.close);
+    const finalValue = lpValue + state.feesEarned;
+    // Lo que valdría la posición sin fees ni costes: la diferencia con HODL es la divergencia
+    const impermanentLoss = lpValue + state.gasPaid + state.swapCosts - hodlFinal;
+    return { plan, state, finalValue, impermanentLoss };
+  });
+  const fullRange = runs.find((run) => run.plan.kind === "full-range")?.finalValue ?? Number.NaN;
+
+  return {
+    candles: valid.length,
+    from: first.time,
+    to: last.time,
+    startPrice: first.close,
+    endPrice: last.close,
+    options,
+    hodl: {
+      finalValue: hodlFinal,
+      pnl: hodlFinal - options.capital,
+      pnlPct: (hodlFinal - options.capital) / options.capital,
+    },
+    results: runs.map(({ plan, state, finalValue, impermanentLoss }) => ({
+      id: plan.id,
+      label: plan.label,
+      finalValue,
+      pnl: finalValue - options.capital,
+      pnlPct: (finalValue - options.capital) / options.capital,
+      vsHodl: finalValue - hodlFinal,
+      vsFullRange: finalValue - fullRange,
+      feesEarned: state.feesEarned,
+      gasPaid: state.gasPaid,
+      swapCosts: state.swapCosts,
+      impermanentLoss,
+      rebalances: state.rebalances,
+      droppedSignals: state.droppedSignals,
+      timeInRange: state.inRange / valid.length,
+    })),
+  };
+};
+
+const money = (value: number) => `${value < 0 ? "-" : " "}${Math.abs(value).toFixed(2)}`;
+const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+/**
+ * Tabla de texto para la consola.
+ */
+export const formatBacktestReport = (report: BacktestReport) => {
+  const header = ["Strategy", "Final", "PnL", "PnL %", "vs HODL", "vs Full", "Fees", "Gas", "Swaps", "IL", "Rebal.", "Dropped", "In range"];
+  const rows = report.results.map((r) => [
+    r.label,
+    r.finalValue.toFixed(2),
+    money(r.pnl),
+    pct(r.pnlPct),
+    money(r.vsHodl),
+    money(r.vsFullRange),
+    r.feesEarned.toFixed(2),
+    r.gasPaid.toFixed(2),
+    r.swapCosts.toFixed(2),
+    money(r.impermanentLoss),
+    String(r.rebalances),
+    String(r.droppedSignals),
+    pct(r.timeInRange),
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => (row[i] as string).length)));
+  const line = (cells: string[]) => cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i] as number) : cell.padStart(widths[i] as number))).join("  ");
+
+  return [
+    `${report.candles} candles · ${new Date(report.from).toISOString()} → ${new Date(report.to).toISOString()} · price ${report.startPrice.toFixed(2)} → ${report.endPrice.toFixed(2)}`,
+    `Capital ${report.options.capital} · fee ${report.options.feePips / 10_000}% · tickSpacing ${report.options.tickSpacing} · gas ${report.options.gasPerRebalance}/rebalance · pool TVL ${report.options.poolTvl} · volume share ${pct(report.options.volumeShare)}`,
+    `HODL (50/50): final ${report.hodl.finalValue.toFixed(2)} · PnL ${money(report.hodl.pnl)} (${pct(report.hodl.pnlPct)})`,
+    "",
+    line(header),
+    ...rows.map(line),
+  ].join("\n");
+};
@@ -0,0 +1,87 @@
+import { type Hash, type PublicClient, parseAbi } from "viem";
+import { CONTRACTS } from "../config/contracts";
+import { BLOCK_RANGE } from "./EventIndexer";
+
+/**
+ * CIRCUIT BREAKER DEL HOOK.
+ *
+ * - Se activa con una señal riskLevel == 100: s_emergencyMode = true y beforeSwap revierte
+ *   con EnstableHook__CircuitBreakerActive.
+ * - Se recupera solo con una señal posterior válida (fresca, rango dentro de ±2000 ticks)
+ *   con riskLevel < 50. Las señales con riesgo 50..90 se procesan pero no lo desactivan.
+ */
+export const BREAKER_TRIGGER_RISK = 100;
+export const BREAKER_RECOVERY_RISK = 50;
+
+export const CIRCUIT_BREAKER_ABI = parseAbi([
+  "function s_emergencyMode() view returns (bool)",
+  "function s_lastRiskUpdate() view returns (uint256)",
+  "event CircuitBreakerActivated(string reason)",
+]);
+
+// Cuántos rangos de bloques hacia atrás buscamos el evento de activación
+const MAX_LOOKBACK_RANGES = 50n;
+
+export type BreakerActivation = {
+  reason: string;
+  blockNumber: bigint;
+  txHash: Hash;
+  timestamp: number;
+};
+
+export type CircuitBreakerStatus = {
+  active: boolean;
+  // Unix (segundos) de la última señal que tocó el riesgo; 0 si nunca hubo
+  lastRiskUpdate: number;
+  activation: BreakerActivation | null;
+};
+
+export const readEmergencyMode = (client: PublicClient) =>
+  client.readContract({ address: CONTRACTS.HOOK, abi: CIRCUIT_BREAKER_ABI, functionName: "s_emergencyMode" });
+
+/**
+ * Última activación: recorre rangos de bloques desde el más reciente hacia atrás.
+ */
+export const findLastActivation = async (client: PublicClient): Promise<BreakerActivation | null> => {
+  const latest = await client.getBlockNumber();
+
+  for (let i = 0n, to = latest; i < MAX_LOOKBACK_RANGES && to >= 0n; i++, to -= BLOCK_RANGE) {
+    const from = to >= BLOCK_RANGE - 1n ? to - BLOCK_RANGE + 1n : 0n;
+    const logs = await client.getLogs({
+      address: CONTRACTS.HOOK,
+      event: CIRCUIT_BREAKER_ABI[2],
+      fromBlock: from,
+      toBlock: to,
+    });
+    const last = logs.at(-1);
+    if (last) {
+      const block = await client.getBlock({ blockNumber: last.blockNumber });
+      return {
+        reason: last.args.reason ?? "",
+        blockNumber: last.blockNumber,
+        txHash: last.transactionHash,
+        timestamp: Number(block.timestamp),
+      };
+    }
+    if (from === 0n) break;
+  }
+  return null;
+};
+
+export const readCircuitBreakerStatus = async (client: PublicClient): Promise<CircuitBreakerStatus> => {
+  const [active, lastRiskUpdate] = await Promise.all([
+    readEmergencyMode(client),
+    client.readContract({ address: CONTRACTS.HOOK, abi: CIRCUIT_BREAKER_ABI, functionName: "s_lastRiskUpdate" }),
+  ]);
+
+  // Solo buscamos la activación cuando importa (el escaneo de logs es caro)
+  return {
+    active,
+    lastRiskUpdate: Number(lastRiskUpdate),
+    activation: active ? await findLastActivation(client) : null,
+  };
+};
+
+export const RECOVERY_CONDITION =
+  `The hook resumes when the agent sends a fresh signal (under 5 minutes old) with risk below ${BREAKER_RECOVERY_RISK} ` +
+  "and a range within ±2000 ticks of the current pool tick.";
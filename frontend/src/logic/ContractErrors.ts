@@ -0,0 +1,262 @@
+import {
+  type Abi,
+  type Hex,
+  BaseError,
+  ContractFunctionRevertedError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+  formatEther,
+  parseAbi,
+} from "viem";
+import { ABIS } from "../config/contracts";
+
+/**
+ * DECODIFICACIÓN DE ERRORES: convierte reverts de simulate/write en resultados tipados
+ * con una explicación y una acción sugerida. Lo usan el agente y los componentes.
+ */
+export type ContractErrorKind = "contract" | "rejected" | "unknown";
+
+export type DecodedContractError = {
+  kind: ContractErrorKind;
+  // Nombre del custom error (ej. EnstableHook__StaleSignal) o null si no se pudo decodificar
+  name: string | null;
+  args: readonly unknown[];
+  title: string;
+  explanation: string;
+  fix: string | null;
+};
+
+// El PoolManager de v4 envuelve los reverts de hooks y callbacks (CustomRevert.WrappedError)
+const POOL_MANAGER_ERRORS_ABI = parseAbi([
+  "error WrappedError(address target, bytes4 selector, bytes reason, bytes details)",
+  "error CurrencyNotSettled()",
+  "error PoolNotInitialized()",
+  "error ManagerLocked()",
+]);
+
+const onlyErrors = (abi: Abi) => abi.filter((item) => item.type === "error");
+
+// ERC20 de EETH y EUSD comparten errores (OpenZeppelin): basta con uno
+export const ERRORS_ABI: Abi = [
+  ...onlyErrors(ABIS.HOOK),
+  ...onlyErrors(ABIS.VAULT),
+  ...onlyErrors(ABIS.EETH),
+  ...POOL_MANAGER_ERRORS_ABI,
+];
+
+type ErrorDescription = {
+  title: string;
+  explanation: string | ((args: readonly unknown[]) => string);
+  fix: string | null;
+};
+
+const ERROR_DESCRIPTIONS: Record<string, ErrorDescription> = {
+  // --- EnstableHook ---
+  EnstableHook__NotAuthorizedAgent: {
+    title: "Agent not authorized",
+    explanation: "Only the agent account configured in the hook can send rebalance signals.",
+    fix: "Use the agent key the hook was deployed with (HelperConfig agent account).",
+  },
+  EnstableHook__NotAuthorizedVault: {
+    title: "Vault not authorized",
+    explanation: "Liquidity for this pool can only be modified through the IdentityVault.",
+    fix: "Deposit and withdraw from the Vault instead of calling the PoolManager directly.",
+  },
+  EnstableHook__OnlyPoolManager: {
+    title: "Only PoolManager",
+    explanation: "Hook callbacks can only be called by the Uniswap v4 PoolManager.",
+    fix: null,
+  },
+  EnstableHook__StaleSignal: {
+    title: "Stale signal",
+    explanation: "The signal timestamp is older than MAX_SIGNAL_AGE (5 minutes).",
+    fix: "Rebuild the signal with a fresh timestamp and check the agent clock.",
+  },
+  EnstableHook__InvalidENSNode: {
+    title: "Invalid ENS node",
+    explanation: "The user has no valid ENS identity for this pool.",
+    fix: "Set a primary ENS name and link it to the Vault before depositing.",
+  },
+  EnstableHook__ExtremeVolatility: {
+    title: "Risk threshold exceeded",
+    explanation: "The signal risk level is above MAX_RISK_THRESHOLD (90).",
+    fix: "Wait for volatility to drop or lower the signal risk level.",
+  },
+  EnstableHook__InvalidHookData: {
+    title: "Missing hook data",
+    explanation: "The liquidity change did not include the user address in hookData.",
+    fix: null,
+  },
+  EnstableHook__CircuitBreakerActive: {
+    title: "Circuit breaker active",
+    explanation: "The hook is in emergency mode and blocks swaps until risk drops below 50.",
+    fix: "Wait for the agent to report a lower risk level.",
+  },
+  EnstableHook__InvalidBounds: {
+    title: "Invalid bounds",
+    explanation: "The proposed lower tick is not below the upper tick.",
+    fix: "Recompute the range so that lower < upper.",
+  },
+  EnstableHook__InvalidRangeProposed: {
+    title: "Range too far from price",
+    explanation: "The proposed range goes beyond ±2000 ticks from the current pool tick.",
+    fix: "Center the range on the current pool tick (getRangeAroundTick) with a smaller width.",
+  },
+  EnstableHook__NoPositionToRebalance: {
+    title: "No position to rebalance",
+    explanation: "The user has no liquidity in the Vault, so there is nothing to move.",
+    fix: "Wait for the user to deposit; the agent skips depositors without liquidity.",
+  },
+
+  // --- IdentityVault ---
+  IdentityVault__OnlyHookAuthorized: {
+    title: "Only hook",
+    explanation: "Repositioning can only be triggered by the EnstableHook.",
+    fix: null,
+  },
+  IdentityVault__OnlyPoolManager: {
+    title: "Only PoolManager",
+    explanation: "The unlock callback can only be called by the PoolManager.",
+    fix: null,
+  },
+  IdentityVault__PoolManagerAlreadyUnlocked: {
+    title: "PoolManager busy",
+    explanation: "The PoolManager was already unlocked by another operation in this transaction.",
+    fix: "Send the Vault operation as its own transaction.",
+  },
+  IdentityVault__GasLimitExceeded: {
+    title: "Reposition gas limit exceeded",
+    explanation: "The reposition used more gas than MAX_REPOSITION_GAS allows.",
+    fix: "Retry with a simpler range change or wait for lower pool activity.",
+  },
+  IdentityVault__InvalidTickRange: {
+    title: "Invalid tick range",
+    explanation: "Ticks must satisfy lower < upper, stay within MIN/MAX tick and be multiples of the tick spacing.",
+    fix: "Pick the range again; the range picker snaps prices to the tick spacing.",
+  },
+  IdentityVault__Insolvent: {
+    title: "Vault settlement failed",
+    explanation: (args) =>
+      `The Vault left unsettled balances in the PoolManager (delta0 ${formatDelta(args[0])}, delta1 ${formatDelta(args[1])}).`,
+    fix: "Check token approvals and balances for both tokens, then retry.",
+  },
+  IdentityVault__NoPositionToWithdraw: {
+    title: "No position",
+    explanation: "This wallet has no liquidity in the Vault.",
+    fix: "Deposit first or refresh the position.",
+  },
+  IdentityVault__CastError: {
+    title: "Value out of range",
+    explanation: "An internal conversion overflowed (amount or tick too large).",
+    fix: "Use a smaller amount.",
+  },
+
+  // --- ERC20 ---
+  ERC20InsufficientAllowance: {
+    title: "Insufficient allowance",
+    explanation: (args) => `The Vault can spend ${formatAmount(args[1])} but needs ${formatAmount(args[2])}.`,
+    fix: "Approve the token for the Vault and retry.",
+  },
+  ERC20InsufficientBalance: {
+    title: "Insufficient balance",
+    explanation: (args) => `Balance is ${formatAmount(args[1])} but ${formatAmount(args[2])} is required.`,
+    fix: "Get test tokens from the faucet or reduce the amount.",
+  },
+
+  // --- PoolManager ---
+  CurrencyNotSettled: {
+    title: "Currency not settled",
+    explanation: "The PoolManager ended the unlock with unpaid token deltas.",
+    fix: "Check token approvals and balances for the Vault.",
+  },
+  PoolNotInitialized: {
+    title: "Pool not initialized",
+    explanation: "The pool for this PoolKey has not been initialized in the PoolManager.",
+    fix: "Check the configured token, fee, tick spacing and hook addresses.",
+  },
+  ManagerLocked: {
+    title: "PoolManager locked",
+    explanation: "The PoolManager was called outside of an unlock.",
+    fix: null,
+  },
+};
+
+const formatAmount = (value: unknown) =>
+  typeof value === "bigint" ? Number(formatEther(value)).toLocaleString() : String(value);
+
+const formatDelta = (value: unknown) => (typeof value === "bigint" ? value.toString() : String(value));
+
+const describe = (name: string, args: readonly unknown[]): DecodedContractError => {
+  const description = ERROR_DESCRIPTIONS[name];
+  if (!description) {
+    return { kind: "contract", name, args, title: name, explanation: "The contract reverted.", fix: null };
+  }
+  const { title, explanation, fix } = description;
+  return {
+    kind: "contract",
+    name,
+    args,
+    title,
+    explanation: typeof explanation === "function" ? explanation(args) : explanation,
+    fix,
+  };
+};
+
+/**
+ * Decodifica los bytes crudos de un revert. Desenvuelve WrappedError del PoolManager.
+ */
+export const decodeRevertData = (data: Hex): DecodedContractError | null => {
+  try {
+    const { errorName, args = [] } = decodeErrorResult({ abi: ERRORS_ABI, data });
+    if (errorName === "WrappedError") {
+      const reason = args[2] as Hex;
+      return decodeRevertData(reason) ?? describe(errorName, args);
+    }
+    return describe(errorName, args);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Punto de entrada único: acepta cualquier error de viem/wagmi (o lo que sea) y lo tipa.
+ */
+export const decodeContractError = (err: unknown): DecodedContractError => {
+  if (err instanceof BaseError) {
+    if (err.walk((e) => e instanceof UserRejectedRequestError)) {
+      return {
+        kind: "rejected",
+        name: null,
+        args: [],
+        title: "Request rejected",
+        explanation: "The transaction was rejected in the wallet.",
+        fix: null,
+      };
+    }
+
+    const reverted = err.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      // Con raw volvemos a decodificar contra todos los ABIs (el de la función llamada puede no tener el error)
+      const decoded = reverted.raw ? decodeRevertData(reverted.raw) : null;
+      if (decoded) return decoded;
+      if (reverted.data) return describe(reverted.data.errorName, reverted.data.args ?? []);
+      if (reverted.reason) {
+        return { kind: "contract", name: null, args: [], title: "Reverted", explanation: reverted.reason, fix: null };
+      }
+    }
+
+    return { kind: "unknown", name: null, args: [], title: "Transaction failed", explanation: err.shortMessage, fix: null };
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  return { kind: "unknown", name: null, args: [], title: "Error", explanation: message, fix: null };
+};
+
+/**
+ * Una línea legible para logs y toasts.
+ */
+export const formatContractError = (err: unknown) => {
+  const decoded = decodeContractError(err);
+  const base = decoded.kind === "contract" ? `${decoded.title}: ${decoded.explanation}` : decoded.explanation;
+  return decoded.fix ? `${base} ${decoded.fix}` : base;
+};
@@ -0,0 +1,293 @@
+import { type Address, type PublicClient, getAddress } from "viem";
+import { vaultContract } from "../config/contracts";
+import { type PoolConfig, getPoolById } from "../config/pools";
+import { type AgentEvent, createAgentEvent } from "./AgentEvents";
+import { type Agent, type AgentStatus, AGENT_LOOP_INTERVAL, createAgent, runAgentSelfCheck } from "./AgentLogic";
+import type { AgentSigner } from "./AgentSigner";
+import { formatContractError } from "./ContractErrors";
+import { EMPTY_STRATEGY, type StrategyRecords, readStrategyRecords } from "./EnsStrategy";
+import { BLOCK_RANGE, fetchDepositors, resolveStartBlock } from "./EventIndexer";
+import { canSignForIdentity, readVaultNode, resolveIdentity } from "./Identity";
+import { type PriceSource, type SampledPriceSource, createSampledPriceSource } from "./PriceSource";
+import { createTaskQueue } from "./TaskQueue";
+import { type SwapPriceTracker, createSwapPriceTracker } from "./Volatility";
+
+/**
+ * SCHEDULER MULTI-USUARIO: un agente por depositante del Vault, no solo por la wallet
+ * que tiene la página abierta.
+ *
+ * - Descubrimiento: UserDeposit del Vault (desde el startBlock del manifiesto) más las
+ *   direcciones fijas de la configuración. getPosition/getUserPoolId dicen si el usuario
+ *   sigue teniendo liquidez y en qué pool del registro.
+ * - Perfil: nombre primario verificado contra el Vault y text records strategy_*.
+ * - Ejecución: las lecturas de cada iteración pasan por una cola con concurrencia y
+ *   separación mínima (un solo RPC) y las señales por otra de concurrencia 1 que espera
+ *   cada receipt (un solo nonce del agente). Una señal en espera no ocupa hueco de lectura.
+ */
+export type DepositorSource = "config" | "deposit";
+
+export type DepositorState = {
+  user: Address;
+  source: DepositorSource;
+  ensName: string | null;
+  pool: string | null;
+  // Posición guardada por el Vault (liquidity como string: va a status.json)
+  position: { tickLower: number; tickUpper: number; liquidity: string; lastUpdated: number } | null;
+  strategy: StrategyRecords;
+  // Motivo por el que no se vigila (sin liquidez, identidad, pool fuera del registro, ...)
+  skipped: string | null;
+  agent: AgentStatus | null;
+};
+
+export type DepositorOverride = {
+  address: Address;
+  // Si falta se usa el nombre primario (reverse record) en la red de ENS
+  ensName?: string;
+};
+
+export type SchedulerOptions = {
+  client: PublicClient;
+  ensClient: PublicClient;
+  signer: AgentSigner;
+  onEvent: (event: AgentEvent, user: Address | null) => void;
+  // Fuente de precio por pool (se crea una vez y la comparten sus depositantes; se lee una vez por ciclo)
+  priceSourceFor: (pool: PoolConfig) => Promise<PriceSource>;
+  users?: DepositorOverride[];
+  // Añadir los depositantes que aparezcan en UserDeposit
+  discover?: boolean;
+  intervalMs?: number;
+  discoveryIntervalMs?: number;
+  // Iteraciones de agentes en paralelo y separación entre ellas (carga del RPC)
+  concurrency?: number;
+  minTaskGapMs?: number;
+  // Separación mínima entre dos señales del agente
+  minSignalGapMs?: number;
+  // Vigilar también a usuarios cuyo nodo el Vault no puede verificar (sin userNodes)
+  allowUnverifiedNode?: boolean;
+};
+
+export const DISCOVERY_INTERVAL = 5 * 60_000;
+
+type Depositor = DepositorState & { instance: Agent | null };
+
+export const createDepositorScheduler = ({
+  client,
+  ensClient,
+  signer,
+  onEvent,
+  priceSourceFor,
+  users = [],
+  discover = true,
+  intervalMs = AGENT_LOOP_INTERVAL,
+  discoveryIntervalMs = DISCOVERY_INTERVAL,
+  concurrency = 2,
+  minTaskGapMs = 250,
+  minSignalGapMs = 2_000,
+  allowUnverifiedNode = false,
+}: SchedulerOptions) => {
+  const depositors = new Map<Address, Depositor>();
+  const overrides = new Map(users.map((u) => [u.address.toLowerCase(), u]));
+  const priceSources = new Map<string, Promise<SampledPriceSource>>();
+  const swapTrackers = new Map<string, SwapPriceTracker>();
+  const reads = createTaskQueue({ concurrency, minGapMs: minTaskGapMs });
+  const signals = createTaskQueue({ concurrency: 1, minGapMs: minSignalGapMs });
+
+  let isRunning = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<boolean> | null = null;
+  let lastScannedBlock: bigint | null = null;
+  let nextDiscoveryAt = 0;
+
+  const emit = (user: Address | null, ...args: Parameters<typeof createAgentEvent>) =>
+    onEvent(createAgentEvent(...args), user);
+
+  // Direcciones con checksum: las del config pueden venir en minúsculas
+  const track = (address: Address, source: DepositorSource) => {
+    const user = getAddress(address);
+    if (depositors.has(user)) return;
+    depositors.set(user, {
+      user,
+      source,
+      ensName: null,
+      pool: null,
+      position: null,
+      strategy: EMPTY_STRATEGY,
+      skipped: "not checked yet",
+      agent: null,
+      instance: null,
+    });
+  };
+
+  /**
+   * Nuevos UserDeposit desde el último bloque escaneado, en tramos de BLOCK_RANGE.
+   */
+  const scanDeposits = async () => {
+    const latest = await client.getBlockNumber();
+    const from = lastScannedBlock === null ? resolveStartBlock(latest) : lastScannedBlock + 1n;
+    let found = 0;
+    for (let start = from; start <= latest; start += BLOCK_RANGE) {
+      const end = start + BLOCK_RANGE - 1n < latest ? start + BLOCK_RANGE - 1n : latest;
+      for (const user of await reads.run(() => fetchDepositors(client, start, end))) {
+        if (!depositors.has(getAddress(user))) found++;
+        track(user, "deposit");
+      }
+      lastScannedBlock = end;
+    }
+    if (found > 0) emit(null, "info", "scheduler", `Discovered ${found} new depositor(s) up to block ${latest}.`);
+  };
+
+  const dropAgent = async (depositor: Depositor, reason: string) => {
+    if (depositor.skipped !== reason) emit(depositor.user, "warn", "scheduler", `Not monitoring: ${reason}.`);
+    depositor.skipped = reason;
+    await depositor.instance?.stop();
+    depositor.instance = null;
+  };
+
+  /**
+   * Posición, pool, identidad y estrategia de un depositante. El agente se recrea si
+   * cambió la pool o los records (la prueba ENS de cada señal tiene que coincidir).
+   */
+  const refreshDepositor = async (depositor: Depositor) => {
+    const { user } = depositor;
+    const [position, poolId] = await Promise.all([
+      client.readContract({ ...vaultContract, functionName: "getPosition", args: [user] }),
+      client.readContract({ ...vaultContract, functionName: "getUserPoolId", args: [user] }),
+    ]);
+    depositor.position = {
+      tickLower: position.tickLower,
+      tickUpper: position.tickUpper,
+      liquidity: position.liquidity.toString(),
+      lastUpdated: position.lastUpdated,
+    };
+    if (position.liquidity === 0n) return dropAgent(depositor, "no liquidity in the vault");
+
+    const pool = getPoolById(poolId);
+    if (!pool) return dropAgent(depositor, `pool ${poolId} is not in the registry`);
+
+    const ensName = overrides.get(user.toLowerCase())?.ensName ?? (await ensClient.getEnsName({ address: user }));
+    const identity = resolveIdentity(ensName, await readVaultNode(client, user));
+    depositor.ensName = ensName;
+    if (!canSignForIdentity(identity, { allowUnverifiedNode }) || !identity.node) {
+      // El Vault desplegado no tiene userNodes: sin la opción nadie sería vigilado
+      return dropAgent(
+        depositor,
+        identity.status === "unsupported"
+          ? "the vault has no userNodes to verify the ENS node; set allowUnverifiedNode in the config to monitor it"
+          : `ENS identity is ${identity.status}`,
+      );
+    }
+
+    const strategy = ensName ? await readStrategyRecords(ensClient, ensName) : EMPTY_STRATEGY;
+    if (strategy.riskLevel === null) return dropAgent(depositor, "no strategy_risk record");
+
+    const changed = depositor.pool !== pool.id || JSON.stringify(depositor.strategy) !== JSON.stringify(strategy);
+    depositor.pool = pool.id;
+    depositor.strategy = strategy;
+    depositor.skipped = null;
+    if (depositor.instance && !changed) return;
+
+    await depositor.instance?.stop();
+    let source = priceSources.get(pool.id);
+    if (!source) {
+      source = priceSourceFor(pool).then(createSampledPriceSource);
+      priceSources.set(pool.id, source);
+    }
+    let swapTracker = swapTrackers.get(pool.id);
+    if (!swapTracker) {
+      swapTracker = createSwapPriceTracker(client, pool);
+      swapTrackers.set(pool.id, swapTracker);
+    }
+    depositor.instance = createAgent({
+      user,
+      ensNode: identity.node,
+      strategy,
+      onEvent: (event) => onEvent(event, user),
+      signer,
+      pool,
+      priceSource: await source,
+      sendQueue: signals,
+      readQueue: reads,
+      swapTracker,
+      allowUnverifiedNode,
+    });
+    const rebalance = depositor.instance.getStatus().strategy;
+    emit(user, "info", "scheduler", `Monitoring ${ensName} on ${pool.label} (risk ${strategy.riskLevel}, ${rebalance} strategy).`, {
+      data: { pool: pool.id, riskLevel: strategy.riskLevel, strategy: rebalance },
+    });
+  };
+
+  const refresh = async () => {
+    nextDiscoveryAt = Date.now() + discoveryIntervalMs;
+    if (discover) await scanDeposits();
+    await Promise.all(
+      [...depositors.values()].map((depositor) =>
+        reads.run(() => refreshDepositor(depositor)).catch((err) => {
+          // Un fallo de lectura no para a un agente que ya estaba vigilando
+          emit(depositor.user, "warn", "scheduler", `Could not refresh depositor: ${formatContractError(err)}`);
+          if (!depositor.instance) depositor.skipped = formatContractError(err);
+        }),
+      ),
+    );
+  };
+
+  /**
+   * Un ciclo: refresco de depositantes si toca y una iteración por agente activo.
+   * Devuelve false si algún agente terminó con error.
+   */
+  const runCycle = async () => {
+    if (Date.now() >= nextDiscoveryAt) {
+      try {
+        await refresh();
+      } catch (err) {
+        emit(null, "error", "scheduler", `Depositor discovery failed: ${formatContractError(err)}`);
+      }
+    }
+    // Un precio por pool y ciclo para todos sus agentes
+    await Promise.all([...priceSources.values()].map((source) => source.then((s) => s.resample(), () => {})));
+    const active = [...depositors.values()].flatMap((d) => (d.instance ? [d.instance] : []));
+    // Cada agente toma su hueco de `reads` dentro de tick() y lo suelta antes de enviar
+    const results = await Promise.all(active.map((agent) => agent.tick()));
+    return results.every(Boolean);
+  };
+
+  const loop = async () => {
+    if (!isRunning) return;
+    inFlight = runCycle();
+    await inFlight;
+    inFlight = null;
+    if (isRunning) timer = setTimeout(loop, intervalMs);
+  };
+
+  for (const { address } of users) track(address, "config");
+
+  return {
+    start: async () => {
+      if (isRunning) return true;
+      if (!(await runAgentSelfCheck(signer, (event) => onEvent(event, null)))) return false;
+      isRunning = true;
+      loop();
+      return true;
+    },
+    // Modo one-shot: self-check, descubrimiento y un ciclo
+    runOnce: async () => {
+      if (!(await runAgentSelfCheck(signer, (event) => onEvent(event, null)))) return false;
+      const ok = await runCycle();
+      // Sin depositantes que vigilar no hay error: el ciclo no tenía nada que hacer
+      if (![...depositors.values()].some((d) => d.instance)) {
+        emit(null, "info", "scheduler", `No depositor to monitor (${depositors.size} known); nothing to do.`);
+      }
+      return ok;
+    },
+    stop: async () => {
+      isRunning = false;
+      clearTimeout(timer);
+      await inFlight;
+    },
+    getDepositors: (): DepositorState[] =>
+      [...depositors.values()].map(({ instance, ...state }) => ({ ...state, agent: instance?.getStatus() ?? null })),
+    // Señales esperando turno (o en vuelo)
+    pendingSignals: () => signals.size(),
+  };
+};
+
+export type DepositorScheduler = ReturnType<typeof createDepositorScheduler>;
@@ -0,0 +1,261 @@
+import {
+  type Abi,
+  type AbiFunction,
+  type Address,
+  type Hex,
+  type PublicClient,
+  isAddressEqual,
+  toFunctionSelector,
+  zeroAddress,
+} from "viem";
+import { ABIS, CONTRACTS, hookContract, vaultContract } from "../config/contracts";
+import { ACTIVE_NETWORK } from "../config/networks";
+import { formatContractError } from "./ContractErrors";
+
+/**
+ * DIAGNÓSTICO DE ARRANQUE: antes de operar comprobamos que la configuración apunta a
+ * contratos reales y coherentes entre sí, en vez de descubrirlo con reverts confusos.
+ * Lo ejecutan la UI (DiagnosticsPanel) y el agente al arrancar.
+ */
+export type DiagnosticStatus = "ok" | "warn" | "error";
+
+export type DiagnosticCheck = {
+  id: string;
+  label: string;
+  status: DiagnosticStatus;
+  detail: string;
+};
+
+export type DiagnosticsReport = {
+  network: string;
+  chainId: number;
+  checkedAt: number;
+  checks: DiagnosticCheck[];
+  errors: number;
+  warnings: number;
+};
+
+/**
+ * Flags de Uniswap v4 (Hooks.sol): los 14 bits bajos de la dirección del hook, en el
+ * mismo orden que los campos de Hooks.Permissions (bit 13 = beforeInitialize ... bit 0).
+ */
+export const HOOK_PERMISSION_BITS = [
+  "beforeInitialize",
+  "afterInitialize",
+  "beforeAddLiquidity",
+  "afterAddLiquidity",
+  "beforeRemoveLiquidity",
+  "afterRemoveLiquidity",
+  "beforeSwap",
+  "afterSwap",
+  "beforeDonate",
+  "afterDonate",
+  "beforeSwapReturnDelta",
+  "afterSwapReturnDelta",
+  "afterAddLiquidityReturnDelta",
+  "afterRemoveLiquidityReturnDelta",
+] as const;
+
+export type HookPermission = (typeof HOOK_PERMISSION_BITS)[number];
+
+// Lo que declara EnstableHook.getHookPermissions
+export const ENSTABLE_HOOK_PERMISSIONS: HookPermission[] = ["beforeAddLiquidity", "beforeRemoveLiquidity", "beforeSwap"];
+
+const ALL_HOOK_FLAGS = (1n << BigInt(HOOK_PERMISSION_BITS.length)) - 1n;
+
+const permissionFlag = (permission: HookPermission) =>
+  1n << BigInt(HOOK_PERMISSION_BITS.length - 1 - HOOK_PERMISSION_BITS.indexOf(permission));
+
+export const hookPermissionsFromAddress = (hook: Address): HookPermission[] =>
+  HOOK_PERMISSION_BITS.filter((permission) => (BigInt(hook) & permissionFlag(permission)) !== 0n);
+
+export const hookFlagsFor = (permissions: HookPermission[]) =>
+  permissions.reduce((flags, permission) => flags | permissionFlag(permission), 0n);
+
+/**
+ * El dispatcher de Solidity compara el selector con un PUSHn (sin los bytes cero iniciales).
+ */
+export const bytecodeHasSelector = (code: Hex, selector: Hex) => {
+  const bytes = selector.slice(2).replace(/^(00)+/, "") || "00";
+  const push = (0x5f + bytes.length / 2).toString(16);
+  const needle = `${push}${bytes}`.toLowerCase();
+  const haystack = code.slice(2).toLowerCase();
+  for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + 1)) {
+    if (i % 2 === 0) return true;
+  }
+  return false;
+};
+
+const missingSelectors = (code: Hex, abi: Abi) =>
+  abi
+    .filter((item): item is AbiFunction => item.type === "function")
+    .filter((fn) => !bytecodeHasSelector(code, toFunctionSelector(fn)))
+    .map((fn) => fn.name);
+
+type ContractName = keyof typeof CONTRACTS;
+
+const CONTRACT_ABIS: Partial<Record<ContractName, Abi>> = {
+  HOOK: ABIS.HOOK,
+  VAULT: ABIS.VAULT,
+  EETH: ABIS.EETH,
+  EUSD: ABIS.EUSD,
+};
+
+export type DiagnosticsOptions = {
+  // Cuenta que firmará las señales (el agente pasa la suya); si falta se usa el manifiesto
+  agent?: Address;
+};
+
+export const runDiagnostics = async (client: PublicClient, options: DiagnosticsOptions = {}): Promise<DiagnosticsReport> => {
+  const checks: DiagnosticCheck[] = [];
+  const add = (id: string, label: string, status: DiagnosticStatus, detail: string) =>
+    checks.push({ id, label, status, detail });
+
+  // 1. El RPC tiene que ser de la red cuyo manifiesto estamos usando
+  const chainId = await client.getChainId();
+  if (chainId !== ACTIVE_NETWORK.chain.id) {
+    add(
+      "chain",
+      "RPC chain",
+      "error",
+      `The RPC answers for chain ${chainId}, but the active network is ${ACTIVE_NETWORK.label} (${ACTIVE_NETWORK.chain.id}).`,
+    );
+  } else {
+    add("chain", "RPC chain", "ok", `${ACTIVE_NETWORK.label} (${chainId})`);
+  }
+
+  // 2. Cada dirección configurada tiene código y expone los selectores de su ABI
+  const codes: Partial<Record<ContractName, Hex>> = {};
+  for (const name of Object.keys(CONTRACTS) as ContractName[]) {
+    const address = CONTRACTS[name];
+    if (isAddressEqual(address, zeroAddress)) {
+      add(`code:${name}`, `${name} address`, "error", `Not configured in contracts/deployments/${ACTIVE_NETWORK.chain.id}.json.`);
+      continue;
+    }
+    const code = await client.getCode({ address });
+    if (!code || code === "0x") {
+      add(`code:${name}`, `${name} code`, "error", `No contract deployed at ${address} on ${ACTIVE_NETWORK.label}.`);
+      continue;
+    }
+    codes[name] = code;
+    add(`code:${name}`, `${name} code`, "ok", address);
+
+    const abi = CONTRACT_ABIS[name];
+    if (!abi) continue;
+    const missing = missingSelectors(code, abi);
+    add(
+      `abi:${name}`,
+      `${name} ABI`,
+      missing.length ? "error" : "ok",
+      missing.length
+        ? `Deployed bytecode has no selector for ${missing.join(", ")}. The ABI in config/abis-json is out of date.`
+        : "All ABI functions are present in the bytecode.",
+    );
+  }
+
+  // 3. Los bits bajos de la dirección del hook codifican exactamente sus permisos
+  if (codes.HOOK) {
+    const fromAddress = hookPermissionsFromAddress(CONTRACTS.HOOK);
+    const flags = BigInt(CONTRACTS.HOOK) & ALL_HOOK_FLAGS;
+    const expected = hookFlagsFor(ENSTABLE_HOOK_PERMISSIONS);
+    add(
+      "hook:flags",
+      "Hook address flags",
+      flags === expected ? "ok" : "error",
+      flags === expected
+        ? fromAddress.join(", ")
+        : `Address flags 0x${flags.toString(16)} (${fromAddress.join(", ") || "none"}) differ from 0x${expected.toString(16)} (${ENSTABLE_HOOK_PERMISSIONS.join(", ")}). The PoolManager will call the wrong callbacks: redeploy with a mined salt.`,
+    );
+
+    try {
+      const declared = await client.readContract({
+        ...hookContract,
+        functionName: "getHookPermissions",
+      });
+      const onChain = HOOK_PERMISSION_BITS.filter((permission) => declared[permission]);
+      const matches = hookFlagsFor(onChain) === flags;
+      add(
+        "hook:permissions",
+        "getHookPermissions",
+        matches ? "ok" : "error",
+        matches
+          ? "The deployed hook declares the same permissions as its address."
+          : `The hook declares ${onChain.join(", ")} but its address encodes ${fromAddress.join(", ") || "none"}.`,
+      );
+    } catch (err) {
+      add("hook:permissions", "getHookPermissions", "error", formatContractError(err));
+    }
+  }
+
+  // 4. Las referencias cruzadas coinciden con la configuración
+  const crossCheck = async (
+    id: string,
+    label: string,
+    read: () => Promise<Address>,
+    expected: Address | undefined,
+    hint: string,
+  ) => {
+    try {
+      const actual = await read();
+      if (!expected) {
+        add(id, label, "warn", `${actual} (nothing configured to compare against)`);
+      } else if (isAddressEqual(actual, expected)) {
+        add(id, label, "ok", actual);
+      } else {
+        add(id, label, "error", `Returns ${actual}, expected ${expected}. ${hint}`);
+      }
+    } catch (err) {
+      add(id, label, "error", formatContractError(err));
+    }
+  };
+
+  if (codes.VAULT) {
+    await crossCheck(
+      "vault:hook",
+      "vault.getHook()",
+      () => client.readContract({ ...vaultContract, functionName: "getHook" }),
+      codes.HOOK ? CONTRACTS.HOOK : undefined,
+      "The vault was deployed for another hook.",
+    );
+  }
+
+  if (codes.HOOK) {
+    await crossCheck(
+      "hook:vault",
+      "hook.i_vault()",
+      () => client.readContract({ ...hookContract, functionName: "i_vault" }),
+      codes.VAULT ? CONTRACTS.VAULT : undefined,
+      "The hook only accepts liquidity from the vault it was deployed with.",
+    );
+    await crossCheck(
+      "hook:poolManager",
+      "hook.i_poolManager()",
+      () => client.readContract({ ...hookContract, functionName: "i_poolManager" }),
+      codes.POOL_MANAGER ? CONTRACTS.POOL_MANAGER : undefined,
+      "Pools are read from a different PoolManager than the hook is attached to.",
+    );
+    await crossCheck(
+      "hook:agent",
+      "hook.getAgentAccount()",
+      () => client.readContract({ ...hookContract, functionName: "getAgentAccount" }),
+      options.agent ?? ACTIVE_NETWORK.deployment.agent ?? undefined,
+      "Signals from the configured agent key will revert with EnstableHook__NotAuthorizedAgent.",
+    );
+  }
+
+  return {
+    network: ACTIVE_NETWORK.label,
+    chainId: ACTIVE_NETWORK.chain.id,
+    checkedAt: Date.now(),
+    checks,
+    errors: checks.filter((c) => c.status === "error").length,
+    warnings: checks.filter((c) => c.status === "warn").length,
+  };
+};
+
+// Versión texto del informe (consola del agente y modo headless)
+export const formatDiagnosticsReport = (report: DiagnosticsReport) =>
+  [
+    `Diagnostics for ${report.network} (${report.chainId}): ${report.errors} error(s), ${report.warnings} warning(s)`,
+    ...report.checks.map((c) => `  [${c.status.toUpperCase()}] ${c.label}: ${c.detail}`),
+  ].join("\n");
@@ -0,0 +1,305 @@
+import { describe, expect, test } from "bun:test";
+import {
+  type Address,
+  type Hex,
+  concat,
+  createPublicClient,
+  custom,
+  fromRlp,
+  hexToBigInt,
+  http,
+  keccak256,
+  numberToHex,
+  size,
+  toHex,
+  toRlp,
+} from "viem";
+import { namehash } from "viem/ens";
+import {
+  ENS_REGISTRY,
+  type ResolverLayout,
+  type StrategyProof,
+  buildStrategyProof,
+  independentRootUrl,
+  proofMatchesStrategy,
+  textRecordSlot,
+  verifyStrategyProof,
+  verifyStrategyProofOnChain,
+} from "./EnsProof";
+
+// --- TRIE MERKLE-PATRICIA EN MEMORIA (claves hasheadas, como el estado de Ethereum) ---
+
+type RlpNode = Hex | RlpNode[];
+
+const nibbles = (hex: Hex) => Array.from(hex.slice(2), (c) => Number.parseInt(c, 16));
+
+const compactPath = (path: number[], leaf: boolean): Hex => {
+  const flag = (leaf ? 2 : 0) + (path.length % 2);
+  const all = path.length % 2 === 1 ? [flag, ...path] : [flag, 0, ...path];
+  return `0x${all.map((n) => n.toString(16)).join("")}`;
+};
+
+const buildTrie = (entries: [key: Hex, value: Hex][]) => {
+  const nodes = new Map<Hex, Hex>();
+  const ref = (node: RlpNode): RlpNode => {
+    const encoded = toRlp(node);
+    if (size(encoded) < 32) return node;
+    nodes.set(keccak256(encoded), encoded);
+    return keccak256(encoded);
+  };
+  type Item = { path: number[]; value: Hex };
+  const build = (items: Item[], depth: number): RlpNode => {
+    const [first] = items as [Item];
+    if (items.length === 1) return [compactPath(first.path.slice(depth), true), first.value];
+    let shared = 0;
+    while (items.every((item) => item.path[depth + shared] === first.path[depth + shared])) shared++;
+    if (shared > 0) {
+      return [compactPath(first.path.slice(depth, depth + shared), false), ref(build(items, depth + shared))];
+    }
+    const children = Array.from({ length: 16 }, (_, n) => {
+      const group = items.filter((item) => item.path[depth] === n);
+      return group.length > 0 ? ref(build(group, depth + 1)) : "0x";
+    });
+    return [...children, "0x"];
+  };
+
+  const encodedRoot = toRlp(build(entries.map(([key, value]) => ({ path: nibbles(keccak256(key)), value })), 0));
+  const root = keccak256(encodedRoot);
+  nodes.set(root, encodedRoot);
+
+  // Nodos desde la raíz hasta la hoja de la clave (o hasta donde se demuestra que no está)
+  const prove = (key: Hex): Hex[] => {
+    const path = nibbles(keccak256(key));
+    const proof: Hex[] = [];
+    let next: Hex | null = root;
+    let depth = 0;
+    while (next) {
+      const encoded = nodes.get(next) as Hex;
+      proof.push(encoded);
+      const node = fromRlp(encoded, "hex") as RlpNode[];
+      let child: RlpNode = "0x";
+      if (node.length === 17) {
+        child = node[path[depth] as number] as RlpNode;
+        depth++;
+      } else {
+        const [flag, ...rest] = nibbles(node[0] as Hex);
+        const segment = (flag as number) % 2 === 1 ? rest : rest.slice(1);
+        const matches = segment.every((n, i) => n === path[depth + i]);
+        depth += segment.length;
+        if (matches && (flag as number) < 2) child = node[1] as RlpNode;
+      }
+      next = typeof child === "string" && size(child) === 32 ? child : null;
+    }
+    return proof;
+  };
+
+  return { root, prove };
+};
+
+// --- CADENA DE PRUEBA: registry + resolver con un layout que no es el del PublicResolver ---
+
+const toSlot = (value: bigint) => numberToHex(value, { size: 32 });
+const mappingSlot = (key: Hex, slot: bigint) => keccak256(concat([key, toSlot(slot)]));
+const trimmed = (value: bigint): Hex => (value === 0n ? "0x" : numberToHex(value));
+
+const NODE = namehash("alice.eth");
+const RESOLVER: Address = "0x00000000000000000000000000000000000000aa";
+const LAYOUT: ResolverLayout = { kind: "versioned", recordVersionsSlot: 3n, textsSlot: 7n };
+const RECORD_VERSION = 2n;
+const BLOCK = 16n;
+const CODE_HASH = keccak256("0x6080");
+
+const RECORDS: Record<string, string> = {
+  strategy_risk: "2",
+  // Más de 31 bytes: ocupa slots de datos aparte de la cabecera
+  strategy_stop: "1800.00000000000000000000000000000000000",
+  strategy_max_width: "0.05",
+  strategy_kind: "volatility",
+};
+
+// Codificación de string de Solidity: corto en la cabecera, largo en keccak(cabecera) + i
+const storeString = (storage: Map<Hex, bigint>, head: Hex, text: string) => {
+  const bytes = toHex(text);
+  const length = size(bytes);
+  if (length < 32) {
+    storage.set(head, hexToBigInt(concat([bytes, toHex(new Uint8Array(31 - length)), numberToHex(length * 2, { size: 1 })])));
+    return;
+  }
+  storage.set(head, BigInt(length * 2 + 1));
+  const base = hexToBigInt(keccak256(head));
+  for (let i = 0; i * 32 < length; i++) {
+    const chunk = `0x${bytes.slice(2 + i * 64, 2 + (i + 1) * 64).padEnd(64, "0")}` as Hex;
+    storage.set(toSlot(base + BigInt(i)), hexToBigInt(chunk));
+  }
+};
+
+const createChain = (records: Record<string, string>) => {
+  const registryStorage = new Map<Hex, bigint>();
+  // resolver y ttl comparten slot: el ttl va en los bits altos
+  registryStorage.set(toSlot(hexToBigInt(mappingSlot(NODE, 0n)) + 1n), (3600n << 160n) | hexToBigInt(RESOLVER));
+
+  const resolverStorage = new Map<Hex, bigint>();
+  resolverStorage.set(mappingSlot(NODE, LAYOUT.recordVersionsSlot), RECORD_VERSION);
+  for (const [key, value] of Object.entries(records)) {
+    storeString(resolverStorage, textRecordSlot(NODE, key, RECORD_VERSION, LAYOUT), value);
+  }
+
+  const accounts = new Map(
+    [
+      [ENS_REGISTRY, registryStorage],
+      [RESOLVER, resolverStorage],
+    ].map(([address, storage]) => {
+      const entries = [...(storage as Map<Hex, bigint>)].map(([slot, value]): [Hex, Hex] => [slot, toRlp(trimmed(value))]);
+      return [(address as Address).toLowerCase(), { storage: storage as Map<Hex, bigint>, trie: buildTrie(entries) }];
+    }),
+  );
+  const state = buildTrie(
+    [...accounts].map(([address, { trie }]): [Hex, Hex] => [address as Hex, toRlp(["0x", "0x", trie.root, CODE_HASH])]),
+  );
+
+  const account = (address: string) => {
+    const found = accounts.get(address.toLowerCase());
+    if (!found) throw new Error(`unknown account ${address}`);
+    return found;
+  };
+
+  // Nodo EIP-1193 de pega: lo justo para EthProver y viem
+  const request = async ({ method, params }: { method: string; params?: unknown }) => {
+    const args = (params ?? []) as [string, unknown, unknown];
+    switch (method) {
+      case "eth_chainId":
+        return "0x1";
+      case "eth_blockNumber":
+        return numberToHex(BLOCK);
+      case "eth_getBlockByNumber":
+        return {
+          number: numberToHex(BLOCK),
+          hash: keccak256(state.root),
+          parentHash: toSlot(0n),
+          stateRoot: state.root,
+          timestamp: "0x0",
+          transactions: [],
+        };
+      case "eth_getStorageAt":
+        return toSlot(account(args[0]).storage.get(toSlot(BigInt(args[1] as string))) ?? 0n);
+      case "eth_getProof": {
+        const { storage, trie } = account(args[0]);
+        return {
+          address: args[0],
+          nonce: "0x0",
+          balance: "0x0",
+          codeHash: CODE_HASH,
+          storageHash: trie.root,
+          accountProof: state.prove(args[0] as Hex),
+          storageProof: (args[1] as Hex[]).map((key) => ({
+            key,
+            value: numberToHex(storage.get(toSlot(BigInt(key))) ?? 0n),
+            proof: trie.prove(toSlot(BigInt(key))),
+          })),
+        };
+      }
+      case "eth_createAccessList":
+        // text(node, "strategy_risk") lee recordVersions[node] y la cabecera del string
+        return {
+          accessList: [
+            {
+              address: RESOLVER,
+              storageKeys: [
+                mappingSlot(NODE, LAYOUT.recordVersionsSlot),
+                textRecordSlot(NODE, "strategy_risk", RECORD_VERSION, LAYOUT),
+              ],
+            },
+          ],
+          gasUsed: "0x5208",
+        };
+      default:
+        throw new Error(`unsupported method ${method}`);
+    }
+  };
+
+  return { stateRoot: state.root, client: createPublicClient({ transport: custom({ request }) }) };
+};
+
+const STRATEGY = { riskLevel: 2, stopPrice: 1800, maxRangeWidth: 0.05, strategyKind: "volatility" } as const;
+
+const tamperRecord = (proof: StrategyProof, key: string, value: string): StrategyProof => ({
+  ...proof,
+  records: proof.records.map((record) => (record.key === key ? { ...record, value } : record)),
+});
+
+describe("strategy storage proofs", () => {
+  test("proves the records of a resolver with its own storage layout", async () => {
+    const { client, stateRoot } = createChain(RECORDS);
+    const proof = await buildStrategyProof(client, NODE);
+
+    expect(proof.layout).toEqual(LAYOUT);
+    expect(proof.resolver.toLowerCase()).toBe(RESOLVER);
+    expect(verifyStrategyProof(proof, stateRoot)).toEqual(
+      Object.entries(RECORDS).map(([key, value]) => ({ key, value })),
+    );
+    expect(await verifyStrategyProofOnChain(client, proof)).toHaveLength(4);
+    expect(proofMatchesStrategy(proof, STRATEGY, stateRoot)).toBe(true);
+    expect(proofMatchesStrategy(proof, { ...STRATEGY, riskLevel: 3 }, stateRoot)).toBe(false);
+  });
+
+  test("rejects a proof checked against a root it was not built from", async () => {
+    const { client } = createChain(RECORDS);
+    const proof = await buildStrategyProof(client, NODE);
+    // Cadena con otros records: su prueba es coherente con su propio stateRoot, no con el de confianza
+    const forged = await buildStrategyProof(createChain({ ...RECORDS, strategy_risk: "3" }).client, NODE);
+    const trusted = createChain(RECORDS).stateRoot;
+
+    expect(() => verifyStrategyProof(forged, trusted)).toThrow("State root mismatch");
+    expect(() => verifyStrategyProof({ ...forged, stateRoot: trusted }, trusted)).toThrow();
+    expect(() => proofMatchesStrategy(proof, STRATEGY, keccak256("0x01"))).toThrow("State root mismatch");
+  });
+
+  test("rejects tampered values", async () => {
+    const { client, stateRoot } = createChain(RECORDS);
+    const proof = await buildStrategyProof(client, NODE);
+
+    expect(() => verifyStrategyProof(tamperRecord(proof, "strategy_risk", "1"), stateRoot)).toThrow(
+      "Record strategy_risk does not match the proof",
+    );
+    expect(() => verifyStrategyProof(tamperRecord(proof, "strategy_stop", "100"), stateRoot)).toThrow();
+
+    const storageProof = proof.resolverAccount.storageProof.map((entry, i) => (i === 0 ? { ...entry, value: toSlot(9n) } : entry));
+    const tamperedSlot = { ...proof.resolverAccount, storageProof };
+    expect(() => verifyStrategyProof({ ...proof, resolverAccount: tamperedSlot }, stateRoot)).toThrow(
+      "Storage value mismatch",
+    );
+
+    const otherResolver = "0x00000000000000000000000000000000000000bb";
+    expect(() => verifyStrategyProof({ ...proof, resolver: otherResolver }, stateRoot)).toThrow(
+      "Resolver does not match the ENS registry record",
+    );
+  });
+});
+
+describe("independentRootUrl", () => {
+  const proofUrl = "https://ethereum-sepolia-rpc.publicnode.com";
+
+  test("requires a second RPC for the trusted state root", () => {
+    expect(independentRootUrl("https://sepolia.drpc.org", proofUrl)).toBe("https://sepolia.drpc.org");
+    expect(() => independentRootUrl(undefined, proofUrl)).toThrow("ENS_TRUSTED_RPC_URL is not set");
+    expect(() => independentRootUrl("", proofUrl)).toThrow("ENS_TRUSTED_RPC_URL is not set");
+  });
+
+  test("rejects the RPC that builds the proofs, whatever its spelling", () => {
+    expect(() => independentRootUrl(proofUrl, proofUrl)).toThrow("independent provider");
+    expect(() => independentRootUrl(" HTTPS://Ethereum-Sepolia-RPC.publicnode.com/ ", proofUrl)).toThrow("independent provider");
+  });
+});
+
+// Contra un nodo real (anvil con ENS desplegado): ENS_PROOF_TEST_RPC_URL y ENS_PROOF_TEST_NAME
+const rpcUrl = process.env.ENS_PROOF_TEST_RPC_URL;
+
+describe.skipIf(!rpcUrl)("strategy storage proofs on a node", () => {
+  test("verifies against the node header and rejects a tampered root", async () => {
+    const client = createPublicClient({ transport: http(rpcUrl) });
+    const proof = await buildStrategyProof(client, namehash(process.env.ENS_PROOF_TEST_NAME ?? "alice.eth"));
+
+    expect(await verifyStrategyProofOnChain(client, proof)).toHaveLength(4);
+    expect(() => verifyStrategyProof(proof, keccak256(proof.stateRoot))).toThrow("State root mismatch");
+  });
+});
@@ -0,0 +1,336 @@
+import { EthProver, type RawProvider, unwrap, verifyAccountState, verifyStorageValue } from "@unruggable/gateways";
+import {
+  type Address,
+  type EIP1193RequestFn,
+  type Hex,
+  type PublicClient,
+  concat,
+  encodeAbiParameters,
+  encodeFunctionData,
+  getAddress,
+  hexToBigInt,
+  hexToString,
+  isAddressEqual,
+  keccak256,
+  numberToHex,
+  parseAbi,
+  toHex,
+  zeroAddress,
+} from "viem";
+import { ACTIVE_ENS } from "../config/networks";
+import { STRATEGY_RECORD_KEYS, type StrategyRecords, parseStrategyRecords } from "./EnsStrategy";
+
+/**
+ * STORAGE PROOFS DE LOS RECORDS strategy_* (EIP-1186 / eth_getProof).
+ *
+ * Las pruebas se piden con el EthProver de unruggable-gateways y se comprueban con sus
+ * verificadores Merkle-Patricia: accountProof contra el stateRoot de un bloque y
+ * storageProof de cada slot contra el storageRoot de la cuenta. Se prueban dos cuentas:
+ * - Registry: el resolver del nodo (así no vale un contrato cualquiera con los slots amañados).
+ * - Resolver: los text records strategy_*.
+ *
+ * El stateRoot tiene que salir de un header que pide quien verifica, nunca de la propia prueba.
+ */
+
+// Registry de ENS de la red activa (ver config/networks.ts); NEXT_PUBLIC_ENS_REGISTRY_ADDRESS lo sobrescribe
+export const ENS_REGISTRY = (process.env.NEXT_PUBLIC_ENS_REGISTRY_ADDRESS || ACTIVE_ENS.registry) as Address;
+
+// ENSRegistry.records está en el slot 0; Record = { owner, resolver + ttl (mismo slot), ... }
+const REGISTRY_RECORDS_SLOT = 0n;
+const ADDRESS_MASK = (1n << 160n) - 1n;
+
+// Slots base en los que se busca el layout del resolver
+const MAX_LAYOUT_SLOT = 64n;
+// Tope de bytes de un text record strategy_*
+const MAX_RECORD_BYTES = 1024;
+
+const TEXT_ABI = parseAbi(["function text(bytes32 node, string key) view returns (string)"]);
+
+/**
+ * Layout de los text records en el almacenamiento del resolver:
+ * - versioned: PublicResolver de ens-contracts (recordVersions[node] y versionable_texts[version][node][key]).
+ * - plain:     texts[node][key].
+ * No se fija a mano: discoverResolverLayout lo deduce de los slots que lee text().
+ */
+export type ResolverLayout =
+  | { kind: "versioned"; recordVersionsSlot: bigint; textsSlot: bigint }
+  | { kind: "plain"; textsSlot: bigint };
+
+export type ProvenRecord = { key: string; value: string; slots: Hex[] };
+
+export type ProvenAccount = {
+  address: Address;
+  accountProof: Hex[];
+  storageProof: { slot: Hex; value: Hex; proof: Hex[] }[];
+};
+
+export type StrategyProof = {
+  chainId: number;
+  blockNumber: bigint;
+  stateRoot: Hex;
+  node: Hex;
+  resolver: Address;
+  layout: ResolverLayout;
+  recordVersion: bigint;
+  registry: ProvenAccount;
+  resolverAccount: ProvenAccount;
+  records: ProvenRecord[];
+};
+
+// --- SLOTS DE SOLIDITY ---
+
+const toSlot = (slot: bigint) => numberToHex(slot, { size: 32 });
+
+const mappingSlot = (key: Hex, slot: bigint | Hex) =>
+  keccak256(concat([key, typeof slot === "bigint" ? toSlot(slot) : slot]));
+
+// records[node].resolver: segundo slot del struct Record
+const registryResolverSlot = (node: Hex) => toSlot(hexToBigInt(mappingSlot(node, REGISTRY_RECORDS_SLOT)) + 1n);
+
+/**
+ * Slot de cabecera del string del text record `key` del nodo.
+ */
+export const textRecordSlot = (node: Hex, key: string, version: bigint, layout: ResolverLayout) => {
+  const textsSlot = layout.kind === "versioned" ? mappingSlot(toSlot(version), layout.textsSlot) : layout.textsSlot;
+  // Las claves string de un mapping se hashean sin padding
+  return keccak256(concat([toHex(key), mappingSlot(node, textsSlot)]));
+};
+
+/**
+ * Slots que ocupa un string de Solidity a partir de su cabecera.
+ * Corto (< 32 bytes): todo vive en la cabecera. Largo: los datos van en keccak(cabecera) + i.
+ */
+const stringDataSlots = (headSlot: Hex, headValue: bigint): Hex[] => {
+  if ((headValue & 1n) === 0n) return [];
+  const length = (headValue - 1n) / 2n;
+  const base = hexToBigInt(keccak256(headSlot));
+  return Array.from({ length: Number((length + 31n) / 32n) }, (_, i) => toSlot(base + BigInt(i)));
+};
+
+const decodeStorageString = (headValue: bigint, dataValues: bigint[]): string => {
+  if ((headValue & 1n) === 0n) {
+    const length = Number((headValue & 0xffn) / 2n);
+    return hexToString(toSlot(headValue).slice(0, 2 + length * 2) as Hex);
+  }
+  const length = Number((headValue - 1n) / 2n);
+  const bytes = concat(dataValues.map(toSlot));
+  return hexToString(bytes.slice(0, 2 + length * 2) as Hex);
+};
+
+// --- GENERACIÓN ---
+
+// El prover habla JSON-RPC crudo: le pasamos el transport del cliente de viem
+const toRawProvider = (client: PublicClient): RawProvider => {
+  const request: EIP1193RequestFn = client.request;
+  return { send: (method, params) => request({ method, params }) };
+};
+
+/**
+ * Deduce el layout del resolver a partir de los slots que toca text(node, key)
+ * (eth_createAccessList) en el bloque de la prueba.
+ */
+export const discoverResolverLayout = async (
+  client: PublicClient,
+  prover: EthProver,
+  resolver: Address,
+  node: Hex,
+): Promise<{ layout: ResolverLayout; recordVersion: bigint }> => {
+  const key = STRATEGY_RECORD_KEYS.riskLevel;
+  const { accessList } = await client.createAccessList({
+    to: resolver,
+    data: encodeFunctionData({ abi: TEXT_ABI, functionName: "text", args: [node, key] }),
+    blockNumber: prover.blockNumber,
+  });
+  const touched = new Set(
+    accessList.filter((entry) => isAddressEqual(entry.address, resolver)).flatMap((entry) => entry.storageKeys),
+  );
+
+  for (let recordVersionsSlot = 0n; recordVersionsSlot < MAX_LAYOUT_SLOT; recordVersionsSlot++) {
+    const versionSlot = mappingSlot(node, recordVersionsSlot);
+    if (!touched.has(versionSlot)) continue;
+    const recordVersion = hexToBigInt((await prover.getStorage(resolver, hexToBigInt(versionSlot))) as Hex);
+    for (let textsSlot = 0n; textsSlot < MAX_LAYOUT_SLOT; textsSlot++) {
+      const layout: ResolverLayout = { kind: "versioned", recordVersionsSlot, textsSlot };
+      if (touched.has(textRecordSlot(node, key, recordVersion, layout))) return { layout, recordVersion };
+    }
+  }
+  for (let textsSlot = 0n; textsSlot < MAX_LAYOUT_SLOT; textsSlot++) {
+    const layout: ResolverLayout = { kind: "plain", textsSlot };
+    if (touched.has(textRecordSlot(node, key, 0n, layout))) return { layout, recordVersion: 0n };
+  }
+  throw new Error(`Resolver ${resolver} does not keep text records in a known storage layout`);
+};
+
+const toProvenAccount = (
+  address: Address,
+  slots: Hex[],
+  { accountProof, storageProof }: Awaited<ReturnType<EthProver["getProofs"]>>,
+): ProvenAccount => ({
+  address,
+  accountProof: accountProof as Hex[],
+  storageProof: slots.map((slot, i) => ({
+    slot,
+    value: toSlot(BigInt(storageProof[i]?.value ?? 0)),
+    proof: (storageProof[i]?.proof ?? []) as Hex[],
+  })),
+});
+
+/**
+ * Construye la prueba de los text records strategy_* del nodo en un bloque fijo.
+ */
+export const buildStrategyProof = async (
+  client: PublicClient,
+  node: Hex,
+  blockNumber?: bigint,
+): Promise<StrategyProof> => {
+  const provider = toRawProvider(client);
+  const prover = blockNumber === undefined ? await EthProver.latest(provider) : new EthProver(provider, blockNumber);
+
+  const resolverSlot = registryResolverSlot(node);
+  const resolverWord = hexToBigInt((await prover.getStorage(ENS_REGISTRY, hexToBigInt(resolverSlot))) as Hex);
+  const resolver = getAddress(numberToHex(resolverWord & ADDRESS_MASK, { size: 20 }));
+  if (resolver === zeroAddress) throw new Error(`No resolver set for node ${node}`);
+
+  const { layout, recordVersion } = await discoverResolverLayout(client, prover, resolver, node);
+
+  // Los strings largos ocupan varios slots
+  const records: ProvenRecord[] = [];
+  for (const key of Object.values(STRATEGY_RECORD_KEYS)) {
+    const head = textRecordSlot(node, key, recordVersion, layout);
+    const { value, slots } = await prover.getStorageBytes(resolver, hexToBigInt(head), MAX_RECORD_BYTES);
+    records.push({ key, value: hexToString((await unwrap(value)) as Hex), slots: [head, ...slots.map(toSlot)] });
+  }
+
+  const resolverSlots = [
+    ...(layout.kind === "versioned" ? [mappingSlot(node, layout.recordVersionsSlot)] : []),
+    ...records.flatMap((r) => r.slots),
+  ];
+  const [registryProof, resolverProof, stateRoot] = await Promise.all([
+    prover.getProofs(ENS_REGISTRY, [hexToBigInt(resolverSlot)]),
+    prover.getProofs(resolver, resolverSlots.map((slot) => hexToBigInt(slot))),
+    prover.fetchStateRoot(),
+  ]);
+
+  return {
+    chainId: await client.getChainId(),
+    blockNumber: prover.blockNumber,
+    stateRoot: stateRoot as Hex,
+    node,
+    resolver,
+    layout,
+    recordVersion,
+    registry: toProvenAccount(ENS_REGISTRY, [resolverSlot], registryProof),
+    resolverAccount: toProvenAccount(resolver, resolverSlots, resolverProof),
+    records,
+  };
+};
+
+/**
+ * Huella corta de la prueba para adjuntar a la señal y a los logs.
+ */
+export const hashStrategyProof = (proof: StrategyProof) =>
+  keccak256(
+    encodeAbiParameters(
+      [{ type: "uint256" }, { type: "bytes32" }, { type: "address" }, { type: "bytes32" }, { type: "string[]" }],
+      [proof.blockNumber, proof.stateRoot, proof.resolver, proof.node, proof.records.map((r) => `${r.key}=${r.value}`)],
+    ),
+  );
+
+// --- VERIFICACIÓN ---
+
+/**
+ * Comprueba la cuenta y sus slots contra el stateRoot y devuelve el lector de valores probados.
+ */
+const verifyAccount = (account: ProvenAccount, stateRoot: Hex) => {
+  const state = verifyAccountState(account.address, account.accountProof, stateRoot);
+  if (!state) throw new Error(`Account ${account.address} does not exist at this block`);
+
+  const proven = new Map<string, bigint>();
+  for (const { slot, value, proof } of account.storageProof) {
+    const leaf = hexToBigInt(verifyStorageValue(slot, proof, state.storageRoot));
+    if (leaf !== hexToBigInt(value)) throw new Error(`Storage value mismatch at ${slot}`);
+    proven.set(slot.toLowerCase(), leaf);
+  }
+
+  return (slot: Hex) => {
+    const value = proven.get(slot.toLowerCase());
+    if (value === undefined) throw new Error(`Slot ${slot} of ${account.address} is not covered by the proof`);
+    return value;
+  };
+};
+
+/**
+ * Verifica la prueba completa contra un stateRoot confiable y devuelve los records probados.
+ */
+export const verifyStrategyProof = (proof: StrategyProof, trustedStateRoot: Hex) => {
+  if (proof.stateRoot.toLowerCase() !== trustedStateRoot.toLowerCase()) {
+    throw new Error(`State root mismatch: the proof is not anchored to block ${proof.blockNumber}`);
+  }
+  if (!isAddressEqual(proof.registry.address, ENS_REGISTRY)) throw new Error("The proof is not for the ENS registry");
+
+  // El resolver tiene que ser el que el registry guarda para el nodo
+  const registryValue = verifyAccount(proof.registry, trustedStateRoot);
+  const resolver = registryValue(registryResolverSlot(proof.node)) & ADDRESS_MASK;
+  if (resolver !== hexToBigInt(proof.resolver) || !isAddressEqual(proof.resolverAccount.address, proof.resolver)) {
+    throw new Error("Resolver does not match the ENS registry record");
+  }
+
+  const { layout } = proof;
+  const layoutSlots = layout.kind === "versioned" ? [layout.recordVersionsSlot, layout.textsSlot] : [layout.textsSlot];
+  if (layoutSlots.some((slot) => slot < 0n || slot >= MAX_LAYOUT_SLOT)) throw new Error("Unexpected resolver layout");
+
+  const valueAt = verifyAccount(proof.resolverAccount, trustedStateRoot);
+  if (layout.kind === "versioned" && valueAt(mappingSlot(proof.node, layout.recordVersionsSlot)) !== proof.recordVersion) {
+    throw new Error("Record version mismatch");
+  }
+
+  return proof.records.map((record) => {
+    const head = textRecordSlot(proof.node, record.key, proof.recordVersion, layout);
+    const headValue = valueAt(head);
+    const value = decodeStorageString(headValue, stringDataSlots(head, headValue).map(valueAt));
+    if (value !== record.value) throw new Error(`Record ${record.key} does not match the proof`);
+    return { key: record.key, value };
+  });
+};
+
+/**
+ * Comprueba que los records probados son exactamente la estrategia que usa el agente.
+ */
+export const proofMatchesStrategy = (proof: StrategyProof, strategy: StrategyRecords, trustedStateRoot: Hex) => {
+  const proven = new Map(verifyStrategyProof(proof, trustedStateRoot).map((r) => [r.key, r.value]));
+  const fields = Object.keys(STRATEGY_RECORD_KEYS) as (keyof StrategyRecords)[];
+  const records = parseStrategyRecords(
+    Object.fromEntries(fields.map((field) => [field, proven.get(STRATEGY_RECORD_KEYS[field]) ?? null])),
+  );
+  return fields.every((field) => records[field] === strategy[field]);
+};
+
+/**
+ * stateRoot del header del bloque de la prueba, pedido por quien verifica a su propio RPC
+ * (ver independentRootUrl).
+ */
+export const fetchTrustedStateRoot = async (client: PublicClient, blockNumber: bigint) =>
+  (await client.getBlock({ blockNumber })).stateRoot;
+
+const normalizeRpcUrl = (url: string) => url.trim().replace(/\/+$/, "").toLowerCase();
+
+/**
+ * RPC del que sale el stateRoot de confianza. Tiene que ser otro proveedor que el que
+ * construye la prueba: con el mismo, un RPC que miente también elige la raíz. Solo se
+ * compara la URL, así que dos URLs del mismo proveedor pasan.
+ */
+export const independentRootUrl = (trustedUrl: string | undefined, proofUrl: string): string => {
+  if (!trustedUrl) {
+    throw new Error("ENS_TRUSTED_RPC_URL is not set: storage proofs need a state root from a second, independent ENS RPC.");
+  }
+  if (normalizeRpcUrl(trustedUrl) === normalizeRpcUrl(proofUrl)) {
+    throw new Error(`ENS_TRUSTED_RPC_URL is the RPC that builds the proofs (${proofUrl}); use an independent provider.`);
+  }
+  return trustedUrl;
+};
+
+/**
+ * Verificador contra el nodo (ej. anvil): el stateRoot sale de su header, no de la prueba.
+ */
+export const verifyStrategyProofOnChain = async (client: PublicClient, proof: StrategyProof) =>
+  verifyStrategyProof(proof, await fetchTrustedStateRoot(client, proof.blockNumber));
@@ -0,0 +1,106 @@
+import {
+  type Address,
+  type PublicClient,
+  encodeFunctionData,
+  parseAbi,
+} from "viem";
+import { namehash, normalize } from "viem/ens";
+import { REBALANCE_STRATEGY_IDS, type RebalanceStrategyId } from "./RebalanceStrategy";
+
+/**
+ * TEXT RECORDS DE ESTRATEGIA (el "control remoto" del README).
+ *
+ * | Key                  | Valor                                  | Ejemplo |
+ * | -------------------- | -------------------------------------- | ------- |
+ * | `strategy_risk`      | Perfil de riesgo: 1, 2 o 3             | `2`     |
+ * | `strategy_stop`      | Precio (EUSD por EETH) donde el agente | `2000`  |
+ * |                      | deja de rebalancear                    |         |
+ * | `strategy_max_width` | Amplitud máxima del rango, fracción ±  | `0.05`  |
+ * | `strategy_kind`      | Estrategia de rebalanceo (ver          | `trend` |
+ * |                      | RebalanceStrategy)                     |         |
+ *
+ * Un record vacío o inválido se interpreta como "sin configurar" (null).
+ */
+export const STRATEGY_RECORD_KEYS = {
+  riskLevel: "strategy_risk",
+  stopPrice: "strategy_stop",
+  maxRangeWidth: "strategy_max_width",
+  strategyKind: "strategy_kind",
+} as const;
+
+export type StrategyRecords = {
+  riskLevel: number | null;
+  stopPrice: number | null;
+  maxRangeWidth: number | null;
+  strategyKind: RebalanceStrategyId | null;
+};
+
+export const EMPTY_STRATEGY: StrategyRecords = { riskLevel: null, stopPrice: null, maxRangeWidth: null, strategyKind: null };
+
+const RESOLVER_ABI = parseAbi([
+  "function setText(bytes32 node, string key, string value)",
+  "function multicall(bytes[] data) returns (bytes[] results)",
+]);
+
+const parsePositive = (value: string | null | undefined) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/**
+ * Valida los strings crudos del resolver.
+ */
+export const parseStrategyRecords = (raw: Partial<Record<keyof StrategyRecords, string | null>>): StrategyRecords => {
+  const risk = Number(raw.riskLevel);
+  const width = parsePositive(raw.maxRangeWidth);
+  return {
+    riskLevel: [1, 2, 3].includes(risk) ? risk : null,
+    stopPrice: parsePositive(raw.stopPrice),
+    // Más de ±100% no tiene sentido para un rango concentrado
+    maxRangeWidth: width !== null && width <= 1 ? width : null,
+    strategyKind: REBALANCE_STRATEGY_IDS.find((id) => id === raw.strategyKind?.trim()) ?? null,
+  };
+};
+
+/**
+ * Serializa solo los campos definidos; null borra el record (string vacío).
+ */
+export const serializeStrategyRecords = (records: StrategyRecords): [string, string][] =>
+  (Object.keys(STRATEGY_RECORD_KEYS) as (keyof StrategyRecords)[]).map((field) => [
+    STRATEGY_RECORD_KEYS[field],
+    records[field] === null ? "" : String(records[field]),
+  ]);
+
+/**
+ * Lee los text records de estrategia desde el resolver del nombre (vía Universal Resolver).
+ */
+export const readStrategyRecords = async (client: PublicClient, ensName: string): Promise<StrategyRecords> => {
+  const name = normalize(ensName);
+  const fields = Object.keys(STRATEGY_RECORD_KEYS) as (keyof StrategyRecords)[];
+
+  const values = await Promise.all(
+    fields.map((field) => client.getEnsText({ name, key: STRATEGY_RECORD_KEYS[field] }).catch(() => null)),
+  );
+
+  return parseStrategyRecords(Object.fromEntries(fields.map((field, i) => [field, values[i]])));
+};
+
+/**
+ * Prepara la escritura de todos los records en una sola transacción (multicall del PublicResolver).
+ */
+export const buildStrategyWrite = async (client: PublicClient, ensName: string, records: StrategyRecords) => {
+  const name = normalize(ensName);
+  const resolver: Address = await client.getEnsResolver({ name });
+  const node = namehash(name);
+
+  const calls = serializeStrategyRecords(records).map(([key, value]) =>
+    encodeFunctionData({ abi: RESOLVER_ABI, functionName: "setText", args: [node, key, value] }),
+  );
+
+  return {
+    address: resolver,
+    abi: RESOLVER_ABI,
+    functionName: "multicall" as const,
+    args: [calls] as const,
+  };
+};
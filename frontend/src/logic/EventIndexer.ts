@@ -0,0 +1,180 @@
+import { type Address, type GetLogsReturnType, type Hex, type PublicClient, parseAbi } from "viem";
+import { CONTRACTS } from "../config/contracts";
+import { ACTIVE_NETWORK } from "../config/networks";
+import type { HistoryCache, HistorySnapshot, PositionEvent } from "./HistoryCache";
+
+/**
+ * INDEXER DEL HISTORIAL DE POSICIÓN.
+ *
+ * Lee UserDeposit / UserWithdrawal / PositionRepositioned (Vault) y AgentSignalProcessed
+ * (Hook) del usuario: primero rellena en rangos de bloques desde el último bloque cacheado
+ * y luego sigue los nuevos con polling. Todos estos eventos tienen `user` indexado, así
+ * que el eth_getLogs de cada evento y rango filtra por usuario en el nodo.
+ */
+export const POSITION_EVENTS_ABI = parseAbi([
+  "event UserDeposit(address indexed user, uint128 amount)",
+  "event UserWithdrawal(address indexed user, uint128 amount, bool isPartial)",
+  "event PositionRepositioned(address indexed user, bytes32 indexed poolId, int24 tickLower, int24 tickUpper, uint128 newLiquidity)",
+  "event AgentSignalProcessed(address indexed user, bytes32 indexed poolId, int24 low, int24 high)",
+]);
+
+// Muchos RPC públicos limitan eth_getLogs a 10k bloques
+export const BLOCK_RANGE = 10_000n;
+// Sin NEXT_PUBLIC_INDEXER_START_BLOCK ni startBlock en el manifiesto se escanea solo la historia reciente
+const DEFAULT_LOOKBACK = 500_000n;
+const POLL_INTERVAL = 15_000;
+
+const [USER_DEPOSIT, USER_WITHDRAWAL, POSITION_REPOSITIONED, AGENT_SIGNAL_PROCESSED] = POSITION_EVENTS_ABI;
+
+type PositionLog = GetLogsReturnType<undefined, typeof POSITION_EVENTS_ABI, true>[number];
+
+/**
+ * Convierte un log decodificado en la forma serializable que guarda la cache.
+ */
+const toPositionEvent = (log: PositionLog): PositionEvent => {
+  const base = {
+    id: `${log.transactionHash}-${log.logIndex}`,
+    blockNumber: Number(log.blockNumber),
+    logIndex: Number(log.logIndex),
+    txHash: log.transactionHash as Hex,
+    timestamp: null,
+  };
+
+  switch (log.eventName) {
+    case "UserDeposit":
+      return { ...base, type: "deposit", liquidity: log.args.amount.toString() };
+    case "UserWithdrawal":
+      return { ...base, type: "withdrawal", liquidity: log.args.amount.toString(), isPartial: log.args.isPartial };
+    case "PositionRepositioned":
+      return {
+        ...base,
+        type: "reposition",
+        poolId: log.args.poolId,
+        tickLower: log.args.tickLower,
+        tickUpper: log.args.tickUpper,
+        liquidity: log.args.newLiquidity.toString(),
+      };
+    case "AgentSignalProcessed":
+      return { ...base, type: "signal", poolId: log.args.poolId, tickLower: log.args.low, tickUpper: log.args.high };
+  }
+};
+
+/**
+ * Logs del usuario en [fromBlock, toBlock] para Vault y Hook.
+ */
+export const fetchPositionEvents = async (client: PublicClient, user: Address, fromBlock: bigint, toBlock: bigint) => {
+  const range = { args: { user }, fromBlock, toBlock, strict: true } as const;
+  const logs = await Promise.all([
+    client.getLogs({ address: CONTRACTS.VAULT, event: USER_DEPOSIT, ...range }),
+    client.getLogs({ address: CONTRACTS.VAULT, event: USER_WITHDRAWAL, ...range }),
+    client.getLogs({ address: CONTRACTS.VAULT, event: POSITION_REPOSITIONED, ...range }),
+    client.getLogs({ address: CONTRACTS.HOOK, event: AGENT_SIGNAL_PROCESSED, ...range }),
+  ]);
+  return logs.flat().map(toPositionEvent);
+};
+
+const addTimestamps = async (client: PublicClient, events: PositionEvent[]) => {
+  const blocks = [...new Set(events.map((e) => e.blockNumber))];
+  const timestamps = new Map(
+    await Promise.all(
+      blocks.map(async (n) => [n, Number((await client.getBlock({ blockNumber: BigInt(n) })).timestamp)] as const),
+    ),
+  );
+  return events.map((e) => ({ ...e, timestamp: timestamps.get(e.blockNumber) ?? null }));
+};
+
+const mergeEvents = (current: PositionEvent[], incoming: PositionEvent[]) => {
+  const byId = new Map(current.map((e) => [e.id, e]));
+  for (const e of incoming) byId.set(e.id, e);
+  return [...byId.values()].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+};
+
+/**
+ * Depositantes del Vault en [fromBlock, toBlock]: UserDeposit de cualquier usuario.
+ */
+export const fetchDepositors = async (client: PublicClient, fromBlock: bigint, toBlock: bigint) => {
+  const logs = await client.getLogs({
+    address: CONTRACTS.VAULT,
+    event: POSITION_EVENTS_ABI[0],
+    fromBlock,
+    toBlock,
+  });
+  return [...new Set(logs.map((log) => log.args.user).filter((user): user is Address => !!user))];
+};
+
+/**
+ * Primer bloque a escanear: NEXT_PUBLIC_INDEXER_START_BLOCK, el startBlock del manifiesto
+ * o, sin ninguno, los últimos DEFAULT_LOOKBACK bloques.
+ */
+export const resolveStartBlock = (latest: bigint) => {
+  const configured = process.env.NEXT_PUBLIC_INDEXER_START_BLOCK || ACTIVE_NETWORK.deployment.startBlock;
+  if (configured !== undefined) return BigInt(configured);
+  return latest > DEFAULT_LOOKBACK ? latest - DEFAULT_LOOKBACK : 0n;
+};
+
+export const historyCacheKey = (chainId: number, user: Address) =>
+  `${chainId}:${CONTRACTS.VAULT}:${user}`.toLowerCase();
+
+export type EventIndexerOptions = {
+  client: PublicClient;
+  user: Address;
+  cache: HistoryCache;
+  startBlock?: bigint;
+  onUpdate?: (snapshot: HistorySnapshot) => void;
+  onError?: (err: unknown) => void;
+};
+
+export const createEventIndexer = ({ client, user, cache, startBlock, onUpdate, onError }: EventIndexerOptions) => {
+  let isRunning = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let snapshot: HistorySnapshot | null = null;
+  let key = "";
+
+  /**
+   * Avanza desde el último bloque cacheado hasta el último bloque de la cadena.
+   */
+  const sync = async () => {
+    const latest = await client.getBlockNumber();
+
+    if (!snapshot) {
+      const from = startBlock ?? resolveStartBlock(latest);
+      snapshot = { startBlock: Number(from), lastBlock: Number(from) - 1, events: [] };
+    }
+
+    for (let from = BigInt(snapshot.lastBlock + 1); from <= latest && isRunning; from += BLOCK_RANGE) {
+      const to = from + BLOCK_RANGE - 1n < latest ? from + BLOCK_RANGE - 1n : latest;
+      const events = await addTimestamps(client, await fetchPositionEvents(client, user, from, to));
+      snapshot = { ...snapshot, lastBlock: Number(to), events: mergeEvents(snapshot.events, events) };
+      await cache.save(key, snapshot);
+      onUpdate?.(snapshot);
+    }
+  };
+
+  const loop = async () => {
+    if (!isRunning) return;
+    try {
+      await sync();
+    } catch (err) {
+      onError?.(err);
+    }
+    if (isRunning) timer = setTimeout(loop, POLL_INTERVAL);
+  };
+
+  return {
+    start: async () => {
+      if (isRunning) return;
+      isRunning = true;
+      key = historyCacheKey(await client.getChainId(), user);
+      snapshot = await cache.load(key);
+      if (snapshot) onUpdate?.(snapshot);
+      await loop();
+    },
+    stop: () => {
+      isRunning = false;
+      clearTimeout(timer);
+    },
+    getSnapshot: () => snapshot,
+  };
+};
+
+export type EventIndexer = ReturnType<typeof createEventIndexer>;
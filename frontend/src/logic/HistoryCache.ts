@@ -0,0 +1,79 @@
+/**
+ * CACHE DEL HISTORIAL: lo que el indexer ya leyó de la cadena, para no volver a
+ * escanear bloques en cada visita. En el navegador vive en IndexedDB; en modo
+ * headless se usa createFileHistoryCache (HistoryCacheFile.ts, solo Node).
+ */
+export type PositionEventType = "deposit" | "withdrawal" | "reposition" | "signal";
+
+// Serializable tal cual (IndexedDB y JSON): bloques como number y cantidades como string decimal
+export type PositionEvent = {
+  id: string; // `${txHash}-${logIndex}`
+  type: PositionEventType;
+  blockNumber: number;
+  logIndex: number;
+  txHash: `0x${string}`;
+  timestamp: number | null;
+  liquidity?: string;
+  isPartial?: boolean;
+  tickLower?: number;
+  tickUpper?: number;
+  poolId?: `0x${string}`;
+};
+
+export type HistorySnapshot = {
+  startBlock: number;
+  lastBlock: number;
+  events: PositionEvent[];
+};
+
+export interface HistoryCache {
+  load(key: string): Promise<HistorySnapshot | null>;
+  save(key: string, snapshot: HistorySnapshot): Promise<void>;
+}
+
+const DB_NAME = "enstable-history";
+const STORE = "snapshots";
+
+const openDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const run = <T>(db: IDBDatabase, mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    const request = op(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const createIndexedDbHistoryCache = (): HistoryCache => {
+  let db: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    db ??= openDb();
+    return db;
+  };
+
+  return {
+    load: async (key) => (await run<HistorySnapshot | undefined>(await getDb(), "readonly", (s) => s.get(key))) ?? null,
+    save: async (key, snapshot) => {
+      await run(await getDb(), "readwrite", (s) => s.put(snapshot, key));
+    },
+  };
+};
+
+// Fallback sin persistencia (SSR o navegadores sin IndexedDB)
+export const createMemoryHistoryCache = (): HistoryCache => {
+  const snapshots = new Map<string, HistorySnapshot>();
+  return {
+    load: async (key) => snapshots.get(key) ?? null,
+    save: async (key, snapshot) => {
+      snapshots.set(key, snapshot);
+    },
+  };
+};
+
+export const createBrowserHistoryCache = (): HistoryCache =>
+  typeof indexedDB === "undefined" ? createMemoryHistoryCache() : createIndexedDbHistoryCache();
@@ -0,0 +1,25 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { HistoryCache, HistorySnapshot } from "./HistoryCache";
+
+/**
+ * Cache en disco para el modo headless (un JSON por clave). Solo Node:
+ * no importar desde componentes del navegador.
+ */
+export const createFileHistoryCache = (dir: string): HistoryCache => {
+  const fileFor = (key: string) => join(dir, `${key.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`);
+
+  return {
+    load: async (key) => {
+      try {
+        return JSON.parse(await readFile(fileFor(key), "utf8")) as HistorySnapshot;
+      } catch {
+        return null;
+      }
+    },
+    save: async (key, snapshot) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(key), JSON.stringify(snapshot, null, 2));
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import { describe, expect, test } from "bun:test";
+import { zeroHash } from "viem";
+import { canSignForIdentity, computeEnsNode, resolveIdentity } from "./Identity";
+
+const node = computeEnsNode("alice.eth");
+
+describe("canSignForIdentity", () => {
+  test("signs only for the node stored in the vault", () => {
+    expect(canSignForIdentity(resolveIdentity("alice.eth", node))).toBe(true);
+    expect(canSignForIdentity(resolveIdentity("alice.eth", computeEnsNode("bob.eth")))).toBe(false);
+    expect(canSignForIdentity(resolveIdentity("alice.eth", zeroHash))).toBe(false);
+    expect(canSignForIdentity(resolveIdentity(null, node))).toBe(false);
+  });
+
+  test("an unsupported vault needs an explicit opt-in", () => {
+    const identity = resolveIdentity("alice.eth", null);
+    expect(identity.status).toBe("unsupported");
+    expect(canSignForIdentity(identity)).toBe(false);
+    expect(canSignForIdentity(identity, { allowUnverifiedNode: true })).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  isHex,
+  parseAbi,
+  size,
+  toFunctionSelector,
+  zeroHash,
+} from "viem";
+import { namehash, normalize } from "viem/ens";
+import { CONTRACTS } from "../config/contracts";
+
+/**
+ * IDENTIDAD: AgentSignal.ensNode debe ser el namehash (bytes32) del nombre primario
+ * del usuario, nunca el nombre en texto ni la dirección.
+ *
+ * - missing:     el usuario no tiene nombre primario.
+ * - invalid:     el nombre no pasa la normalización ENSIP-15.
+ * - unlinked:    el Vault no tiene ningún nodo guardado para el usuario.
+ * - mismatch:    el nodo guardado en el Vault no es el namehash del nombre primario.
+ * - unsupported: el Vault desplegado no expone userNodes, no hay con qué comparar.
+ * - verified:    el namehash coincide con IdentityVault.userNodes.
+ *
+ * Solo se firma para "verified"; "unsupported" necesita allowUnverifiedNode explícito.
+ */
+export type IdentityStatus = "missing" | "invalid" | "unlinked" | "mismatch" | "unsupported" | "verified";
+
+export type Identity = {
+  name: string | null;
+  node: Hex | null;
+  vaultNode: Hex | null;
+  status: IdentityStatus;
+};
+
+// Los ABIs actuales del Vault no incluyen userNodes: lo declaramos aparte
+export const USER_NODES_ABI = parseAbi(["function userNodes(address user) view returns (bytes32)"]);
+
+export type SignPolicy = {
+  // Firmar aunque el Vault no exponga userNodes (no hay nodo con el que comparar)
+  allowUnverifiedNode?: boolean;
+};
+
+export const isNamehash = (value: unknown): value is Hex => isHex(value) && size(value) === 32;
+
+/**
+ * Normaliza (ENSIP-15) y calcula el namehash. Devuelve null si el nombre es inválido.
+ */
+export const computeEnsNode = (ensName: string): Hex | null => {
+  try {
+    return namehash(normalize(ensName));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * true si el bytecode del Vault contiene el selector (el dispatcher lo compara con PUSH4).
+ */
+const vaultHasFunction = async (client: PublicClient, selector: Hex) => {
+  const code = await client.getCode({ address: CONTRACTS.VAULT });
+  if (!code || code === "0x") throw new Error(`No contract deployed at the vault address ${CONTRACTS.VAULT}`);
+  return code.toLowerCase().includes(selector.slice(2).toLowerCase());
+};
+
+/**
+ * Lee el nodo guardado por el Vault. null = el contrato no expone userNodes: un revert
+ * cuenta como "función ausente" solo si el selector no está en el bytecode. Cualquier
+ * otro revert o error del RPC se propaga.
+ */
+export const readVaultNode = async (client: PublicClient, user: Address): Promise<Hex | null> => {
+  try {
+    return await client.readContract({
+      address: CONTRACTS.VAULT,
+      abi: USER_NODES_ABI,
+      functionName: "userNodes",
+      args: [user],
+    });
+  } catch (err) {
+    const reverted =
+      err instanceof BaseError &&
+      err.walk((e) => e instanceof ContractFunctionRevertedError || e instanceof ContractFunctionZeroDataError);
+    if (reverted && !(await vaultHasFunction(client, toFunctionSelector(USER_NODES_ABI[0])))) return null;
+    throw err;
+  }
+};
+
+export const resolveIdentity = (ensName: string | null | undefined, vaultNode: Hex | null): Identity => {
+  if (!ensName) return { name: null, node: null, vaultNode, status: "missing" };
+
+  const node = computeEnsNode(ensName);
+  if (!node) return { name: ensName, node: null, vaultNode, status: "invalid" };
+
+  const status: IdentityStatus =
+    vaultNode === null ? "unsupported" :
+    vaultNode === zeroHash ? "unlinked" :
+    vaultNode.toLowerCase() === node.toLowerCase() ? "verified" : "mismatch";
+
+  return { name: ensName, node, vaultNode, status };
+};
+
+/**
+ * El agente solo firma para un nodo que es un namehash real y que coincide con el Vault.
+ */
+export const canSignForIdentity = (identity: Identity, { allowUnverifiedNode = false }: SignPolicy = {}) =>
+  identity.status === "verified" || (identity.status === "unsupported" && allowUnverifiedNode);
+
+/**
+ * Verificación on-chain previa a cada firma del agente. Lanza si el nodo no coincide o
+ * si el Vault no lo guarda y no se permitió explícitamente.
+ */
+export const assertSignableNode = async (
+  client: PublicClient,
+  user: Address,
+  ensNode: Hex,
+  { allowUnverifiedNode = false }: SignPolicy = {},
+) => {
+  if (!isNamehash(ensNode)) throw new Error(`ensNode is not a bytes32 namehash: ${ensNode}`);
+
+  const vaultNode = await readVaultNode(client, user);
+  if (vaultNode === null) {
+    if (allowUnverifiedNode) return;
+    throw new Error("The vault does not expose userNodes: the ENS node cannot be verified (allowUnverifiedNode is off)");
+  }
+  if (vaultNode.toLowerCase() !== ensNode.toLowerCase()) {
+    throw new Error(`ENS node mismatch: vault has ${vaultNode}, agent got ${ensNode}`);
+  }
+};
@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import {
+  MAX_UINT128,
+  getAmountsForLiquidity,
+  getLiquidityForAmount1,
+  getLiquidityForAmounts,
+  previewWithdraw,
+} from "./LiquidityMath";
+import { getSqrtPriceAtTick } from "./TickMath";
+
+// encodePriceSqrt(reserve1, reserve0) de los tests de LiquidityAmounts (v3-periphery)
+const isqrt = (n: bigint) => {
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+};
+const encodePriceSqrt = (reserve1: bigint, reserve0: bigint) => isqrt((reserve1 << 192n) / reserve0);
+
+const sqrtA = encodePriceSqrt(100n, 110n);
+const sqrtB = encodePriceSqrt(110n, 100n);
+
+describe("getLiquidityForAmounts", () => {
+  test("below the range only token0 counts", () => {
+    expect(getLiquidityForAmounts(encodePriceSqrt(99n, 110n), sqrtA, sqrtB, 100n, 200n)).toBe(1048n);
+    expect(getLiquidityForAmounts(sqrtA, sqrtA, sqrtB, 100n, 200n)).toBe(1048n);
+  });
+
+  test("inside the range the scarcer token limits the liquidity", () => {
+    expect(getLiquidityForAmounts(encodePriceSqrt(1n, 1n), sqrtA, sqrtB, 100n, 200n)).toBe(2148n);
+  });
+
+  test("above the range only token1 counts", () => {
+    expect(getLiquidityForAmounts(encodePriceSqrt(111n, 100n), sqrtA, sqrtB, 100n, 200n)).toBe(2097n);
+    expect(getLiquidityForAmounts(sqrtB, sqrtA, sqrtB, 100n, 200n)).toBe(2097n);
+  });
+
+  test("throws instead of clamping past uint128, like SafeCast", () => {
+    expect(() => getLiquidityForAmount1(sqrtA, sqrtA + 1n, MAX_UINT128)).toThrow("overflows uint128");
+  });
+});
+
+describe("getAmountsForLiquidity", () => {
+  test("below, inside and above the range", () => {
+    expect(getAmountsForLiquidity(encodePriceSqrt(99n, 110n), sqrtA, sqrtB, 1048n)).toEqual({ amount0: 99n, amount1: 0n });
+    expect(getAmountsForLiquidity(encodePriceSqrt(1n, 1n), sqrtA, sqrtB, 2148n)).toEqual({ amount0: 99n, amount1: 99n });
+    expect(getAmountsForLiquidity(encodePriceSqrt(111n, 100n), sqrtA, sqrtB, 2097n)).toEqual({ amount0: 0n, amount1: 199n });
+  });
+
+  test("rounding up charges at least what rounding down returns", () => {
+    const price = encodePriceSqrt(1n, 1n);
+    const down = getAmountsForLiquidity(price, sqrtA, sqrtB, 10n ** 18n);
+    const up = getAmountsForLiquidity(price, sqrtA, sqrtB, 10n ** 18n, true);
+    expect(up.amount0 - down.amount0).toBeLessThanOrEqual(1n);
+    expect(up.amount1 - down.amount1).toBeLessThanOrEqual(1n);
+    expect(up.amount0).toBeGreaterThanOrEqual(down.amount0);
+    expect(up.amount1).toBeGreaterThanOrEqual(down.amount1);
+  });
+
+  test("minted liquidity never withdraws more than was deposited", () => {
+    const [amount0, amount1] = [5n * 10n ** 18n, 12_000n * 10n ** 18n];
+    const price = getSqrtPriceAtTick(120);
+    const liquidity = getLiquidityForAmounts(price, getSqrtPriceAtTick(-600), getSqrtPriceAtTick(600), amount0, amount1);
+    const out = previewWithdraw({ sqrtPriceX96: price, tickLower: -600, tickUpper: 600, liquidity });
+    expect(out.amount0).toBeLessThanOrEqual(amount0);
+    expect(out.amount1).toBeLessThanOrEqual(amount1);
+  });
+});
@@ -0,0 +1,188 @@
+import { getSqrtPriceAtTick } from "./TickMath";
+
+/**
+ * Port de LiquidityAmounts / SqrtPriceMath (v4-periphery, v4-core) en bigint.
+ * IdentityVault.deposit recibe LIQUIDEZ (uint128), no cantidades de tokens:
+ * este módulo hace la traducción en ambos sentidos.
+ */
+
+const Q96 = 2n ** 96n;
+export const MAX_UINT128 = 2n ** 128n - 1n;
+
+const sortSqrt = (a: bigint, b: bigint): [bigint, bigint] => (a > b ? [b, a] : [a, b]);
+
+const divRoundingUp = (a: bigint, b: bigint) => a / b + (a % b === 0n ? 0n : 1n);
+
+// SafeCast.toUint128: el PoolManager revierte en vez de recortar
+const toUint128 = (x: bigint) => {
+  if (x > MAX_UINT128) throw new Error(`Liquidity ${x} overflows uint128.`);
+  return x;
+};
+
+// --- CANTIDADES → LIQUIDEZ ---
+
+export const getLiquidityForAmount0 = (sqrtPriceAX96: bigint, sqrtPriceBX96: bigint, amount0: bigint): bigint => {
+  const [sqrtA, sqrtB] = sortSqrt(sqrtPriceAX96, sqrtPriceBX96);
+  const intermediate = (sqrtA * sqrtB) / Q96;
+  return toUint128((amount0 * intermediate) / (sqrtB - sqrtA));
+};
+
+export const getLiquidityForAmount1 = (sqrtPriceAX96: bigint, sqrtPriceBX96: bigint, amount1: bigint): bigint => {
+  const [sqrtA, sqrtB] = sortSqrt(sqrtPriceAX96, sqrtPriceBX96);
+  return toUint128((amount1 * Q96) / (sqrtB - sqrtA));
+};
+
+/**
+ * Máxima liquidez que se puede acuñar con amount0 y amount1 al precio actual.
+ */
+export const getLiquidityForAmounts = (
+  sqrtPriceX96: bigint,
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  amount0: bigint,
+  amount1: bigint,
+): bigint => {
+  const [sqrtA, sqrtB] = sortSqrt(sqrtPriceAX96, sqrtPriceBX96);
+
+  if (sqrtPriceX96 <= sqrtA) return getLiquidityForAmount0(sqrtA, sqrtB, amount0);
+  if (sqrtPriceX96 < sqrtB) {
+    const liquidity0 = getLiquidityForAmount0(sqrtPriceX96, sqrtB, amount0);
+    const liquidity1 = getLiquidityForAmount1(sqrtA, sqrtPriceX96, amount1);
+    return liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+  }
+  return getLiquidityForAmount1(sqrtA, sqrtB, amount1);
+};
+
+// --- LIQUIDEZ → CANTIDADES ---
+
+export const getAmount0ForLiquidity = (
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean = false,
+): bigint => {
+  const [sqrtA, sqrtB] = sortSqrt(sqrtPriceAX96, sqrtPriceBX96);
+  const numerator = (liquidity << 96n) * (sqrtB - sqrtA);
+  return roundUp ? divRoundingUp(divRoundingUp(numerator, sqrtB), sqrtA) : numerator / sqrtB / sqrtA;
+};
+
+export const getAmount1ForLiquidity = (
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean = false,
+): bigint => {
+  const [sqrtA, sqrtB] = sortSqrt(sqrtPriceAX96, sqrtPriceBX96);
+  const numerator = liquidity * (sqrtB - sqrtA);
+  return roundUp ? divRoundingUp(numerator, Q96) : numerator / Q96;
+};
+
+/**
+ * Tokens que representa una liquidez dada. Con roundUp = true devuelve lo que el
+ * PoolManager cobra al añadir; con false, lo que entrega al retirar.
+ */
+export const getAmountsForLiquidity = (
+  sqrtPriceX96: bigint,
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean = false,
+): { amount0: bigint; amount1: bigint } => {
+  const [sqrtA, sqrtB] = sortSqrt(sqrtPriceAX96, sqrtPriceBX96);
+
+  if (sqrtPriceX96 <= sqrtA) {
+    return { amount0: getAmount0ForLiquidity(sqrtA, sqrtB, liquidity, roundUp), amount1: 0n };
+  }
+  if (sqrtPriceX96 < sqrtB) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtPriceX96, sqrtB, liquidity, roundUp),
+      amount1: getAmount1ForLiquidity(sqrtA, sqrtPriceX96, liquidity, roundUp),
+    };
+  }
+  return { amount0: 0n, amount1: getAmount1ForLiquidity(sqrtA, sqrtB, liquidity, roundUp) };
+};
+
+// --- PREVIEW DE DEPÓSITO ---
+
+export type DepositPreview = {
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  // Máximo que se puede cobrar si el precio se mueve dentro del slippage
+  amount0Max: bigint;
+  amount1Max: bigint;
+};
+
+/**
+ * Escala sqrtPriceX96 por sqrt(1 ± slippage), es decir, mueve el precio un ±slippage.
+ */
+const shiftSqrtPrice = (sqrtPriceX96: bigint, priceFactor: number) => {
+  const scale = 1_000_000_000n;
+  return (sqrtPriceX96 * BigInt(Math.round(Math.sqrt(priceFactor) * Number(scale)))) / scale;
+};
+
+/**
+ * Calcula la liquidez que corresponde a depositar `amount` de un token en
+ * [tickLower, tickUpper] y cuánto se cobrará realmente de cada token.
+ */
+export const previewDeposit = ({
+  sqrtPriceX96,
+  tickLower,
+  tickUpper,
+  amount,
+  amountIsToken0,
+  slippage = 0.005,
+}: {
+  sqrtPriceX96: bigint;
+  tickLower: number;
+  tickUpper: number;
+  amount: bigint;
+  amountIsToken0: boolean;
+  slippage?: number;
+}): DepositPreview => {
+  const sqrtA = getSqrtPriceAtTick(tickLower);
+  const sqrtB = getSqrtPriceAtTick(tickUpper);
+
+  // Liquidez limitada solo por el token que ingresó el usuario.
+  // Si el precio está fuera del rango y ese token no se usa, la liquidez es 0.
+  let liquidity = 0n;
+  if (amountIsToken0 && sqrtPriceX96 < sqrtB) {
+    liquidity = getLiquidityForAmount0(sqrtPriceX96 > sqrtA ? sqrtPriceX96 : sqrtA, sqrtB, amount);
+  } else if (!amountIsToken0 && sqrtPriceX96 > sqrtA) {
+    liquidity = getLiquidityForAmount1(sqrtA, sqrtPriceX96 < sqrtB ? sqrtPriceX96 : sqrtB, amount);
+  }
+
+  const { amount0, amount1 } = getAmountsForLiquidity(sqrtPriceX96, sqrtA, sqrtB, liquidity, true);
+
+  const atLow = getAmountsForLiquidity(shiftSqrtPrice(sqrtPriceX96, 1 - slippage), sqrtA, sqrtB, liquidity, true);
+  const atHigh = getAmountsForLiquidity(shiftSqrtPrice(sqrtPriceX96, 1 + slippage), sqrtA, sqrtB, liquidity, true);
+
+  const max = (...xs: bigint[]) => xs.reduce((a, b) => (a > b ? a : b));
+
+  return {
+    liquidity,
+    amount0,
+    amount1,
+    amount0Max: max(amount0, atLow.amount0, atHigh.amount0),
+    amount1Max: max(amount1, atLow.amount1, atHigh.amount1),
+  };
+};
+
+// --- PREVIEW DE RETIRO ---
+
+/**
+ * Tokens que devolverá IdentityVault.withdraw al quitar `liquidity` de [tickLower, tickUpper].
+ * Redondea hacia abajo, igual que el PoolManager al retirar.
+ */
+export const previewWithdraw = ({
+  sqrtPriceX96,
+  tickLower,
+  tickUpper,
+  liquidity,
+}: {
+  sqrtPriceX96: bigint;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+}): { amount0: bigint; amount1: bigint } =>
+  getAmountsForLiquidity(sqrtPriceX96, getSqrtPriceAtTick(tickLower), getSqrtPriceAtTick(tickUpper), liquidity);
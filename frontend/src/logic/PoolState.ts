@@ -0,0 +1,105 @@
+import {
+  type Address,
+  type Hex,
+  type PublicClient,
+  encodeAbiParameters,
+  keccak256,
+  parseAbi,
+  hexToBigInt,
+  numberToHex,
+} from "viem";
+import { CONTRACTS } from "../config/contracts";
+
+export type PoolKey = {
+  currency0: Address;
+  currency1: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+};
+
+/**
+ * Estado de la pool tal como lo ve el Hook en _validatePriceRange (getSlot0 + liquidez).
+ */
+export type PoolState = {
+  sqrtPriceX96: bigint;
+  tick: number;
+  protocolFee: number;
+  lpFee: number;
+  liquidity: bigint;
+};
+
+// Extsload del PoolManager (equivalente a lo que hace StateView/StateLibrary)
+export const POOL_MANAGER_ABI = parseAbi([
+  "function extsload(bytes32 slot) view returns (bytes32)",
+  "function extsload(bytes32[] slots) view returns (bytes32[])",
+]);
+
+// StateLibrary: POOLS_SLOT = 6, LIQUIDITY_OFFSET = 3
+const POOLS_SLOT = 6n;
+const LIQUIDITY_OFFSET = 3n;
+
+/**
+ * PoolId = keccak256(abi.encode(PoolKey)), igual que PoolIdLibrary.toId
+ */
+export const getPoolId = (poolKey: PoolKey): Hex =>
+  keccak256(
+    encodeAbiParameters(
+      [
+        { type: "address" },
+        { type: "address" },
+        { type: "uint24" },
+        { type: "int24" },
+        { type: "address" },
+      ],
+      [poolKey.currency0, poolKey.currency1, poolKey.fee, poolKey.tickSpacing, poolKey.hooks],
+    ),
+  );
+
+/**
+ * Slots de almacenamiento del Pool.State dentro del PoolManager: [slot0, liquidity]
+ */
+export const getPoolStateSlots = (poolKey: PoolKey): [Hex, Hex] => {
+  const stateSlot = keccak256(
+    encodeAbiParameters([{ type: "bytes32" }, { type: "uint256" }], [getPoolId(poolKey), POOLS_SLOT]),
+  );
+  const liquiditySlot = numberToHex(hexToBigInt(stateSlot) + LIQUIDITY_OFFSET, { size: 32 });
+  return [stateSlot, liquiditySlot];
+};
+
+/**
+ * Decodifica el slot0 empaquetado:
+ * [lpFee: 24] [protocolFee: 24] [tick: 24] [sqrtPriceX96: 160]
+ */
+export const decodePoolState = (slot0Word: Hex, liquidityWord: Hex): PoolState => {
+  const slot0 = hexToBigInt(slot0Word);
+  const rawTick = Number((slot0 >> 160n) & 0xffffffn);
+
+  return {
+    sqrtPriceX96: slot0 & ((1n << 160n) - 1n),
+    // int24 con signo
+    tick: rawTick >= 0x800000 ? rawTick - 0x1000000 : rawTick,
+    protocolFee: Number((slot0 >> 184n) & 0xffffffn),
+    lpFee: Number((slot0 >> 208n) & 0xffffffn),
+    liquidity: hexToBigInt(liquidityWord) & ((1n << 128n) - 1n),
+  };
+};
+
+/**
+ * Lee slot0 y liquidez en una sola llamada al PoolManager.
+ */
+export const readPoolState = async (client: PublicClient, poolKey: PoolKey): Promise<PoolState> => {
+  const words = await client.readContract({
+    address: CONTRACTS.POOL_MANAGER,
+    abi: POOL_MANAGER_ABI,
+    functionName: "extsload",
+    args: [getPoolStateSlots(poolKey)],
+  });
+
+  const [slot0Word, liquidityWord] = words as readonly Hex[];
+  if (!slot0Word || !liquidityWord) throw new Error("Unexpected extsload response");
+
+  const state = decodePoolState(slot0Word, liquidityWord);
+  if (state.sqrtPriceX96 === 0n) throw new Error("Pool not initialized");
+  return state;
+};
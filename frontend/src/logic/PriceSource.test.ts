@@ -0,0 +1,76 @@
+import { describe, expect, test } from "bun:test";
+import type { PublicClient } from "viem";
+import {
+  type PricePoint,
+  createReplayPriceSource,
+  createSampledPriceSource,
+  getConfiguredPriceSource,
+  loadReplayFile,
+} from "./PriceSource";
+
+const series: PricePoint[] = [1, 2, 3, 4, 5].map((price) => ({ time: price * 60_000, price }));
+
+const play = async (source: ReturnType<typeof createReplayPriceSource>, reads: number) => {
+  for (let i = 0; i < reads; i++) await source.getPrice();
+};
+
+describe("createReplayPriceSource", () => {
+  test("history is the trailing window of replayed points", async () => {
+    const source = createReplayPriceSource(series);
+    expect((await source.getHistory?.(3))?.map((p) => p.price)).toEqual([1]);
+    await play(source, 4);
+    expect((await source.getHistory?.(3))?.map((p) => p.price)).toEqual([2, 3, 4]);
+  });
+
+  test("history keeps the trailing window after the cursor wraps", async () => {
+    const source = createReplayPriceSource(series);
+    await play(source, 5);
+    expect((await source.getHistory?.(3))?.map((p) => p.price)).toEqual([3, 4, 5]);
+    await play(source, 2);
+    expect((await source.getHistory?.(4))?.map((p) => p.price)).toEqual([4, 5, 1, 2]);
+    expect(await source.getHistory?.(10)).toHaveLength(series.length);
+  });
+
+  test("without loop the history stops at the last point", async () => {
+    const source = createReplayPriceSource(series, false);
+    await play(source, 8);
+    expect(await source.getPrice()).toBe(5);
+    expect((await source.getHistory?.(2))?.map((p) => p.price)).toEqual([4, 5]);
+  });
+});
+
+describe("createSampledPriceSource", () => {
+  test("every reader of a cycle sees the same replay point", async () => {
+    const source = createSampledPriceSource(createReplayPriceSource(series));
+    const cycles: number[][] = [];
+    for (let cycle = 0; cycle < 3; cycle++) {
+      source.resample();
+      // Tres agentes de la misma pool
+      cycles.push(await Promise.all([source.getPrice(), source.getPrice(), source.getPrice()]));
+    }
+    expect(cycles).toEqual([
+      [1, 1, 1],
+      [2, 2, 2],
+      [3, 3, 3],
+    ]);
+    expect((await source.getHistory?.(5))?.map((p) => p.price)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("replay configuration", () => {
+  test("requires an explicit replay URL", async () => {
+    const previous = process.env.NEXT_PUBLIC_PRICE_REPLAY_URL;
+    delete process.env.NEXT_PUBLIC_PRICE_REPLAY_URL;
+    try {
+      await expect(getConfiguredPriceSource({} as PublicClient, undefined, "replay")).rejects.toThrow(
+        "NEXT_PUBLIC_PRICE_REPLAY_URL is required",
+      );
+    } finally {
+      if (previous !== undefined) process.env.NEXT_PUBLIC_PRICE_REPLAY_URL = previous;
+    }
+  });
+
+  test("refuses a relative URL outside the browser", async () => {
+    await expect(loadReplayFile("/replay/ethusdc.json")).rejects.toThrow("is relative");
+  });
+});
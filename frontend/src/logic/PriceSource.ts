@@ -0,0 +1,184 @@
+import type { PublicClient } from "viem";
+import { DEFAULT_POOL, type PoolConfig } from "../config/pools";
+import { readPoolState } from "./PoolState";
+import { sqrtPriceX96ToPrice } from "./TickMath";
+
+/**
+ * Punto de precio con timestamp en milisegundos (mismo formato que Date.now()).
+ */
+export type PricePoint = { time: number; price: number };
+
+/**
+ * Fuente de precio intercambiable. El agente y la UI solo conocen esta interfaz,
+ * así que da igual si el precio viene de la pool v4, de un exchange o de un archivo.
+ */
+export interface PriceSource {
+  id: string;
+  label: string;
+  getPrice: () => Promise<number>;
+  getHistory?: (limit: number) => Promise<PricePoint[]>;
+}
+
+export type PriceSourceKind = "pool" | "cex" | "median" | "replay";
+
+/**
+ * PRECIO ON-CHAIN: Lee sqrtPriceX96 del slot0 de la pool v4 (ver PoolState).
+ * Devuelve el precio del token base expresado en el otro token.
+ */
+export const createPoolPriceSource = (client: PublicClient, pool: PoolConfig = DEFAULT_POOL): PriceSource => ({
+  id: "pool",
+  label: `Uniswap v4 Pool ${pool.label}`,
+  getPrice: async () => {
+    const { sqrtPriceX96 } = await readPoolState(client, pool.key);
+    return sqrtPriceX96ToPrice(sqrtPriceX96, pool.priceContext);
+  },
+});
+
+/**
+ * PRECIO CEX: Feed REST con formato Binance (ticker + klines).
+ */
+export const createCexPriceSource = (
+  symbol: string = "ETHUSDC",
+  baseUrl: string = "https://api.binance.com",
+): PriceSource => ({
+  id: "cex",
+  label: `CEX ${symbol}`,
+  getPrice: async () => {
+    const res = await fetch(`${baseUrl}/api/v3/ticker/price?symbol=${symbol}`);
+    if (!res.ok) throw new Error(`CEX feed responded ${res.status}`);
+    const { price } = (await res.json()) as { price: string };
+    return parseFloat(price);
+  },
+  getHistory: async (limit: number) => {
+    const res = await fetch(`${baseUrl}/api/v3/klines?symbol=${symbol}&interval=1m&limit=${limit}`);
+    if (!res.ok) throw new Error(`CEX feed responded ${res.status}`);
+    return parseKlines(await res.json());
+  },
+});
+
+/**
+ * MEDIANA: Consulta todas las fuentes en paralelo e ignora las que fallan.
+ */
+export const createMedianPriceSource = (sources: PriceSource[]): PriceSource => ({
+  id: "median",
+  label: `Median (${sources.map((s) => s.id).join(", ")})`,
+  getPrice: async () => {
+    const results = await Promise.allSettled(sources.map((s) => s.getPrice()));
+    const prices = results
+      .filter((r): r is PromiseFulfilledResult<number> => r.status === "fulfilled")
+      .map((r) => r.value)
+      .filter((p) => Number.isFinite(p) && p > 0)
+      .sort((a, b) => a - b);
+
+    if (prices.length === 0) throw new Error("No price source available");
+
+    const mid = Math.floor(prices.length / 2);
+    return prices.length % 2 === 0
+      ? ((prices[mid - 1] as number) + (prices[mid] as number)) / 2
+      : (prices[mid] as number);
+  },
+  getHistory: sources.find((s) => s.getHistory)?.getHistory,
+});
+
+/**
+ * REPLAY: Reproduce una serie grabada, un punto por cada lectura.
+ * Útil para correr el agente offline con datos deterministas.
+ */
+export const createReplayPriceSource = (points: PricePoint[], loop: boolean = true): PriceSource => {
+  if (points.length === 0) throw new Error("Replay source needs at least one price point");
+  let cursor = 0;
+  // Lecturas servidas: con loop la serie da vueltas y el cursor vuelve a 0
+  let played = 0;
+
+  return {
+    id: "replay",
+    label: `Replay (${points.length} pts)`,
+    getPrice: async () => {
+      const point = points[cursor] as PricePoint;
+      played++;
+      if (cursor < points.length - 1) cursor++;
+      else if (loop) cursor = 0;
+      return point.price;
+    },
+    // Ventana de los últimos puntos reproducidos (al menos el primero), cruzando el final de la serie si hizo falta
+    getHistory: async (limit: number) => {
+      const replayed = loop ? played : Math.min(played, points.length);
+      const last = Math.max(0, replayed - 1);
+      const count = Math.min(limit, Math.max(1, replayed), points.length);
+      return Array.from({ length: count }, (_, i) => points[(last - count + 1 + i) % points.length] as PricePoint);
+    },
+  };
+};
+
+/**
+ * Una fuente que leen varios agentes a la vez (el daemon comparte una por pool): getPrice
+ * lee la fuente una sola vez hasta el siguiente resample() y todos ven el mismo precio.
+ * Sin esto, con replay cada lectura avanzaría el cursor y cada agente vería otro punto.
+ */
+export const createSampledPriceSource = (source: PriceSource) => {
+  let sample: Promise<number> | null = null;
+  return {
+    ...source,
+    getPrice: () => {
+      sample ??= source.getPrice();
+      return sample;
+    },
+    resample: () => {
+      sample = null;
+    },
+  };
+};
+
+export type SampledPriceSource = ReturnType<typeof createSampledPriceSource>;
+
+/**
+ * Acepta klines de Binance ([openTime, open, high, low, close, ...])
+ * o un arreglo de objetos { time, price }.
+ */
+export const parseKlines = (data: unknown): PricePoint[] => {
+  if (!Array.isArray(data)) throw new Error("Invalid price history format");
+  return data.map((row) => {
+    if (Array.isArray(row)) return { time: Number(row[0]), price: parseFloat(row[4]) };
+    const { time, price } = row as { time: number | string; price: number | string };
+    return { time: Number(time), price: Number(price) };
+  });
+};
+
+/**
+ * Carga un archivo de replay (JSON) desde una URL o ruta servida por Next. Fuera del
+ * navegador una ruta relativa no tiene origen: el daemon usa `replayFile` (ver agent/).
+ */
+export const loadReplayFile = async (url: string): Promise<PricePoint[]> => {
+  if (url.startsWith("/") && typeof window === "undefined") {
+    throw new Error(`Replay URL ${url} is relative: use an absolute URL, or replayFile in the headless agent.`);
+  }
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Replay file not found: ${url}`);
+  return parseKlines(await res.json());
+};
+
+/**
+ * Construye la fuente indicada en NEXT_PUBLIC_PRICE_SOURCE (por defecto "cex").
+ */
+export const getConfiguredPriceSource = async (
+  client: PublicClient,
+  pool: PoolConfig = DEFAULT_POOL,
+  kind: PriceSourceKind = (process.env.NEXT_PUBLIC_PRICE_SOURCE as PriceSourceKind) || "cex",
+): Promise<PriceSource> => {
+  switch (kind) {
+    case "pool":
+      return createPoolPriceSource(client, pool);
+    case "median":
+      return createMedianPriceSource([createPoolPriceSource(client, pool), createCexPriceSource(pool.cexSymbol)]);
+    case "replay": {
+      // El repo no trae ninguna grabación: la URL es obligatoria
+      const url = process.env.NEXT_PUBLIC_PRICE_REPLAY_URL;
+      if (!url) {
+        throw new Error("NEXT_PUBLIC_PRICE_REPLAY_URL is required with NEXT_PUBLIC_PRICE_SOURCE=replay (klines JSON, e.g. served from public/).");
+      }
+      return createReplayPriceSource(await loadReplayFile(url));
+    }
+    default:
+      return createCexPriceSource(pool.cexSymbol);
+  }
+};
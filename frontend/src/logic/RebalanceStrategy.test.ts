@@ -0,0 +1,142 @@
+import { describe, expect, test } from "bun:test";
+import { namehash } from "viem";
+import { EMPTY_STRATEGY, type StrategyRecords } from "./EnsStrategy";
+import {
+  type MarketSample,
+  type MarketState,
+  type PositionState,
+  type RebalanceStrategyId,
+  getRebalanceStrategy,
+  pushMarketSample,
+} from "./RebalanceStrategy";
+
+const ensNode = namehash("alice.eth");
+
+const market: MarketState = {
+  price: 1,
+  currentTick: 0,
+  tickSpacing: 60,
+  history: [],
+  volatility: null,
+  timestamp: 1_000n,
+};
+
+const position: PositionState = {
+  range: { lower: -600, upper: 600 },
+  liquidity: 1_000n,
+  lastSignalPrice: 1,
+};
+
+const profileFor = (strategyKind: RebalanceStrategyId | null, riskLevel = 2): StrategyRecords => ({
+  ...EMPTY_STRATEGY,
+  riskLevel,
+  strategyKind,
+});
+
+// Rango propuesto por la estrategia, o null si no quiere moverse
+const rangeOf = (
+  strategyKind: RebalanceStrategyId | null,
+  marketOverrides: Partial<MarketState> = {},
+  positionOverrides: Partial<PositionState> = {},
+  riskLevel = 2,
+) => {
+  const profile = profileFor(strategyKind, riskLevel);
+  const signal = getRebalanceStrategy(profile).evaluate(
+    { ...market, ...marketOverrides },
+    { ...position, ...positionOverrides },
+    { profile, ensNode, purpose: "rebalance" },
+  );
+  return signal && [signal.recommendedLower, signal.recommendedUpper];
+};
+
+// Diez lecturas en las que el tick avanza `step` cada vez hasta el actual (0)
+const trending = (step: number): MarketSample[] =>
+  Array.from({ length: 10 }, (_, i) => ({ time: i * 30_000, price: 1, tick: (i - 9) * step }));
+
+describe("getRebalanceStrategy", () => {
+  test("defaults to fixed without strategy_kind", () => {
+    expect(getRebalanceStrategy(EMPTY_STRATEGY).id).toBe("fixed");
+    expect(getRebalanceStrategy(profileFor("trend")).id).toBe("trend");
+  });
+
+  test("a recovery always proposes a range, whatever the trigger says", () => {
+    for (const kind of ["fixed", "volatility", "trend", "out-of-range"] as const) {
+      const profile = profileFor(kind);
+      const signal = getRebalanceStrategy(profile).evaluate(market, position, { profile, ensNode, purpose: "recovery" });
+      expect(signal).not.toBeNull();
+    }
+  });
+});
+
+describe("fixed", () => {
+  test("re-centers only past 2% from the last signal", () => {
+    expect(rangeOf("fixed", { price: 1.019 })).toBeNull();
+    expect(rangeOf("fixed", { price: 1.03 })).toEqual([-240, 240]);
+    expect(rangeOf("fixed", { price: 0.97 })).toEqual([-240, 240]);
+    // Sin señal previa siempre rebalancea
+    expect(rangeOf("fixed", {}, { lastSignalPrice: 0 })).toEqual([-240, 240]);
+  });
+
+  test("narrows the range for risk 3 and respects strategy_max_width", () => {
+    expect(rangeOf("fixed", { price: 1.03 }, {}, 3)).toEqual([-60, 60]);
+    const profile = { ...profileFor("fixed"), maxRangeWidth: 0.005 };
+    const signal = getRebalanceStrategy(profile).evaluate({ ...market, price: 1.03 }, position, {
+      profile,
+      ensNode,
+      purpose: "rebalance",
+    });
+    expect([signal?.recommendedLower, signal?.recommendedUpper]).toEqual([-60, 60]);
+  });
+});
+
+describe("volatility", () => {
+  test("scales the width with σ", () => {
+    const outOfRange = { range: null };
+    expect(rangeOf("volatility", { volatility: 0.5 }, outOfRange)).toEqual([-180, 180]);
+    expect(rangeOf("volatility", { volatility: 1 }, outOfRange)).toEqual([-360, 360]);
+    expect(rangeOf("volatility", { volatility: 2 }, outOfRange)).toEqual([-660, 660]);
+    // Sin estimación usa el ancho fijo del perfil
+    expect(rangeOf("volatility", {}, outOfRange)).toEqual([-240, 240]);
+  });
+
+  test("triggers at half its width or when the tick leaves the range", () => {
+    // σ = 100% anual → ±3.2% a una hora: 1% no basta, 2% sí
+    expect(rangeOf("volatility", { volatility: 1, price: 1.01 })).toBeNull();
+    expect(rangeOf("volatility", { volatility: 1, price: 1.02 })).not.toBeNull();
+    expect(rangeOf("volatility", { volatility: 1, currentTick: 600 })).not.toBeNull();
+  });
+});
+
+describe("trend", () => {
+  test("shifts the fixed width towards the drift of the pool tick", () => {
+    expect(rangeOf("trend", { price: 1.03, history: trending(20) })).toEqual([-120, 300]);
+    expect(rangeOf("trend", { price: 1.03, history: trending(-20) })).toEqual([-300, 120]);
+    // Sin historial queda centrado, como fixed
+    expect(rangeOf("trend", { price: 1.03 })).toEqual([-240, 240]);
+  });
+
+  test("uses the same 2% trigger as fixed", () => {
+    expect(rangeOf("trend", { price: 1.01, history: trending(20) })).toBeNull();
+  });
+});
+
+describe("out-of-range", () => {
+  test("ignores price moves while the tick stays inside the range", () => {
+    expect(rangeOf("out-of-range", { price: 1.5, currentTick: 599 })).toBeNull();
+    expect(rangeOf("out-of-range", { price: 1.5, currentTick: -600 })).toBeNull();
+  });
+
+  test("re-centers once the tick exits, the upper tick being exclusive", () => {
+    expect(rangeOf("out-of-range", { currentTick: 600 })).toEqual([360, 840]);
+    expect(rangeOf("out-of-range", { currentTick: -601 })).not.toBeNull();
+    expect(rangeOf("out-of-range", {}, { range: null })).toEqual([-240, 240]);
+  });
+});
+
+describe("pushMarketSample", () => {
+  test("keeps only the latest samples", () => {
+    const history: MarketSample[] = [];
+    for (let i = 0; i < 5; i++) pushMarketSample(history, { time: i, price: 1, tick: i }, 3);
+    expect(history.map((s) => s.tick)).toEqual([2, 3, 4]);
+  });
+});
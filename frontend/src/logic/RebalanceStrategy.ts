@@ -0,0 +1,195 @@
+import type { Hex } from "viem";
+import type { AgentSignal } from "../config/contracts";
+import type { StrategyRecords } from "./EnsStrategy";
+import { alignRange, getRangeAroundTick } from "./TickMath";
+import { scaleVolatility, toSignalVolatility } from "./Volatility";
+
+/**
+ * ESTRATEGIAS DE REBALANCEO: deciden cuándo mover la liquidez y a qué rango. El loop del
+ * agente y el backtester solo llaman a evaluate(); el text record strategy_kind elige la
+ * implementación y strategy_risk / strategy_max_width la ajustan.
+ *
+ * | id             | Cuándo propone una señal                    | Rango                                   |
+ * | -------------- | ------------------------------------------- | --------------------------------------- |
+ * | `fixed`        | Precio > 2% desde la última señal           | ±0.5% (riesgo 3) o ±2%                  |
+ * | `volatility`   | Precio > medio ancho desde la última señal  | k·σ a una hora (k = 4, 3, 2 por riesgo) |
+ * | `trend`        | Precio > 2% desde la última señal           | Ancho fijo desplazado hacia la tendencia |
+ * | `out-of-range` | El tick sale del rango vigente              | ±0.5% (riesgo 3) o ±2%                  |
+ *
+ * Sin strategy_kind se usa `fixed` (la regla original del agente). Para añadir una
+ * estrategia basta con registrarla en REBALANCE_STRATEGIES.
+ */
+export const REBALANCE_STRATEGY_IDS = ["fixed", "volatility", "trend", "out-of-range"] as const;
+
+export type RebalanceStrategyId = (typeof REBALANCE_STRATEGY_IDS)[number];
+
+export const DEFAULT_REBALANCE_STRATEGY: RebalanceStrategyId = "fixed";
+
+export type MarketSample = {
+  time: number; // ms
+  price: number;
+  tick: number;
+};
+
+export type MarketState = {
+  price: number; // Precio de la fuente configurada
+  currentTick: number; // Tick real de la pool (slot0)
+  tickSpacing: number;
+  // Lecturas de las últimas iteraciones, de la más antigua a la actual (incluida)
+  history: MarketSample[];
+  // Volatilidad anualizada (fracción) de Volatility.estimateVolatility; null sin datos
+  volatility: number | null;
+  timestamp: bigint; // Segundos, para AgentSignal.timestamp
+};
+
+export type PositionState = {
+  // Rango vigente en el Vault; null si el usuario no tiene liquidez o no se conoce
+  range: { lower: number; upper: number } | null;
+  // Liquidez que guarda el Vault (getPosition); 0n sin posición
+  liquidity: bigint;
+  // Precio de la última señal del agente (0 = todavía ninguna)
+  lastSignalPrice: number;
+};
+
+export type StrategyContext = {
+  profile: StrategyRecords;
+  ensNode: Hex;
+  // En una recuperación del breaker la estrategia propone rango sin mirar su disparador
+  purpose: "rebalance" | "recovery";
+};
+
+export type RebalanceStrategy = {
+  id: RebalanceStrategyId;
+  label: string;
+  description: string;
+  evaluate: (market: MarketState, position: PositionState, context: StrategyContext) => AgentSignal | null;
+};
+
+// Muestras que guarda el agente para volatilidad y tendencia (1 h con el loop de 30 s)
+export const MARKET_HISTORY_SIZE = 120;
+
+// REGLA DE ACTIVACIÓN: se rebalancea cuando el precio se mueve más de un 2% desde la última señal
+export const REBALANCE_DEVIATION = 0.02;
+
+const VOLATILITY_HORIZON_MS = 60 * 60_000;
+const VOLATILITY_MULTIPLIER: Record<number, number> = { 1: 4, 2: 3, 3: 2 };
+const MIN_RANGE_WIDTH = 0.0025;
+const MAX_RANGE_WIDTH = 0.1;
+
+// Tendencia medida sobre las últimas TREND_SAMPLES lecturas; el rango se desplaza como mucho la mitad
+const TREND_SAMPLES = 10;
+const MAX_TREND_SKEW = 0.5;
+
+/**
+ * Amplitud del rango (±%) según el perfil: ±0.5% para riesgo 3 y ±2% para el resto,
+ * limitada por strategy_max_width.
+ */
+export const getRangeWidth = (profile: StrategyRecords) =>
+  Math.min((profile.riskLevel ?? 2) === 3 ? 0.005 : 0.02, profile.maxRangeWidth ?? Infinity);
+
+const priceDeviation = (market: MarketState, position: PositionState) =>
+  position.lastSignalPrice === 0 ? 1 : Math.abs((market.price - position.lastSignalPrice) / position.lastSignalPrice);
+
+const isOutOfRange = (market: MarketState, position: PositionState) =>
+  position.range === null || market.currentTick < position.range.lower || market.currentTick >= position.range.upper;
+
+const ticksForWidth = (widthPct: number) => Math.log(1 + widthPct) / Math.log(1.0001);
+
+const buildSignal = (
+  market: MarketState,
+  range: { lower: number; upper: number },
+  { profile, ensNode }: StrategyContext,
+): AgentSignal => ({
+  currentPrice: BigInt(Math.floor(market.price * 1e18)),
+  volatility: toSignalVolatility(market.volatility), // Puntos básicos anualizados
+  recommendedLower: range.lower,
+  recommendedUpper: range.upper,
+  riskLevel: BigInt(profile.riskLevel ?? 2),
+  ensNode,
+  timestamp: market.timestamp,
+});
+
+type StrategyRule = Omit<RebalanceStrategy, "evaluate"> & {
+  // true si la posición necesita moverse
+  shouldRebalance: (market: MarketState, position: PositionState, profile: StrategyRecords) => boolean;
+  range: (market: MarketState, profile: StrategyRecords) => { lower: number; upper: number };
+};
+
+const defineStrategy = ({ shouldRebalance, range, ...meta }: StrategyRule): RebalanceStrategy => ({
+  ...meta,
+  // Sin liquidez no hay nada que mover: el hook revierte con NoPositionToRebalance
+  evaluate: (market, position, context) =>
+    position.liquidity > 0n && (context.purpose === "recovery" || shouldRebalance(market, position, context.profile))
+      ? buildSignal(market, range(market, context.profile), context)
+      : null,
+});
+
+const fixedRange = (market: MarketState, profile: StrategyRecords) =>
+  getRangeAroundTick(market.currentTick, getRangeWidth(profile), market.tickSpacing);
+
+// Ancho ±k·σ a una hora; sin estimación de volatilidad se usa el ancho fijo del perfil
+const volatilityWidth = (market: MarketState, profile: StrategyRecords) => {
+  if (market.volatility === null) return getRangeWidth(profile);
+  const sigma = scaleVolatility(market.volatility, VOLATILITY_HORIZON_MS);
+  const width = sigma * (VOLATILITY_MULTIPLIER[profile.riskLevel ?? 2] ?? 3);
+  return Math.min(Math.max(width, MIN_RANGE_WIDTH), profile.maxRangeWidth ?? MAX_RANGE_WIDTH);
+};
+
+export const REBALANCE_STRATEGIES: Record<RebalanceStrategyId, RebalanceStrategy> = {
+  fixed: defineStrategy({
+    id: "fixed",
+    label: "Fixed width",
+    description: "Re-centers a fixed ±% range when the price moves more than 2% from the last signal.",
+    shouldRebalance: (market, position) => priceDeviation(market, position) > REBALANCE_DEVIATION,
+    range: fixedRange,
+  }),
+  volatility: defineStrategy({
+    id: "volatility",
+    label: "Volatility-scaled",
+    description: "Sizes the range from the price volatility scaled to one hour and re-centers at half its width.",
+    shouldRebalance: (market, position, profile) =>
+      isOutOfRange(market, position) || priceDeviation(market, position) > volatilityWidth(market, profile) / 2,
+    range: (market, profile) =>
+      getRangeAroundTick(market.currentTick, volatilityWidth(market, profile), market.tickSpacing),
+  }),
+  trend: defineStrategy({
+    id: "trend",
+    label: "Trend-biased",
+    description: "Keeps the fixed width but shifts up to half of it towards the recent pool tick trend.",
+    shouldRebalance: (market, position) => priceDeviation(market, position) > REBALANCE_DEVIATION,
+    range: (market, profile) => {
+      // En ticks: el sentido no depende de qué token es la base
+      const halfWidth = ticksForWidth(getRangeWidth(profile));
+      const from = market.history[Math.max(0, market.history.length - TREND_SAMPLES)];
+      const drift = from ? market.currentTick - from.tick : 0;
+      const skew = Math.max(-MAX_TREND_SKEW, Math.min(MAX_TREND_SKEW, drift / halfWidth));
+      return alignRange(
+        market.currentTick - halfWidth * (1 - skew),
+        market.currentTick + halfWidth * (1 + skew),
+        market.tickSpacing,
+      );
+    },
+  }),
+  "out-of-range": defineStrategy({
+    id: "out-of-range",
+    label: "Out-of-range only",
+    description: "Leaves the position alone while the pool tick is inside it; re-centers only once it exits.",
+    shouldRebalance: isOutOfRange,
+    range: fixedRange,
+  }),
+};
+
+/**
+ * Estrategia del perfil del usuario (strategy_kind, o la de por defecto).
+ */
+export const getRebalanceStrategy = (profile: StrategyRecords): RebalanceStrategy =>
+  REBALANCE_STRATEGIES[profile.strategyKind ?? DEFAULT_REBALANCE_STRATEGY];
+
+/**
+ * Añade una lectura al historial, descartando las más antiguas.
+ */
+export const pushMarketSample = (history: MarketSample[], sample: MarketSample, size = MARKET_HISTORY_SIZE) => {
+  history.push(sample);
+  if (history.length > size) history.splice(0, history.length - size);
+  return history;
+};
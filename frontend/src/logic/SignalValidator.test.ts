@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import { namehash, zeroHash } from "viem";
+import type { AgentSignal } from "../config/contracts";
+import { EMPTY_STRATEGY } from "./EnsStrategy";
+import { type MarketState, type PositionState, getRebalanceStrategy } from "./RebalanceStrategy";
+import { BREAKER_TRIGGER_RISK } from "./CircuitBreaker";
+import { MAX_TICK_DEVIATION, type SignalRules, positionIdFor, validateSignal } from "./SignalValidator";
+
+const ensNode = namehash("alice.eth");
+const LIQUIDITY = 1_234_567_890n;
+
+const rules: SignalRules = {
+  maxSignalAge: 300n,
+  maxRiskThreshold: 90n,
+  maxTickDeviation: MAX_TICK_DEVIATION,
+  currentTick: 0,
+  tickSpacing: 60,
+  blockTimestamp: 1_000n,
+  emergencyMode: false,
+  lastPositionId: zeroHash,
+  positionLiquidity: LIQUIDITY,
+};
+
+const signal = (volatility: bigint): AgentSignal => ({
+  currentPrice: 3_000n * 10n ** 18n,
+  volatility,
+  recommendedLower: -600,
+  recommendedUpper: 600,
+  riskLevel: 2n,
+  ensNode,
+  timestamp: 1_000n,
+});
+
+// 65% anual en puntos básicos
+const VOLATILITY = 6_500n;
+
+const withSignal = (overrides: Partial<AgentSignal>) => ({ ...signal(VOLATILITY), ...overrides });
+
+describe("validateSignal liquidity", () => {
+  test("keeps a signal whatever its volatility: the hook reads the liquidity from the vault", () => {
+    for (const volatility of [0n, VOLATILITY, LIQUIDITY]) {
+      expect(validateSignal(signal(volatility), rules)).toMatchObject({ ok: true, adjustments: [] });
+    }
+  });
+
+  test("drops any signal for an empty position", () => {
+    const empty = { ...rules, positionLiquidity: 0n };
+    expect(validateSignal(signal(VOLATILITY), empty)).toMatchObject({ ok: false, reason: "liquidity" });
+  });
+});
+
+describe("validateSignal range", () => {
+  test("snaps the range outwards to the tick spacing", () => {
+    const result = validateSignal(withSignal({ recommendedLower: -590, recommendedUpper: 610 }), rules);
+    expect(result).toMatchObject({ ok: true, signal: { recommendedLower: -600, recommendedUpper: 660 } });
+    expect(result.ok && result.adjustments[0]).toContain("reshaped to [-600, 660]");
+  });
+
+  test("clamps the range to ±2000 ticks of the current tick on usable ticks", () => {
+    expect(validateSignal(withSignal({ recommendedLower: -5_000, recommendedUpper: 5_000 }), rules)).toMatchObject({
+      ok: true,
+      signal: { recommendedLower: -1_980, recommendedUpper: 1_980 },
+    });
+    const shifted = { ...rules, currentTick: 10_030 };
+    expect(validateSignal(withSignal({ recommendedLower: 0, recommendedUpper: 20_000 }), shifted)).toMatchObject({
+      ok: true,
+      signal: { recommendedLower: 8_040, recommendedUpper: 12_000 },
+    });
+  });
+
+  test("swaps an inverted range and drops one that cannot fit", () => {
+    expect(validateSignal(withSignal({ recommendedLower: 600, recommendedUpper: -600 }), rules)).toMatchObject({
+      ok: true,
+      signal: { recommendedLower: -600, recommendedUpper: 600 },
+    });
+    expect(validateSignal(withSignal({ recommendedLower: 3_000, recommendedUpper: 4_000 }), rules)).toMatchObject({
+      ok: false,
+      reason: "range",
+    });
+  });
+});
+
+describe("validateSignal hook rules", () => {
+  test("re-stamps a signal older than MAX_SIGNAL_AGE", () => {
+    const stale = validateSignal(withSignal({ timestamp: 699n }), rules);
+    expect(stale).toMatchObject({ ok: true, signal: { timestamp: 1_000n } });
+    expect(stale.ok && stale.adjustments[0]).toContain("MAX_SIGNAL_AGE");
+    // Justo en el límite el hook todavía la acepta
+    expect(validateSignal(withSignal({ timestamp: 700n }), rules)).toMatchObject({ ok: true, signal: { timestamp: 700n }, adjustments: [] });
+  });
+
+  test("drops a risk level above MAX_RISK_THRESHOLD", () => {
+    expect(validateSignal(withSignal({ riskLevel: 90n }), rules)).toMatchObject({ ok: true });
+    expect(validateSignal(withSignal({ riskLevel: 91n }), rules)).toMatchObject({ ok: false, reason: "risk" });
+  });
+
+  test("skips the user's last range unless the breaker is on", () => {
+    const last = { ...rules, lastPositionId: positionIdFor(-600, 600) };
+    expect(validateSignal(signal(VOLATILITY), last)).toMatchObject({ ok: false, reason: "duplicate" });
+    // También cuando coincide después de alinear al spacing
+    expect(validateSignal(withSignal({ recommendedLower: -590, recommendedUpper: 590 }), last)).toMatchObject({
+      ok: false,
+      reason: "duplicate",
+    });
+    expect(validateSignal(signal(VOLATILITY), { ...last, emergencyMode: true })).toMatchObject({ ok: true });
+  });
+
+  test("passes an emergency signal untouched", () => {
+    const emergency = {
+      ...signal(0n),
+      riskLevel: BigInt(BREAKER_TRIGGER_RISK),
+      recommendedLower: 5_000,
+      recommendedUpper: -5_000,
+      timestamp: 0n,
+    };
+    const empty = { ...rules, positionLiquidity: 0n, lastPositionId: positionIdFor(5_000, -5_000) };
+    expect(validateSignal(emergency, empty)).toEqual({ ok: true, signal: emergency, adjustments: [] });
+  });
+});
+
+describe("RebalanceStrategy signals", () => {
+  const market: MarketState = {
+    price: 3_000,
+    currentTick: 80_000,
+    tickSpacing: 60,
+    history: [],
+    volatility: null,
+    timestamp: 1_000n,
+  };
+  const position: PositionState = {
+    range: { lower: 70_000, upper: 71_000 },
+    liquidity: LIQUIDITY,
+    lastSignalPrice: 2_000,
+  };
+  const profile = { ...EMPTY_STRATEGY, riskLevel: 2 };
+  const strategy = getRebalanceStrategy(profile);
+
+  test("carry the volatility estimate in basis points", () => {
+    const proposed = strategy.evaluate({ ...market, volatility: 0.65 }, position, { profile, ensNode, purpose: "rebalance" });
+    expect(proposed?.volatility).toBe(6_500n);
+    // Sin estimación todavía se envía 0
+    expect(strategy.evaluate(market, position, { profile, ensNode, purpose: "rebalance" })?.volatility).toBe(0n);
+  });
+
+  test("propose nothing without liquidity", () => {
+    for (const purpose of ["rebalance", "recovery"] as const) {
+      expect(strategy.evaluate(market, { ...position, range: null, liquidity: 0n }, { profile, ensNode, purpose })).toBeNull();
+    }
+  });
+});
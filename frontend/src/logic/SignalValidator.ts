@@ -0,0 +1,163 @@
+import { type Address, type Hex, type PublicClient, encodeAbiParameters, keccak256 } from "viem";
+import { type AgentSignal, hookContract, vaultContract } from "../config/contracts";
+import { type PoolKey, readPoolState } from "./PoolState";
+import { BREAKER_TRIGGER_RISK } from "./CircuitBreaker";
+
+/**
+ * VALIDADOR DE SEÑALES: replica en cliente las comprobaciones de
+ * EnstableHook.processAgentSignal para no gastar una simulación (ni gas) en señales
+ * que el hook va a rechazar o ignorar. Reglas del contrato, en su orden:
+ *
+ * 1. riskLevel == 100 activa el breaker y retorna antes de validar nada más.
+ * 2. Si keccak256(lower, upper) == s_userLastPositionId[user] y no hay emergencia,
+ *    el hook retorna sin hacer nada (la tx se paga igual).
+ * 3. block.timestamp > timestamp + MAX_SIGNAL_AGE      → EnstableHook__StaleSignal
+ * 4. riskLevel > MAX_RISK_THRESHOLD                    → EnstableHook__ExtremeVolatility
+ * 5. lower >= upper                                    → EnstableHook__InvalidBounds
+ * 6. lower < tick - 2000 || upper > tick + 2000        → EnstableHook__InvalidRangeProposed
+ * 7. getPosition(user).liquidity == 0                  → EnstableHook__NoPositionToRebalance
+ *    (con liquidez, el hook mueve la posición entera con la liquidez que guarda el Vault)
+ */
+
+// _validatePriceRange: maxDeviation está fijo en el contrato (no es una constante pública)
+export const MAX_TICK_DEVIATION = 2000;
+
+export type SignalRules = {
+  maxSignalAge: bigint;
+  maxRiskThreshold: bigint;
+  maxTickDeviation: number;
+  currentTick: number;
+  tickSpacing: number;
+  blockTimestamp: bigint;
+  emergencyMode: boolean;
+  lastPositionId: Hex;
+  // Liquidez que guarda el Vault para el usuario (getPosition)
+  positionLiquidity: bigint;
+};
+
+export type SignalDropReason = "duplicate" | "risk" | "range" | "liquidity";
+
+export type SignalValidation =
+  | { ok: true; signal: AgentSignal; adjustments: string[] }
+  | { ok: false; reason: SignalDropReason; message: string };
+
+// Mismo hash que el bloque assembly del hook: dos palabras de 32 bytes con signo extendido
+export const positionIdFor = (lower: number, upper: number) =>
+  keccak256(encodeAbiParameters([{ type: "int24" }, { type: "int24" }], [lower, upper]));
+
+// MAX_SIGNAL_AGE y MAX_RISK_THRESHOLD son constantes: se leen una vez por hook
+const constantsCache = new Map<Address, Promise<{ maxSignalAge: bigint; maxRiskThreshold: bigint }>>();
+
+const readHookConstants = (client: PublicClient) => {
+  let constants = constantsCache.get(hookContract.address);
+  if (!constants) {
+    constants = Promise.all([
+      client.readContract({ ...hookContract, functionName: "MAX_SIGNAL_AGE" }),
+      client.readContract({ ...hookContract, functionName: "MAX_RISK_THRESHOLD" }),
+    ]).then(([maxSignalAge, maxRiskThreshold]) => ({ maxSignalAge, maxRiskThreshold }));
+    // Si la lectura falla no dejamos la promesa rechazada en caché
+    constants.catch(() => constantsCache.delete(hookContract.address));
+    constantsCache.set(hookContract.address, constants);
+  }
+  return constants;
+};
+
+/**
+ * Lee del hook y de la pool todo lo que necesita validateSignal.
+ */
+export const readSignalRules = async (client: PublicClient, poolKey: PoolKey, user: Address): Promise<SignalRules> => {
+  const [constants, block, { tick }, emergencyMode, lastPositionId, position] = await Promise.all([
+    readHookConstants(client),
+    client.getBlock(),
+    readPoolState(client, poolKey),
+    client.readContract({ ...hookContract, functionName: "s_emergencyMode" }),
+    client.readContract({ ...hookContract, functionName: "s_userLastPositionId", args: [user] }),
+    client.readContract({ ...vaultContract, functionName: "getPosition", args: [user] }),
+  ]);
+
+  return {
+    ...constants,
+    maxTickDeviation: MAX_TICK_DEVIATION,
+    currentTick: tick,
+    tickSpacing: poolKey.tickSpacing,
+    blockTimestamp: block.timestamp,
+    emergencyMode,
+    lastPositionId,
+    positionLiquidity: position.liquidity,
+  };
+};
+
+/**
+ * Aplica las reglas del hook. Lo que se puede corregir sin cambiar la intención de la
+ * señal se corrige (timestamp, rango invertido, rango fuera de ±2000 ticks o sin alinear
+ * al tickSpacing) y queda en `adjustments`; lo demás descarta la señal con un motivo.
+ */
+export const validateSignal = (signal: AgentSignal, rules: SignalRules): SignalValidation => {
+  // 1. Señal de emergencia: el hook no mira ni rango ni timestamp
+  if (signal.riskLevel === BigInt(BREAKER_TRIGGER_RISK)) {
+    return { ok: true, signal, adjustments: [] };
+  }
+
+  if (signal.riskLevel > rules.maxRiskThreshold) {
+    return {
+      ok: false,
+      reason: "risk",
+      message: `Risk level ${signal.riskLevel} is above MAX_RISK_THRESHOLD (${rules.maxRiskThreshold}); the hook would revert with ExtremeVolatility.`,
+    };
+  }
+
+  // 7. Sin posición en el Vault no hay nada que mover
+  if (rules.positionLiquidity === 0n) {
+    return {
+      ok: false,
+      reason: "liquidity",
+      message: "The user has no liquidity in the vault; the hook would revert with NoPositionToRebalance.",
+    };
+  }
+
+  const adjustments: string[] = [];
+  const next = { ...signal };
+
+  if (rules.blockTimestamp > next.timestamp + rules.maxSignalAge) {
+    adjustments.push(`timestamp ${next.timestamp} is older than MAX_SIGNAL_AGE (${rules.maxSignalAge}s); re-stamped with the block time`);
+    next.timestamp = rules.blockTimestamp;
+  }
+
+  let lower = next.recommendedLower;
+  let upper = next.recommendedUpper;
+  if (lower > upper) {
+    adjustments.push(`inverted range [${lower}, ${upper}] swapped`);
+    [lower, upper] = [upper, lower];
+  }
+
+  // El rango tiene que caber en ±maxTickDeviation y en ticks usables (múltiplos del spacing)
+  const { currentTick, maxTickDeviation, tickSpacing } = rules;
+  const minLower = Math.ceil((currentTick - maxTickDeviation) / tickSpacing) * tickSpacing;
+  const maxUpper = Math.floor((currentTick + maxTickDeviation) / tickSpacing) * tickSpacing;
+  const clampedLower = Math.max(Math.floor(lower / tickSpacing) * tickSpacing, minLower);
+  const clampedUpper = Math.min(Math.ceil(upper / tickSpacing) * tickSpacing, maxUpper);
+
+  if (clampedLower >= clampedUpper) {
+    return {
+      ok: false,
+      reason: "range",
+      message: `Range [${lower}, ${upper}] cannot be reshaped into ±${maxTickDeviation} ticks of the current tick ${currentTick}.`,
+    };
+  }
+  if (clampedLower !== lower || clampedUpper !== upper) {
+    adjustments.push(`range [${lower}, ${upper}] reshaped to [${clampedLower}, ${clampedUpper}] (tick ${currentTick} ±${maxTickDeviation}, spacing ${tickSpacing})`);
+  }
+  next.recommendedLower = clampedLower;
+  next.recommendedUpper = clampedUpper;
+
+  // 2. Mismo rango que la última posición: el hook lo ignoraría (salvo en emergencia)
+  if (!rules.emergencyMode && positionIdFor(clampedLower, clampedUpper) === rules.lastPositionId) {
+    return {
+      ok: false,
+      reason: "duplicate",
+      message: `Range [${clampedLower}, ${clampedUpper}] is already the user's last position; the hook would skip the signal.`,
+    };
+  }
+
+  return { ok: true, signal: next, adjustments };
+};
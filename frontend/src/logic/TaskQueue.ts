@@ -0,0 +1,58 @@
+/**
+ * COLA CON LÍMITE DE CONCURRENCIA Y SEPARACIÓN MÍNIMA entre arranques de tareas.
+ *
+ * El scheduler usa dos: una para las iteraciones de los agentes (lecturas contra un solo
+ * RPC) y otra, de concurrencia 1, para las señales (un solo nonce del agente).
+ */
+export type TaskQueueOptions = {
+  concurrency?: number;
+  // Milisegundos mínimos entre el inicio de dos tareas (rate limit)
+  minGapMs?: number;
+};
+
+export type TaskQueue = {
+  run: <T>(job: () => Promise<T>) => Promise<T>;
+  // Tareas en curso más las que esperan turno
+  size: () => number;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createTaskQueue = ({ concurrency = 1, minGapMs = 0 }: TaskQueueOptions = {}): TaskQueue => {
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  let nextStartAt = 0;
+
+  const acquire = () =>
+    new Promise<void>((resolve) => {
+      if (active < concurrency) {
+        active++;
+        resolve();
+      } else {
+        waiting.push(resolve);
+      }
+    });
+
+  // El hueco se pasa directamente a la siguiente en espera (FIFO)
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return {
+    run: async (job) => {
+      await acquire();
+      try {
+        // Se reserva el hueco antes de dormir para que dos tareas no tomen el mismo
+        const startAt = Math.max(Date.now(), nextStartAt);
+        nextStartAt = startAt + minGapMs;
+        await sleep(startAt - Date.now());
+        return await job();
+      } finally {
+        release();
+      }
+    },
+    size: () => active + waiting.length,
+  };
+};
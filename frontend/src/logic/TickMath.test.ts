@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import {
+  MAX_SQRT_PRICE,
+  MAX_TICK,
+  MIN_SQRT_PRICE,
+  MIN_TICK,
+  type PriceContext,
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+  maxUsableTick,
+  minUsableTick,
+  nearestUsableTick,
+  priceToTick,
+  tickToPrice,
+} from "./TickMath";
+
+const Q96 = 1n << 96n;
+
+describe("getSqrtPriceAtTick / getTickAtSqrtPrice", () => {
+  test("match the v4 constants at the boundaries and at tick 0", () => {
+    expect(getSqrtPriceAtTick(MIN_TICK)).toBe(MIN_SQRT_PRICE);
+    expect(getSqrtPriceAtTick(MAX_TICK)).toBe(MAX_SQRT_PRICE);
+    expect(getSqrtPriceAtTick(0)).toBe(Q96);
+    expect(getTickAtSqrtPrice(MIN_SQRT_PRICE)).toBe(MIN_TICK);
+    expect(getTickAtSqrtPrice(MAX_SQRT_PRICE - 1n)).toBe(MAX_TICK - 1);
+  });
+
+  test("reject ticks and prices outside the range", () => {
+    expect(() => getSqrtPriceAtTick(MAX_TICK + 1)).toThrow("Invalid tick");
+    expect(() => getSqrtPriceAtTick(MIN_TICK - 1)).toThrow("Invalid tick");
+    expect(() => getSqrtPriceAtTick(1.5)).toThrow("Invalid tick");
+    expect(() => getTickAtSqrtPrice(MIN_SQRT_PRICE - 1n)).toThrow("out of range");
+    expect(() => getTickAtSqrtPrice(MAX_SQRT_PRICE)).toThrow("out of range");
+  });
+
+  test("round-trip every tick, and a price between ticks floors to the lower one", () => {
+    for (const tick of [MIN_TICK, -887_000, -200_000, -60, -1, 0, 1, 59, 200_000, 887_000, MAX_TICK - 1]) {
+      const sqrtPrice = getSqrtPriceAtTick(tick);
+      expect(getTickAtSqrtPrice(sqrtPrice)).toBe(tick);
+      expect(getTickAtSqrtPrice(sqrtPrice + 1n)).toBe(tick);
+      if (tick > MIN_TICK) expect(getTickAtSqrtPrice(sqrtPrice - 1n)).toBe(tick - 1);
+    }
+  });
+});
+
+describe("nearestUsableTick", () => {
+  test("snaps negative ticks to the nearest multiple", () => {
+    expect(nearestUsableTick(-95, 60)).toBe(-120);
+    expect(nearestUsableTick(-31, 60)).toBe(-60);
+    expect(nearestUsableTick(-200_010, 10)).toBe(-200_010);
+    expect(nearestUsableTick(-200_014, 10)).toBe(-200_010);
+  });
+
+  test("stays inside the usable bounds", () => {
+    expect(minUsableTick(60)).toBe(-887_220);
+    expect(maxUsableTick(60)).toBe(887_220);
+    expect(nearestUsableTick(MIN_TICK, 60)).toBe(-887_220);
+    expect(nearestUsableTick(MAX_TICK, 60)).toBe(887_220);
+  });
+});
+
+describe("tickToPrice", () => {
+  // ETH (18 decimales) / USDC (6): el mismo par con la base como currency0 o como currency1
+  const ethIsToken0: PriceContext = { baseIsToken0: true, decimals0: 18, decimals1: 6 };
+  const ethIsToken1: PriceContext = { baseIsToken0: false, decimals0: 6, decimals1: 18 };
+
+  test("reads the base price whichever currency the base is", () => {
+    const price = tickToPrice(-200_000, ethIsToken0);
+    expect(price).toBeCloseTo(1.0001 ** -200_000 * 1e12, 6);
+    expect(price).toBeGreaterThan(2_000);
+    expect(price).toBeLessThan(2_100);
+    // Con la base en currency1 el tick se invierte
+    expect(tickToPrice(200_000, ethIsToken1) / price).toBeCloseTo(1, 9);
+  });
+
+  test("priceToTick inverts tickToPrice", () => {
+    for (const ctx of [ethIsToken0, ethIsToken1]) {
+      const tick = priceToTick(3_000, ctx);
+      expect(tickToPrice(tick, ctx)).toBeCloseTo(3_000, -1);
+      expect(Math.abs(priceToTick(tickToPrice(tick, ctx), ctx) - tick)).toBeLessThanOrEqual(1);
+    }
+    expect(Math.sign(priceToTick(3_000, ethIsToken0))).toBe(-1);
+    expect(Math.sign(priceToTick(3_000, ethIsToken1))).toBe(1);
+  });
+});
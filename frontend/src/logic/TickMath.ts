@@ -0,0 +1,185 @@
+import type { Address } from "viem";
+
+/**
+ * Port exacto (bigint) de TickMath.sol de v4-core + conversión precio ↔ tick
+ * consciente del orden de tokens y de los decimales.
+ *
+ * Convenciones:
+ * - "raw price" = token1 / token0 en unidades mínimas (lo que codifica sqrtPriceX96).
+ * - "price" = precio humano del token base expresado en el token cotizado (ej. USD por ETH).
+ */
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_PRICE = 4295128739n;
+export const MAX_SQRT_PRICE = 1461446703485210103287273052203988822378723970342n;
+
+const Q96 = 2n ** 96n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+// Factores sqrt(1.0001)^-(2^i) en Q128, idénticos a TickMath.getSqrtPriceAtTick
+const TICK_RATIOS: [number, bigint][] = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/**
+ * sqrt(1.0001^tick) * 2^96, redondeado hacia arriba como en Solidity.
+ */
+export const getSqrtPriceAtTick = (tick: number): bigint => {
+  const absTick = Math.abs(tick);
+  if (!Number.isInteger(tick) || absTick > MAX_TICK) throw new Error(`Invalid tick: ${tick}`);
+
+  let ratio = absTick & 0x1 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 0x100000000000000000000000000000000n;
+  for (const [bit, factor] of TICK_RATIOS) {
+    if (absTick & bit) ratio = (ratio * factor) >> 128n;
+  }
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+};
+
+/**
+ * Mayor tick tal que getSqrtPriceAtTick(tick) <= sqrtPriceX96 (mismo resultado que
+ * TickMath.getTickAtSqrtPrice). Búsqueda binaria exacta: ~20 iteraciones.
+ */
+export const getTickAtSqrtPrice = (sqrtPriceX96: bigint): number => {
+  if (sqrtPriceX96 < MIN_SQRT_PRICE || sqrtPriceX96 >= MAX_SQRT_PRICE) {
+    throw new Error(`sqrtPriceX96 out of range: ${sqrtPriceX96}`);
+  }
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (getSqrtPriceAtTick(mid) <= sqrtPriceX96) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+// --- TICKS USABLES (múltiplos de tickSpacing) ---
+
+/**
+ * Igual que TickMath.minUsableTick: (MIN_TICK / spacing) * spacing, truncando hacia cero.
+ */
+export const minUsableTick = (tickSpacing: number) => Math.trunc(MIN_TICK / tickSpacing) * tickSpacing;
+export const maxUsableTick = (tickSpacing: number) => Math.trunc(MAX_TICK / tickSpacing) * tickSpacing;
+
+export const clampTick = (tick: number, tickSpacing: number) =>
+  Math.min(maxUsableTick(tickSpacing), Math.max(minUsableTick(tickSpacing), tick));
+
+/**
+ * Múltiplo de tickSpacing más cercano, dentro de los límites usables.
+ */
+export const nearestUsableTick = (tick: number, tickSpacing: number) =>
+  clampTick(Math.round(tick / tickSpacing) * tickSpacing, tickSpacing);
+
+/**
+ * Ajusta un rango crudo a la grilla sin encogerlo: lower hacia abajo y upper hacia arriba.
+ * Garantiza lower < upper (requisito de IdentityVault._validateTicks).
+ */
+export const alignRange = (lower: number, upper: number, tickSpacing: number) => {
+  let alignedLower = clampTick(Math.floor(lower / tickSpacing) * tickSpacing, tickSpacing);
+  let alignedUpper = clampTick(Math.ceil(upper / tickSpacing) * tickSpacing, tickSpacing);
+
+  if (alignedUpper <= alignedLower) {
+    if (alignedLower + tickSpacing <= maxUsableTick(tickSpacing)) alignedUpper = alignedLower + tickSpacing;
+    else alignedLower = alignedUpper - tickSpacing;
+  }
+  return { lower: alignedLower, upper: alignedUpper };
+};
+
+/**
+ * Rango simétrico de ±widthPct alrededor de un tick (ej. 0.02 = ±2%).
+ */
+export const getRangeAroundTick = (centerTick: number, widthPct: number, tickSpacing: number) => {
+  const tickDelta = Math.log(1 + widthPct) / Math.log(1.0001);
+  return alignRange(centerTick - tickDelta, centerTick + tickDelta, tickSpacing);
+};
+
+// --- PRECIO HUMANO ↔ TICK ---
+
+/**
+ * Describe cómo leer el precio de una pool: qué token es la base y sus decimales.
+ */
+export type PriceContext = {
+  baseIsToken0: boolean;
+  decimals0: number;
+  decimals1: number;
+};
+
+export const getPriceContext = (
+  currency0: Address,
+  baseToken: Address,
+  decimals0: number = 18,
+  decimals1: number = 18,
+): PriceContext => ({
+  baseIsToken0: currency0.toLowerCase() === baseToken.toLowerCase(),
+  decimals0,
+  decimals1,
+});
+
+const toRawPrice = (price: number, ctx: PriceContext) => {
+  if (!(price > 0) || !Number.isFinite(price)) throw new Error(`Invalid price: ${price}`);
+  const token1PerToken0 = ctx.baseIsToken0 ? price : 1 / price;
+  return token1PerToken0 * 10 ** (ctx.decimals1 - ctx.decimals0);
+};
+
+const fromRawPrice = (rawPrice: number, ctx: PriceContext) => {
+  const token1PerToken0 = rawPrice / 10 ** (ctx.decimals1 - ctx.decimals0);
+  return ctx.baseIsToken0 ? token1PerToken0 : 1 / token1PerToken0;
+};
+
+export const sqrtPriceX96ToPrice = (sqrtPriceX96: bigint, ctx: PriceContext): number => {
+  const ratio = Number(sqrtPriceX96) / Number(Q96);
+  return fromRawPrice(ratio * ratio, ctx);
+};
+
+export const priceToSqrtPriceX96 = (price: number, ctx: PriceContext): bigint => {
+  const sqrtPrice = BigInt(Math.floor(Math.sqrt(toRawPrice(price, ctx)) * Number(Q96)));
+  if (sqrtPrice < MIN_SQRT_PRICE) return MIN_SQRT_PRICE;
+  if (sqrtPrice >= MAX_SQRT_PRICE) return MAX_SQRT_PRICE - 1n;
+  return sqrtPrice;
+};
+
+export const tickToPrice = (tick: number, ctx: PriceContext): number =>
+  sqrtPriceX96ToPrice(getSqrtPriceAtTick(tick), ctx);
+
+export const priceToTick = (price: number, ctx: PriceContext): number =>
+  getTickAtSqrtPrice(priceToSqrtPriceX96(price, ctx));
+
+/**
+ * Convierte un rango de precios humanos a ticks usables. Si la base es currency1
+ * el precio se invierte, así que el mínimo humano corresponde al tick superior.
+ */
+export const priceRangeToTicks = (minPrice: number, maxPrice: number, ctx: PriceContext, tickSpacing: number) => {
+  const tickA = priceToTick(minPrice, ctx);
+  const tickB = priceToTick(maxPrice, ctx);
+  return alignRange(Math.min(tickA, tickB), Math.max(tickA, tickB), tickSpacing);
+};
+
+/**
+ * Inverso de priceRangeToTicks: devuelve { minPrice, maxPrice } en precio humano.
+ */
+export const ticksToPriceRange = (lower: number, upper: number, ctx: PriceContext) => {
+  const priceA = tickToPrice(lower, ctx);
+  const priceB = tickToPrice(upper, ctx);
+  return { minPrice: Math.min(priceA, priceB), maxPrice: Math.max(priceA, priceB) };
+};
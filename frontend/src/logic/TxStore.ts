@@ -0,0 +1,85 @@
+import type { Address, Hash } from "viem";
+
+/**
+ * REGISTRO DE TRANSACCIONES compartido por toda la app (toasts + tracker).
+ *
+ * Las transacciones con hash se guardan en localStorage: si el usuario recarga
+ * mientras una está pendiente, el tracker retoma la espera del receipt.
+ */
+export type TxStatus = "pending" | "confirmed" | "failed";
+
+export type TrackedTx = {
+  id: string;
+  label: string;
+  status: TxStatus;
+  hash?: Hash;
+  chainId?: number;
+  // Contratos cuyas lecturas hay que refrescar al confirmarse
+  affects: Address[];
+  message?: string;
+  createdAt: number;
+};
+
+const STORAGE_KEY = "enstable:transactions";
+// Las confirmadas/fallidas antiguas no se restauran
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+let transactions: TrackedTx[] = [];
+let loaded = false;
+// useSyncExternalStore necesita la misma referencia en cada llamada durante la hidratación
+const EMPTY_SNAPSHOT: readonly TrackedTx[] = Object.freeze([]);
+const listeners = new Set<() => void>();
+
+const persist = () => {
+  if (typeof window === "undefined") return;
+  const withHash = transactions.filter((tx) => tx.hash);
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(withHash));
+};
+
+const load = () => {
+  if (loaded || typeof window === "undefined") return;
+  loaded = true;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "[]") as TrackedTx[];
+    transactions = saved.filter((tx) => Date.now() - tx.createdAt < MAX_AGE_MS);
+  } catch {
+    transactions = [];
+  }
+};
+
+const emit = () => {
+  persist();
+  for (const listener of listeners) listener();
+};
+
+export const TxStore = {
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  getSnapshot: (): readonly TrackedTx[] => {
+    load();
+    return transactions;
+  },
+
+  getServerSnapshot: () => EMPTY_SNAPSHOT,
+
+  add: (tx: Omit<TrackedTx, "id" | "createdAt">) => {
+    load();
+    const entry: TrackedTx = { ...tx, id: tx.hash ?? `${Date.now()}-${Math.random()}`, createdAt: Date.now() };
+    transactions = [entry, ...transactions.filter((t) => t.id !== entry.id)];
+    emit();
+    return entry.id;
+  },
+
+  update: (id: string, patch: Partial<Pick<TrackedTx, "status" | "message">>) => {
+    transactions = transactions.map((tx) => (tx.id === id ? { ...tx, ...patch } : tx));
+    emit();
+  },
+
+  dismiss: (id: string) => {
+    transactions = transactions.filter((tx) => tx.id !== id);
+    emit();
+  },
+};
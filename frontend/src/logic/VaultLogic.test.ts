@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { TOKENS, definePool } from "../config/pools";
+import { VaultLogic } from "./VaultLogic";
+
+const pool = (fee: number, tickSpacing: number) =>
+  definePool({
+    id: `eeth-eusd-${fee}`,
+    label: `EETH/EUSD ${fee}`,
+    base: TOKENS.EETH,
+    quote: TOKENS.EUSD,
+    fee,
+    tickSpacing,
+    hooks: "0x0000000000000000000000000000000000000000",
+    cexSymbol: "ETHUSDC",
+  });
+
+const A = pool(3000, 60);
+const B = pool(500, 10);
+const POOLS = [A, B];
+
+describe("VaultLogic.resolvePositionPool", () => {
+  test("withdraws from the position pool after the selector switches pools", () => {
+    // Posición abierta en A; el usuario elige B en el selector
+    const open = VaultLogic.resolvePositionPool(1_000n, A.poolId, POOLS);
+    expect(open?.pool?.key).toEqual(A.key);
+    expect(open?.pool?.key).not.toEqual(B.key);
+    expect(VaultLogic.validateDepositPool(B, open)).toContain(`withdraw it before depositing into ${B.label}`);
+    expect(VaultLogic.validateDepositPool(A, open)).toBe("Withdraw your open position before depositing again");
+  });
+
+  test("no position, no restriction", () => {
+    expect(VaultLogic.resolvePositionPool(0n, A.poolId, POOLS)).toBeNull();
+    expect(VaultLogic.resolvePositionPool(undefined, undefined, POOLS)).toBeNull();
+    expect(VaultLogic.validateDepositPool(B, null)).toBeNull();
+  });
+
+  test("a position outside the registry has no pool to withdraw from", () => {
+    const poolId = `0x${"11".repeat(32)}` as const;
+    expect(VaultLogic.resolvePositionPool(1n, poolId, POOLS)).toEqual({ poolId, pool: null });
+  });
+});
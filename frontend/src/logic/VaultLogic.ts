@@ -1,63 +1,70 @@
-import { parseUnits } from "viem";
-
-export const VaultLogic = {
-  /**
-   * Convierte el input de texto (ej: "0.1") a BigInt (ej: 100000000000000000n)
-   */
-  formatDeposit: (amount: string): bigint => {
-    if (!amount || isNaN(parseFloat(amount))) return 0n;
-    try {
-      return parseUnits(amount, 18);
-    } catch {
-      return 0n;
-    }
-  },
-
-  /**
-   * Cálculo visual para mostrar equivalencia en dólares en el UI
-   */
-  calculateEstimation: (amount: string, price: number): string => {
-    const numAmount = parseFloat(amount);
-    if (!numAmount || !price) return "0.00";
-    return (numAmount * price).toLocaleString("en-US", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
-  },
-
-  /**
-   * CRÍTICO: Calcula los Ticks para Uniswap v4.
-   * Uniswap requiere que los ticks sean múltiplos del "TickSpacing" (60).
-   * Si no son exactos, la transacción falla (Revert).
-   */
-  calculateTicks: (price: number, spread: number = 0.05) => { // Spread del 5% para asegurar rango
-    const TICK_SPACING = 60;
-    
-    // 1. Calcular el Tick central basado en el precio: log_1.0001(price)
-    // Nota: Asumimos que el token0 es ETH. Si el precio es 2500, el tick es ~78245
-    const currentTick = Math.floor(Math.log(price) / Math.log(1.0001));
-    
-    // 2. Calcular la amplitud del rango
-    const tickDelta = Math.floor(Math.log(1 + spread) / Math.log(1.0001));
-    
-    // 3. Definir rangos crudos
-    let lowerRaw = currentTick - tickDelta;
-    let upperRaw = currentTick + tickDelta;
-
-    // 4. AJUSTE OBLIGATORIO: Redondear al múltiplo de 60 más cercano
-    // Esto es lo que soluciona el error "Falta límite de gas"
-    const lower = Math.floor(lowerRaw / TICK_SPACING) * TICK_SPACING;
-    const upper = Math.floor(upperRaw / TICK_SPACING) * TICK_SPACING;
-
-    // 5. Seguridad: Upper siempre debe ser mayor que Lower
-    // Si están muy cerca, forzamos una separación de 120 ticks
-    if (upper <= lower) {
-        return { 
-            lower: lower, 
-            upper: lower + (TICK_SPACING * 2) 
-        };
-    }
-
-    return { lower, upper };
-  }
-};
\ No newline at end of file
+import { type Hex, parseUnits } from "viem";
+import { POOLS, type PoolConfig } from "../config/pools";
+import { MIN_TICK, MAX_TICK } from "./TickMath";
+
+/**
+ * Posición abierta en el Vault y su pool (null si getUserPoolId no está en el registro).
+ */
+export type OpenPosition = { poolId: Hex; pool: PoolConfig | null };
+
+export const VaultLogic = {
+  /**
+   * Convierte el input de texto (ej: "0.1") a BigInt (ej: 100000000000000000n)
+   */
+  formatDeposit: (amount: string): bigint => {
+    if (!amount || isNaN(parseFloat(amount))) return 0n;
+    try {
+      return parseUnits(amount, 18);
+    } catch {
+      return 0n;
+    }
+  },
+
+  /**
+   * Cálculo visual para mostrar equivalencia en dólares en el UI
+   */
+  calculateEstimation: (amount: string, price: number): string => {
+    const numAmount = parseFloat(amount);
+    if (!numAmount || !price) return "0.00";
+    return (numAmount * price).toLocaleString("en-US", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    });
+  },
+
+  /**
+   * Réplica de IdentityVault._validateTicks: si devuelve un mensaje, el depósito
+   * revertiría con IdentityVault__InvalidTickRange.
+   */
+  validateTicks: (lower: number, upper: number, tickSpacing: number): string | null => {
+    if (lower >= upper) return "Min price must be below max price";
+    if (lower < MIN_TICK || upper > MAX_TICK) return "Range is outside the Uniswap v4 tick bounds";
+    if (lower % tickSpacing !== 0 || upper % tickSpacing !== 0) {
+      return `Range must snap to the pool tick spacing (${tickSpacing})`;
+    }
+    return null;
+  },
+
+  /**
+   * El Vault guarda una sola posición por usuario, en la pool de getUserPoolId: retiro y
+   * preview usan esa pool aunque el selector muestre otra. null = sin posición abierta.
+   */
+  resolvePositionPool: (
+    liquidity: bigint | undefined,
+    userPoolId: Hex | undefined,
+    pools: PoolConfig[] = POOLS,
+  ): OpenPosition | null => {
+    if (!liquidity || !userPoolId) return null;
+    return { poolId: userPoolId, pool: pools.find((p) => p.poolId.toLowerCase() === userPoolId.toLowerCase()) ?? null };
+  },
+
+  /**
+   * Un depósito con una posición abierta la sobrescribe en el Vault (y en otra pool la
+   * deja huérfana): si devuelve un mensaje, no se deposita.
+   */
+  validateDepositPool: (selected: PoolConfig, open: OpenPosition | null): string | null => {
+    if (!open) return null;
+    if (open.pool?.id === selected.id) return "Withdraw your open position before depositing again";
+    return `Your vault position is in ${open.pool?.label ?? open.poolId}: withdraw it before depositing into ${selected.label}`;
+  },
+};
@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import type { PricePoint } from "./PriceSource";
+import {
+  YEAR_MS,
+  estimateVolatility,
+  measureVolatility,
+  scaleVolatility,
+  toSignalVolatility,
+  volatilitySeries,
+} from "./Volatility";
+
+const MINUTE = 60_000;
+
+// Precio que sube y baja un retorno logarítmico `r` cada minuto: r² constante
+const zigzag = (count: number, r: number, from = 0): PricePoint[] =>
+  Array.from({ length: count }, (_, i) => ({ time: (from + i) * MINUTE, price: Math.exp(r * ((from + i) % 2)) }));
+
+const annualized = (r: number, dtMs: number) => Math.sqrt(((r * r) / dtMs) * YEAR_MS);
+
+describe("volatilitySeries", () => {
+  test("realized and EWMA match σ² = r² / Δt on a constant series", () => {
+    const last = volatilitySeries(zigzag(30, 0.01)).at(-1);
+    expect(last?.realized).toBeCloseTo(annualized(0.01, MINUTE), 9);
+    expect(last?.ewma).toBeCloseTo(annualized(0.01, MINUTE), 9);
+  });
+
+  test("gives no figure until there are minReturns returns", () => {
+    const series = volatilitySeries(zigzag(6, 0.01));
+    expect(series).toHaveLength(6);
+    expect(series.slice(0, 4).map((p) => p.realized)).toEqual([null, null, null, null]);
+    expect(series.slice(0, 4).map((p) => p.ewma)).toEqual([null, null, null, null]);
+    expect(series[4]?.realized).not.toBeNull();
+  });
+
+  test("the realized window forgets old returns and the EWMA decays by half-lives", () => {
+    // Una hora a 1% por minuto y otra a 2%
+    const points = [...zigzag(61, 0.01), ...zigzag(60, 0.02, 61)];
+    // El salto del minuto 60 al 61 también es de 2%: la ventana solo ve retornos de 2%
+    const { realized, ewma } = measureVolatility(points);
+    expect(realized).toBeCloseTo(annualized(0.02, MINUTE), 9);
+    // 60 minutos son cuatro vidas medias: el régimen viejo pesa 1/16
+    const oldVariance = (0.01 ** 2 / MINUTE) / 16;
+    const newVariance = (0.02 ** 2 / MINUTE) * (15 / 16);
+    expect(ewma).toBeCloseTo(Math.sqrt((oldVariance + newVariance) * YEAR_MS), 9);
+  });
+
+  test("weights returns by elapsed time on irregular samples", () => {
+    const points: PricePoint[] = [
+      { time: 0, price: 1 },
+      { time: MINUTE, price: Math.exp(0.01) },
+      { time: 3 * MINUTE, price: 1 },
+    ];
+    const { realized } = measureVolatility(points, { minReturns: 2 });
+    expect(realized).toBeCloseTo(Math.sqrt(((2 * 0.01 ** 2) / (3 * MINUTE)) * YEAR_MS), 9);
+  });
+
+  test("ignores invalid prices and repeated timestamps", () => {
+    const points = [...zigzag(10, 0.01), { time: 9 * MINUTE, price: 5 }, { time: 10 * MINUTE, price: 0 }];
+    expect(measureVolatility(points).realized).toBeCloseTo(annualized(0.01, MINUTE), 9);
+  });
+});
+
+describe("estimateVolatility", () => {
+  test("uses the larger EWMA of the feed and the pool swaps", () => {
+    const calm = zigzag(10, 0.01);
+    const wild = zigzag(10, 0.03);
+    expect(estimateVolatility(calm, wild).value).toBeCloseTo(annualized(0.03, MINUTE), 9);
+    expect(estimateVolatility(wild, calm).value).toBeCloseTo(annualized(0.03, MINUTE), 9);
+    expect(estimateVolatility(calm, null).value).toBeCloseTo(annualized(0.01, MINUTE), 9);
+    expect(estimateVolatility(calm.slice(0, 2), null)).toMatchObject({ value: null, swaps: null });
+  });
+});
+
+describe("scaleVolatility", () => {
+  test("scales with the square root of the horizon", () => {
+    expect(scaleVolatility(0.8, YEAR_MS)).toBeCloseTo(0.8, 12);
+    expect(scaleVolatility(0.8, YEAR_MS / 4)).toBeCloseTo(0.4, 12);
+  });
+});
+
+describe("toSignalVolatility", () => {
+  test("sends the annualized fraction in whole basis points, 0 without an estimate", () => {
+    expect(toSignalVolatility(0.65)).toBe(6_500n);
+    expect(toSignalVolatility(0.123456)).toBe(1_235n);
+    expect(toSignalVolatility(null)).toBe(0n);
+    expect(toSignalVolatility(Number.NaN)).toBe(0n);
+  });
+});
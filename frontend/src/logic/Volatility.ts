@@ -0,0 +1,244 @@
+import { type PublicClient, parseAbi } from "viem";
+import { CONTRACTS } from "../config/contracts";
+import type { PoolConfig } from "../config/pools";
+import { BLOCK_RANGE } from "./EventIndexer";
+import type { PricePoint } from "./PriceSource";
+import { sqrtPriceX96ToPrice } from "./TickMath";
+
+/**
+ * VOLATILIDAD DEL PRECIO: realizada (ventana móvil) y EWMA, a partir del feed de precio
+ * configurado y de los Swap de la propia pool en el PoolManager.
+ *
+ * Unidades:
+ * - En esta API, volatilidad anualizada como fracción: 0.65 = 65% al año. Las muestras
+ *   pueden venir a intervalos irregulares: la varianza se mide por unidad de tiempo
+ *   (Σ r² / Δt) y se anualiza con YEAR_MS.
+ * - En AgentSignal.volatility, puntos básicos enteros de esa misma cifra: 6500 = 65%
+ *   (toSignalVolatility). El hook no la usa como liquidez: la lee del Vault.
+ */
+export const YEAR_MS = 365 * 24 * 60 * 60_000;
+
+// AgentSignal.volatility: 10_000 = 100% anual
+export const VOLATILITY_SCALE = 10_000;
+
+export type VolatilityOptions = {
+  // Ventana de la volatilidad realizada
+  windowMs: number;
+  // Vida media del peso de cada retorno en la EWMA
+  halfLifeMs: number;
+  // Retornos mínimos para dar una cifra
+  minReturns: number;
+};
+
+export const DEFAULT_VOLATILITY_OPTIONS: VolatilityOptions = {
+  windowMs: 60 * 60_000,
+  halfLifeMs: 15 * 60_000,
+  minReturns: 4,
+};
+
+export type VolatilityPoint = {
+  time: number;
+  realized: number | null;
+  ewma: number | null;
+};
+
+export type VolatilityStats = {
+  realized: number | null;
+  ewma: number | null;
+  samples: number;
+};
+
+export type VolatilityEstimate = {
+  feed: VolatilityStats;
+  swaps: VolatilityStats | null;
+  // Valor que usa el agente: la mayor EWMA disponible (una pool más agitada que el feed
+  // también es riesgo)
+  value: number | null;
+};
+
+const annualize = (variancePerMs: number) => Math.sqrt(variancePerMs * YEAR_MS);
+
+// Retorno logarítmico al cuadrado entre dos muestras y el tiempo transcurrido
+type LogReturn = { time: number; dt: number; r2: number };
+
+/**
+ * Serie móvil de volatilidad: un punto por muestra con la realizada de la ventana que
+ * termina en ella y la EWMA acumulada hasta ella. Es lo que dibuja PriceChart.
+ */
+export const volatilitySeries = (
+  points: PricePoint[],
+  overrides: Partial<VolatilityOptions> = {},
+): VolatilityPoint[] => {
+  const { windowMs, halfLifeMs, minReturns } = {
+    ...DEFAULT_VOLATILITY_OPTIONS,
+    ...overrides,
+  };
+  const valid = points.filter((p) => p.price > 0 && Number.isFinite(p.price)).sort((a, b) => a.time - b.time);
+
+  // Retornos logarítmicos entre muestras consecutivas con tiempo transcurrido
+  const returns: LogReturn[] = [];
+  for (let i = 1; i < valid.length; i++) {
+    const prev = valid[i - 1] as PricePoint;
+    const next = valid[i] as PricePoint;
+    if (next.time <= prev.time) continue;
+    returns.push({
+      time: next.time,
+      dt: next.time - prev.time,
+      r2: Math.log(next.price / prev.price) ** 2,
+    });
+  }
+
+  const series: VolatilityPoint[] =
+    valid.length > 0 ? [{ time: (valid[0] as PricePoint).time, realized: null, ewma: null }] : [];
+  let start = 0;
+  let sumR2 = 0;
+  let sumDt = 0;
+  let ewmaVariance: number | null = null;
+
+  returns.forEach(({ time, dt, r2 }, i) => {
+    sumR2 += r2;
+    sumDt += dt;
+    while (start < i) {
+      const oldest = returns[start] as LogReturn;
+      if (time - oldest.time < windowMs) break;
+      sumR2 -= oldest.r2;
+      sumDt -= oldest.dt;
+      start++;
+    }
+    // El peso del dato anterior decae con el tiempo, no con el número de muestras
+    const decay = 0.5 ** (dt / halfLifeMs);
+    ewmaVariance = ewmaVariance === null ? r2 / dt : decay * ewmaVariance + (1 - decay) * (r2 / dt);
+
+    series.push({
+      time,
+      realized: i - start + 1 >= minReturns && sumDt > 0 ? annualize(sumR2 / sumDt) : null,
+      ewma: i + 1 >= minReturns ? annualize(ewmaVariance) : null,
+    });
+  });
+  return series;
+};
+
+/**
+ * Última realizada y EWMA de una serie de precios.
+ */
+export const measureVolatility = (
+  points: PricePoint[],
+  overrides: Partial<VolatilityOptions> = {},
+): VolatilityStats => {
+  const last = volatilitySeries(points, overrides).at(-1);
+  return {
+    realized: last?.realized ?? null,
+    ewma: last?.ewma ?? null,
+    samples: points.length,
+  };
+};
+
+export const estimateVolatility = (
+  feed: PricePoint[],
+  swaps: PricePoint[] | null,
+  overrides: Partial<VolatilityOptions> = {},
+): VolatilityEstimate => {
+  const feedStats = measureVolatility(feed, overrides);
+  const swapStats = swaps ? measureVolatility(swaps, overrides) : null;
+  const candidates = [feedStats.ewma, swapStats?.ewma ?? null].filter((v): v is number => v !== null);
+  return {
+    feed: feedStats,
+    swaps: swapStats,
+    value: candidates.length > 0 ? Math.max(...candidates) : null,
+  };
+};
+
+/**
+ * Volatilidad anualizada (fracción) → AgentSignal.volatility en puntos básicos.
+ * Sin estimación se envía 0.
+ */
+export const toSignalVolatility = (annualized: number | null): bigint =>
+  annualized === null || !Number.isFinite(annualized) ? 0n : BigInt(Math.round(annualized * VOLATILITY_SCALE));
+
+/**
+ * Volatilidad anualizada escalada a otro horizonte (raíz del tiempo), ej. 1 h para el
+ * ancho de un rango.
+ */
+export const scaleVolatility = (annualized: number, horizonMs: number) => annualized * Math.sqrt(horizonMs / YEAR_MS);
+
+// --- SWAPS DE LA POOL ---
+
+export const SWAP_EVENT_ABI = parseAbi([
+  "event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)",
+]);
+
+/**
+ * Precio tras cada Swap de la pool en [fromBlock, toBlock]. Para no pedir un bloque por
+ * swap, el timestamp se interpola entre los dos extremos del tramo.
+ */
+export const fetchSwapPrices = async (
+  client: PublicClient,
+  pool: PoolConfig,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<PricePoint[]> => {
+  const [logs, first, last] = await Promise.all([
+    client.getLogs({
+      address: CONTRACTS.POOL_MANAGER,
+      event: SWAP_EVENT_ABI[0],
+      args: { id: pool.poolId },
+      fromBlock,
+      toBlock,
+    }),
+    client.getBlock({ blockNumber: fromBlock }),
+    client.getBlock({ blockNumber: toBlock }),
+  ]);
+  const span = Number(toBlock - fromBlock);
+  const msPerBlock = span > 0 ? (Number(last.timestamp - first.timestamp) * 1000) / span : 0;
+
+  return logs.flatMap((log) =>
+    log.args.sqrtPriceX96 && log.blockNumber !== null
+      ? [
+          {
+            time: Number(first.timestamp) * 1000 + Number(log.blockNumber - fromBlock) * msPerBlock,
+            price: sqrtPriceX96ToPrice(log.args.sqrtPriceX96, pool.priceContext),
+          },
+        ]
+      : [],
+  );
+};
+
+/**
+ * Sigue los Swap de una pool de forma incremental y guarda solo los de la ventana.
+ * La primera lectura cubre como mucho los últimos `lookbackBlocks` bloques.
+ */
+export const createSwapPriceTracker = (
+  client: PublicClient,
+  pool: PoolConfig,
+  { windowMs = DEFAULT_VOLATILITY_OPTIONS.windowMs, lookbackBlocks = BLOCK_RANGE } = {},
+) => {
+  let points: PricePoint[] = [];
+  let lastBlock: bigint | null = null;
+  let pending: Promise<PricePoint[]> | null = null;
+
+  const sync = async () => {
+    const latest = await client.getBlockNumber();
+    let from = lastBlock === null ? (latest > lookbackBlocks ? latest - lookbackBlocks : 0n) : lastBlock + 1n;
+    for (; from <= latest; from += BLOCK_RANGE) {
+      const to = from + BLOCK_RANGE - 1n < latest ? from + BLOCK_RANGE - 1n : latest;
+      points = points.concat(await fetchSwapPrices(client, pool, from, to));
+      lastBlock = to;
+    }
+    const now = Date.now();
+    points = points.filter((p) => now - p.time <= windowMs);
+    return points;
+  };
+
+  return {
+    // Los agentes de una misma pool comparten el tracker: una lectura en curso se reutiliza
+    update: () => {
+      pending ??= sync().finally(() => {
+        pending = null;
+      });
+      return pending;
+    },
+    getPoints: () => points,
+  };
+};
+
+export type SwapPriceTracker = ReturnType<typeof createSwapPriceTracker>;